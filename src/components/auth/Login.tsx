@@ -1,4 +1,3 @@
-
 'use client';
 
 import React, { useState } from 'react';
@@ -6,32 +5,50 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
-import { LogIn } from 'lucide-react';
+import { LogIn, UserPlus, Loader2 } from 'lucide-react';
+import { credentialsSchema, type Credentials } from '@/types/auth';
+
+export type AuthMode = 'login' | 'register';
 
 interface LoginProps {
-  onLogin: (username: string) => void;
+  onSubmit: (mode: AuthMode, credentials: Credentials) => void;
+  error?: string | null; // Error returned by the server, shown under the form
+  isSubmitting?: boolean;
 }
 
-export function Login({ onLogin }: LoginProps) {
+export function Login({ onSubmit, error: serverError, isSubmitting = false }: LoginProps) {
+  const [mode, setMode] = useState<AuthMode>('login');
   const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
   const [error, setError] = useState('');
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!username.trim()) {
-      setError('Username cannot be empty.');
+    // Validate with the same rules the server applies
+    const result = credentialsSchema.safeParse({ username, password });
+    if (!result.success) {
+      setError(result.error.issues[0]?.message ?? 'Invalid username or password.');
       return;
     }
     setError('');
-    onLogin(username.trim());
+    onSubmit(mode, result.data);
   };
 
+  const toggleMode = () => {
+    setMode(prev => (prev === 'login' ? 'register' : 'login'));
+    setError('');
+  };
+
+  const displayedError = error || serverError;
+
   return (
     <div className="flex items-center justify-center min-h-screen bg-secondary/40">
       <Card className="w-full max-w-sm shadow-lg">
         <CardHeader className="space-y-1 text-center">
           <CardTitle className="text-2xl font-bold">Welcome to ChatterBox</CardTitle>
-          <CardDescription>Enter your username to join</CardDescription>
+          <CardDescription>
+            {mode === 'login' ? 'Log in to your account' : 'Create an account to join'}
+          </CardDescription>
         </CardHeader>
         <form onSubmit={handleSubmit}>
           <CardContent className="space-y-4">
@@ -40,20 +57,45 @@ export function Login({ onLogin }: LoginProps) {
               <Input
                 id="username"
                 type="text"
+                autoComplete="username"
                 placeholder="e.g., Alice"
                 value={username}
                 onChange={(e) => {
                     setUsername(e.target.value);
                     if (error) setError(''); // Clear error on typing
                 }}
-                aria-describedby={error ? "username-error" : undefined}
+                aria-describedby={displayedError ? "auth-error" : undefined}
               />
-               {error && <p id="username-error" className="text-xs text-destructive">{error}</p>}
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+                value={password}
+                onChange={(e) => {
+                    setPassword(e.target.value);
+                    if (error) setError('');
+                }}
+                aria-describedby={displayedError ? "auth-error" : undefined}
+              />
+            </div>
+            {displayedError && <p id="auth-error" className="text-xs text-destructive">{displayedError}</p>}
           </CardContent>
-          <CardFooter>
-            <Button type="submit" className="w-full">
-              <LogIn className="mr-2 h-4 w-4" /> Login
+          <CardFooter className="flex flex-col gap-2">
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : mode === 'login' ? (
+                <LogIn className="mr-2 h-4 w-4" />
+              ) : (
+                <UserPlus className="mr-2 h-4 w-4" />
+              )}
+              {mode === 'login' ? 'Login' : 'Create Account'}
+            </Button>
+            <Button type="button" variant="link" size="sm" onClick={toggleMode} disabled={isSubmitting}>
+              {mode === 'login' ? "Don't have an account? Register" : 'Already have an account? Log in'}
             </Button>
           </CardFooter>
         </form>
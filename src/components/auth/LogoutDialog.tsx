@@ -0,0 +1,57 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+
+interface LogoutDialogProps {
+  isOpen: boolean;
+  onLogout: (clearLocalData: boolean) => void;
+  onClose: () => void;
+}
+
+/** Confirms logging out, optionally deleting what this browser stores for offline use. */
+export function LogoutDialog({ isOpen, onLogout, onClose }: LogoutDialogProps) {
+  const [clearLocalData, setClearLocalData] = useState(false);
+
+  return (
+    <AlertDialog
+      open={isOpen}
+      onOpenChange={open => {
+        if (open) return;
+        setClearLocalData(false);
+        onClose();
+      }}
+    >
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Log out?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Your chats stay saved in this browser, so they show up right away when you log back in.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="flex items-start gap-2">
+          <Checkbox id="clear-local-data" checked={clearLocalData} onCheckedChange={checked => setClearLocalData(checked === true)} />
+          <Label htmlFor="clear-local-data" className="font-normal leading-snug">
+            Clear local data: delete the chats, images and unsent messages stored in this browser. Do this on a
+            shared computer.
+          </Label>
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={() => onLogout(clearLocalData)}>Log out</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
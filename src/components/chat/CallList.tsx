@@ -0,0 +1,93 @@
+'use client';
+
+import type { Call, Chat, User } from '@/types';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { formatDistanceToNow } from 'date-fns';
+import { getCallDurationMs, getCallLabel, isMissedCall } from '@/lib/calls';
+import { Phone, PhoneIncoming, PhoneMissed, PhoneOutgoing, Users, Video } from 'lucide-react';
+import { UserProfile } from './UserProfile';
+import { formatDuration } from './VideoMessage';
+
+interface CallListProps {
+  calls: Call[]; // Newest first
+  chats: Chat[]; // To resolve each call's chat; calls in chats not listed are skipped
+  currentUser: User;
+  canCall: boolean; // False while a call is ringing or in progress
+  onSelectChat: (chatId: string) => void;
+  onCallBack: (chatId: string, type: Call['type']) => void;
+}
+
+/** The user's recent calls, with missed ones in red and a button to call back. */
+export function CallList({ calls, chats, currentUser, canCall, onSelectChat, onCallBack }: CallListProps) {
+  const chatsById = new Map(chats.map(chat => [chat.id, chat]));
+  const rows = calls.flatMap(call => {
+    const chat = chatsById.get(call.chatId);
+    return chat ? [{ call, chat }] : [];
+  });
+
+  if (rows.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center p-4 group-data-[collapsible=icon]/sidebar:hidden">
+        No calls yet.
+      </p>
+    );
+  }
+
+  return (
+    <ScrollArea className="h-full w-full">
+      <div className="p-2 space-y-1">
+        {rows.map(({ call, chat }) => {
+          const otherUser = chat.isGroup ? undefined : chat.participants.find(p => p.id !== currentUser.id);
+          const name = chat.isGroup ? chat.name || `Group (${chat.participants.length})` : otherUser?.name ?? 'Unknown User';
+          const isMissed = isMissedCall(call, currentUser.id);
+          const durationMs = getCallDurationMs(call);
+          const DirectionIcon = isMissed ? PhoneMissed : call.initiatorId === currentUser.id ? PhoneOutgoing : PhoneIncoming;
+          const CallBackIcon = call.type === 'video' ? Video : Phone;
+
+          return (
+            <div key={call.id} className="flex items-center rounded-lg transition-colors hover:bg-secondary/80">
+              <button
+                type="button"
+                onClick={() => onSelectChat(chat.id)}
+                className="flex flex-1 items-center gap-3 overflow-hidden p-3 text-left group-data-[collapsible=icon]/sidebar:justify-center group-data-[collapsible=icon]/sidebar:p-0"
+                title={name}
+              >
+                {otherUser ? (
+                  <UserProfile user={otherUser} size="md" />
+                ) : (
+                  <div className="h-10 w-10 flex flex-shrink-0 items-center justify-center bg-muted rounded-full text-muted-foreground">
+                    <Users className="h-6 w-6" />
+                  </div>
+                )}
+                <div className="flex-1 overflow-hidden group-data-[collapsible=icon]/sidebar:hidden">
+                  <p className={cn('font-medium truncate', isMissed && 'text-destructive')}>{name}</p>
+                  <p className={cn('flex items-center gap-1 text-sm truncate', isMissed ? 'text-destructive' : 'text-muted-foreground')}>
+                    <DirectionIcon className="h-3.5 w-3.5 flex-shrink-0" />
+                    {getCallLabel(call, currentUser.id)}
+                    {durationMs !== undefined && ` · ${formatDuration(durationMs)}`}
+                  </p>
+                </div>
+                <span className="text-xs text-muted-foreground whitespace-nowrap group-data-[collapsible=icon]/sidebar:hidden">
+                  {formatDistanceToNow(new Date(call.startedAt), { addSuffix: true })}
+                </span>
+              </button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="mr-2 flex-shrink-0 group-data-[collapsible=icon]/sidebar:hidden"
+                onClick={() => onCallBack(chat.id, call.type)}
+                disabled={!canCall}
+                title={`${call.type === 'video' ? 'Video call' : 'Call'} ${name}`}
+              >
+                <CallBackIcon />
+                <span className="sr-only">Call back</span>
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    </ScrollArea>
+  );
+}
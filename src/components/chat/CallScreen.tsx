@@ -0,0 +1,301 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { User } from '@/types';
+import type { CallMediaState } from '@/types/call';
+import { canShareScreen, type CallState } from '@/lib/chat/call-client';
+import { Button } from '@/components/ui/button';
+import { Mic, MicOff, MonitorOff, MonitorUp, PhoneOff, Video, VideoOff } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useActiveSpeaker } from '@/hooks/use-active-speaker';
+import { UserProfile } from './UserProfile';
+import { formatDuration } from './VideoMessage';
+
+interface CallScreenProps {
+  state: CallState;
+  currentUser: User | null;
+  participants: User[]; // Everyone in the call's chat
+  isGroup: boolean;
+  title: string; // The group's name in group calls
+  onToggleMute: () => void;
+  onToggleCamera: () => void;
+  onToggleScreenShare: () => void;
+  onHangUp: () => void;
+}
+
+/** Plays a media stream; `srcObject` can only be set imperatively. */
+function StreamPlayer({ stream, kind, muted = false, className }: {
+  stream: MediaStream;
+  kind: 'video' | 'audio';
+  muted?: boolean;
+  className?: string;
+}) {
+  const ref = useRef<HTMLVideoElement & HTMLAudioElement>(null);
+  useEffect(() => {
+    if (ref.current) ref.current.srcObject = stream;
+  }, [stream]);
+  return kind === 'video'
+    ? <video ref={ref} autoPlay playsInline muted={muted} className={className} />
+    : <audio ref={ref} autoPlay muted={muted} />;
+}
+
+function useElapsed(since: number | null): number {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (since === null) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [since]);
+  return since === null ? 0 : Math.max(now - since, 0);
+}
+
+/** One participant of a group call: their video, or their avatar while there is none. */
+function ParticipantTile({ user, stream, media, isVideoCall, isLocal, isSpeaking }: {
+  user: User | undefined;
+  stream: MediaStream | undefined;
+  media: CallMediaState | undefined;
+  isVideoCall: boolean;
+  isLocal: boolean;
+  isSpeaking: boolean;
+}) {
+  const showVideo = isVideoCall && !!stream && media?.video !== false;
+  const name = isLocal ? 'You' : user?.name ?? 'Unknown User';
+  return (
+    <div
+      className={cn(
+        'relative flex min-h-0 items-center justify-center overflow-hidden rounded-xl bg-zinc-900 ring-2 ring-transparent transition-shadow',
+        isSpeaking && 'ring-green-500'
+      )}
+    >
+      {stream && (
+        <StreamPlayer
+          stream={stream}
+          kind={isVideoCall ? 'video' : 'audio'}
+          muted={isLocal} // Never play back your own microphone
+          className={cn('h-full w-full object-cover', isLocal && '-scale-x-100', !showVideo && 'hidden')}
+        />
+      )}
+      {!showVideo && (user ? <UserProfile user={user} size="lg" /> : <div className="h-16 w-16 rounded-full bg-zinc-700" />)}
+      <p className="absolute bottom-2 left-2 flex max-w-[calc(100%-1rem)] items-center gap-1 truncate rounded bg-black/50 px-2 py-0.5 text-xs">
+        {media?.audio === false && <MicOff className="h-3 w-3 shrink-0" aria-label="Muted" />}
+        {name}
+      </p>
+    </div>
+  );
+}
+
+/** Grid of everyone in a group call, yourself included, with whoever is speaking highlighted. */
+function ParticipantGrid({ state, currentUser, participants }: Pick<CallScreenProps, 'state' | 'currentUser' | 'participants'>) {
+  const { call, type, localStream, remoteStreams, remoteMedia, isMuted, isCameraOff } = state;
+  const currentUserId = currentUser?.id ?? '';
+  const remoteIds = (call?.joinedIds ?? []).filter(id => id !== currentUserId);
+  const streams = useMemo(
+    () => (localStream ? { ...remoteStreams, [currentUserId]: localStream } : remoteStreams),
+    [localStream, remoteStreams, currentUserId]
+  );
+  const activeSpeaker = useActiveSpeaker(streams);
+  const isVideoCall = type === 'video';
+  const tileCount = remoteIds.length + 1;
+  const columns = tileCount <= 1 ? 'grid-cols-1' : tileCount <= 4 ? 'grid-cols-2' : 'grid-cols-2 md:grid-cols-3';
+
+  return (
+    <div className={cn('grid h-full w-full auto-rows-fr gap-2 p-2 pt-20', columns)}>
+      {remoteIds.map(userId => (
+        <ParticipantTile
+          key={userId}
+          user={participants.find(p => p.id === userId)}
+          stream={remoteStreams[userId]}
+          media={remoteMedia[userId]}
+          isVideoCall={isVideoCall}
+          isLocal={false}
+          isSpeaking={activeSpeaker === userId}
+        />
+      ))}
+      <ParticipantTile
+        user={currentUser ?? undefined}
+        stream={localStream ?? undefined}
+        media={{ audio: !isMuted, video: isVideoCall && !isCameraOff }}
+        isVideoCall={isVideoCall}
+        isLocal
+        isSpeaking={remoteIds.length > 0 && activeSpeaker === currentUserId}
+      />
+    </div>
+  );
+}
+
+/** A shared screen, large, with everyone in the call in a strip beside it. */
+function PresenterView({ state, currentUser, participants, screen }: Pick<CallScreenProps, 'state' | 'currentUser' | 'participants'> & {
+  screen: MediaStream;
+}) {
+  const { call, type, localStream, remoteStreams, remoteMedia, isMuted, isCameraOff, screenStream } = state;
+  const currentUserId = currentUser?.id ?? '';
+  const remoteIds = (call?.joinedIds ?? []).filter(id => id !== currentUserId);
+  const streams = useMemo(
+    () => (localStream ? { ...remoteStreams, [currentUserId]: localStream } : remoteStreams),
+    [localStream, remoteStreams, currentUserId]
+  );
+  const activeSpeaker = useActiveSpeaker(streams);
+  const isVideoCall = type === 'video';
+  const isPresenting = screen === screenStream;
+  const presenter = participants.find(p => p.id === call?.screenShare?.userId);
+
+  return (
+    <div className="flex h-full w-full flex-col gap-2 p-2 pt-20 md:flex-row">
+      <div className="relative flex min-h-0 flex-1 items-center justify-center overflow-hidden rounded-xl bg-black">
+        <StreamPlayer stream={screen} kind="video" muted className="h-full w-full object-contain" />
+        <p className="absolute left-2 top-2 rounded bg-black/50 px-2 py-0.5 text-xs">
+          {isPresenting ? 'You are presenting' : `${presenter?.name ?? 'Someone'} is presenting`}
+        </p>
+      </div>
+      <div className="grid h-28 shrink-0 auto-cols-[10rem] grid-flow-col gap-2 overflow-x-auto md:h-auto md:w-48 md:auto-rows-[7rem] md:grid-flow-row md:auto-cols-auto md:overflow-y-auto">
+        {remoteIds.map(userId => (
+          <ParticipantTile
+            key={userId}
+            user={participants.find(p => p.id === userId)}
+            stream={remoteStreams[userId]}
+            media={remoteMedia[userId]}
+            isVideoCall={isVideoCall}
+            isLocal={false}
+            isSpeaking={activeSpeaker === userId}
+          />
+        ))}
+        <ParticipantTile
+          user={currentUser ?? undefined}
+          stream={localStream ?? undefined}
+          media={{ audio: !isMuted, video: isVideoCall && !isCameraOff }}
+          isVideoCall={isVideoCall}
+          isLocal
+          isSpeaking={remoteIds.length > 0 && activeSpeaker === currentUserId}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Full-screen view of an outgoing or ongoing call. Direct calls show the other side's video large
+ * with a local preview; group calls show a tile per participant. While someone shares their
+ * screen, it takes the stage instead.
+ */
+export function CallScreen({ state, currentUser, participants, isGroup, title, onToggleMute, onToggleCamera, onToggleScreenShare, onHangUp }: CallScreenProps) {
+  const { phase, type, localStream, isMuted, isCameraOff, connectedAt } = state;
+  const elapsed = useElapsed(connectedAt);
+  const remoteUser = isGroup ? undefined : participants.find(p => p.id !== currentUser?.id);
+  const remoteStream = remoteUser ? state.remoteStreams[remoteUser.id] : undefined;
+  const remoteMedia = remoteUser ? state.remoteMedia[remoteUser.id] : undefined;
+  const isVideoCall = type === 'video';
+  const showRemoteVideo = isVideoCall && !!remoteStream && remoteMedia?.video !== false;
+  const showLocalVideo = isVideoCall && !!localStream && !isCameraOff;
+
+  const status =
+    phase === 'outgoing' ? 'Calling…' : phase === 'connecting' ? 'Connecting…' : formatDuration(elapsed);
+
+  const inCallCount = state.call?.joinedIds.length ?? 1;
+  const screen = state.screenStream ?? state.remoteScreen;
+  const isPresenting = !!state.screenStream;
+  // One presenter at a time; the others wait for them to stop
+  const someoneElsePresents = !!state.call?.screenShare && state.call.screenShare.userId !== currentUser?.id;
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-zinc-950 text-white" role="dialog" aria-label={`${type === 'video' ? 'Video' : 'Audio'} call`}>
+      <div className="relative flex min-h-0 flex-1 items-center justify-center overflow-hidden">
+        {screen ? (
+          <PresenterView state={state} currentUser={currentUser} participants={participants} screen={screen} />
+        ) : isGroup ? (
+          <ParticipantGrid state={state} currentUser={currentUser} participants={participants} />
+        ) : (
+          <>
+            {remoteStream && (
+              <StreamPlayer
+                stream={remoteStream}
+                kind={isVideoCall ? 'video' : 'audio'}
+                className={cn('h-full w-full object-contain', !showRemoteVideo && 'hidden')}
+              />
+            )}
+            {!showRemoteVideo && (
+              <div className="flex flex-col items-center gap-4">
+                {remoteUser && <UserProfile user={remoteUser} size="lg" />}
+                <p className="text-2xl font-medium">{remoteUser?.name ?? 'Unknown User'}</p>
+                {isVideoCall && phase === 'connected' && <p className="text-sm text-white/60">Camera off</p>}
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="absolute inset-x-0 top-0 flex flex-col items-center gap-1 bg-gradient-to-b from-black/60 to-transparent p-4">
+          {(isGroup || showRemoteVideo || screen) && <p className="font-medium">{isGroup ? title : remoteUser?.name ?? 'Unknown User'}</p>}
+          <p className="text-sm tabular-nums text-white/80" aria-live="polite">
+            {status}
+            {isGroup && phase !== 'outgoing' && ` · ${inCallCount} in call`}
+          </p>
+          {remoteMedia?.audio === false && (
+            <p className="flex items-center gap-1 text-xs text-white/70">
+              <MicOff className="h-3 w-3" /> Muted
+            </p>
+          )}
+        </div>
+
+        {!isGroup && !screen && showLocalVideo && (
+          <StreamPlayer
+            stream={localStream}
+            kind="video"
+            muted // Never play back your own microphone
+            className="absolute bottom-4 right-4 aspect-video w-40 -scale-x-100 rounded-lg bg-black object-cover shadow-lg sm:w-56"
+          />
+        )}
+      </div>
+
+      <div className="flex items-center justify-center gap-4 p-6">
+        <Button
+          type="button"
+          variant="secondary"
+          size="icon"
+          className={cn('h-14 w-14 rounded-full', isMuted && 'bg-white text-zinc-950 hover:bg-white/90')}
+          onClick={onToggleMute}
+          aria-label={isMuted ? 'Unmute' : 'Mute'}
+          aria-pressed={isMuted}
+        >
+          {isMuted ? <MicOff className="h-6 w-6" /> : <Mic className="h-6 w-6" />}
+        </Button>
+        {isVideoCall && (
+          <Button
+            type="button"
+            variant="secondary"
+            size="icon"
+            className={cn('h-14 w-14 rounded-full', isCameraOff && 'bg-white text-zinc-950 hover:bg-white/90')}
+            onClick={onToggleCamera}
+            aria-label={isCameraOff ? 'Turn camera on' : 'Turn camera off'}
+            aria-pressed={isCameraOff}
+          >
+            {isCameraOff ? <VideoOff className="h-6 w-6" /> : <Video className="h-6 w-6" />}
+          </Button>
+        )}
+        {canShareScreen() && (
+          <Button
+            type="button"
+            variant="secondary"
+            size="icon"
+            className={cn('h-14 w-14 rounded-full', isPresenting && 'bg-white text-zinc-950 hover:bg-white/90')}
+            onClick={onToggleScreenShare}
+            disabled={!state.call || someoneElsePresents}
+            aria-label={isPresenting ? 'Stop presenting' : 'Share screen'}
+            aria-pressed={isPresenting}
+            title={someoneElsePresents ? 'Someone else is presenting' : undefined}
+          >
+            {isPresenting ? <MonitorOff className="h-6 w-6" /> : <MonitorUp className="h-6 w-6" />}
+          </Button>
+        )}
+        <Button
+          type="button"
+          variant="destructive"
+          size="icon"
+          className="h-14 w-14 rounded-full"
+          onClick={onHangUp}
+          aria-label={phase === 'outgoing' ? 'Cancel call' : 'Hang up'}
+        >
+          <PhoneOff className="h-6 w-6" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -2,19 +2,26 @@
 
 import type { Chat, User } from '@/types';
 import { Button } from '@/components/ui/button';
-import { Phone, Video, ArrowLeft, MoreVertical, Users } from 'lucide-react'; // Added Users icon
+import { Phone, Video, ArrowLeft, MoreVertical, Users, MonitorUp } from 'lucide-react'; // Added Users icon
 import { UserProfile } from './UserProfile';
 import { useRouter } from 'next/navigation'; // Assuming usage of Next.js router for back navigation
 import { SidebarTrigger } from '@/components/ui/sidebar'; // Import SidebarTrigger
 import { Avatar, AvatarFallback } from '../ui/avatar'; // Import Avatar components
+import { canShareScreen } from '@/lib/chat/call-client';
+import { getPresenceLabel, getTypingLabel } from '@/lib/presence';
+import { cn } from '@/lib/utils';
 
 interface ChatHeaderProps {
   chat: Chat | null; // Allow chat to be potentially null
   currentUser: User | null; // Allow currentUser to be potentially null
   onStartCall: (type: 'audio' | 'video') => void;
+  canStartCall?: boolean; // False while already in a call or one is going on in this chat
+  onJoinCall?: () => void; // Set while this group has a call the user can join
+  onShareScreen?: () => void; // Starts an audio call that opens with the user's screen shared
+  typingUsers?: User[]; // The other participants typing in this chat
 }
 
-export function ChatHeader({ chat, currentUser, onStartCall }: ChatHeaderProps) {
+export function ChatHeader({ chat, currentUser, onStartCall, canStartCall = true, onJoinCall, onShareScreen, typingUsers = [] }: ChatHeaderProps) {
   const router = useRouter();
 
   // Handle cases where chat or currentUser might be null
@@ -39,7 +46,14 @@ export function ChatHeader({ chat, currentUser, onStartCall }: ChatHeaderProps)
   const displayUser = !chat.isGroup && otherParticipants.length === 1 ? otherParticipants[0] : null;
   const chatName = chat.name || (displayUser ? displayUser.name : `Group (${chat.participants?.length || 0})`); // Safeguard length
   // Online status: Check individual for 1-on-1, check if anyone is online for groups
-  const isOnline = displayUser ? displayUser.isOnline : otherParticipants.some(p => p.isOnline);
+  const isOnline = displayUser ? displayUser.presence === 'online' : otherParticipants.some(p => p.presence === 'online');
+  // Under the name: who is typing, otherwise the other user's presence or the group's size
+  const status =
+    typingUsers.length > 0
+      ? getTypingLabel(typingUsers)
+      : displayUser
+        ? getPresenceLabel(displayUser)
+        : `${chat.participants?.length || 0} members`;
 
 
   return (
@@ -51,29 +65,42 @@ export function ChatHeader({ chat, currentUser, onStartCall }: ChatHeaderProps)
 
           {displayUser ? (
              // Ensure UserProfile content doesn't push elements out
-             <UserProfile user={displayUser} showName={true} className="truncate" />
+             <UserProfile user={displayUser} />
           ) : (
             // Group Display (using chat.name or default)
-            <div className="flex items-center gap-2">
-               <div className="relative h-10 w-10 flex items-center justify-center bg-muted rounded-full text-muted-foreground flex-shrink-0">
-                 <Users className="h-6 w-6" /> {/* Use Users icon for group */}
-                {isOnline && <span className="absolute h-2.5 w-2.5 bottom-0 right-0 rounded-full bg-accent ring-2 ring-background" title="Someone is online"></span>}
-              </div>
-               {/* Allow chat name to truncate */}
-               <span className="font-medium truncate">{chatName}</span>
-             </div>
+            <div className="relative h-10 w-10 flex items-center justify-center bg-muted rounded-full text-muted-foreground flex-shrink-0">
+              <Users className="h-6 w-6" /> {/* Use Users icon for group */}
+              {isOnline && <span className="absolute h-2.5 w-2.5 bottom-0 right-0 rounded-full bg-accent ring-2 ring-background" title="Someone is online"></span>}
+            </div>
           )}
+          {/* Allow the name and status to truncate */}
+          <div className="min-w-0">
+            <p className="font-medium truncate">{chatName}</p>
+            <p className={cn('text-xs truncate', typingUsers.length > 0 ? 'text-accent' : 'text-muted-foreground')}>{status}</p>
+          </div>
        </div>
        {/* Keep call buttons */}
       <div className="flex items-center gap-1 flex-shrink-0">
-        <Button variant="ghost" size="icon" onClick={() => onStartCall('audio')}>
+        {onJoinCall && (
+          <Button size="sm" className="bg-green-600 text-white hover:bg-green-700" onClick={onJoinCall}>
+            <Phone />
+            Join call
+          </Button>
+        )}
+        <Button variant="ghost" size="icon" onClick={() => onStartCall('audio')} disabled={!canStartCall}>
           <Phone />
           <span className="sr-only">Start Audio Call</span>
         </Button>
-        <Button variant="ghost" size="icon" onClick={() => onStartCall('video')}>
+        <Button variant="ghost" size="icon" onClick={() => onStartCall('video')} disabled={!canStartCall}>
           <Video />
           <span className="sr-only">Start Video Call</span>
         </Button>
+        {onShareScreen && canShareScreen() && (
+          <Button variant="ghost" size="icon" onClick={onShareScreen} disabled={!canStartCall} title="Share screen">
+            <MonitorUp />
+            <span className="sr-only">Share Screen</span>
+          </Button>
+        )}
          {/* More options button (optional) */}
          {/* <Button variant="ghost" size="icon">
            <MoreVertical />
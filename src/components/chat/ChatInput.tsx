@@ -1,19 +1,78 @@
 'use client';
 
 import React, { useState, useRef } from 'react';
+import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import { Paperclip, Mic, SendHorizontal, Phone, Video, Smile } from 'lucide-react'; // Added Smile for emoji
+import {
+  Bold,
+  Code,
+  Italic,
+  List,
+  ListOrdered,
+  Mic,
+  Paperclip,
+  Phone,
+  SendHorizontal,
+  Smile,
+  SquareCode,
+  Strikethrough,
+  TextQuote,
+  Type,
+  Video,
+  X,
+  type LucideIcon,
+} from 'lucide-react';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import type { Message } from '@/types';
+import { MAX_MESSAGE_LENGTH } from '@/types/socket';
+import { toQuotedMessage } from '@/lib/messages';
+import { addRecentEmoji, findShortcodeQuery, getSkinTone, loadEmojiData, searchEmojis, withSkinTone, type EmojiEntry } from '@/lib/emoji';
+import { applyFormat, type MarkdownFormat } from '@/lib/markdown';
+import { ReplyQuote } from './ReplyQuote';
+import { EmojiPicker } from './EmojiPicker';
+
+// Most emojis suggested while typing a :shortcode
+const MAX_SHORTCODE_SUGGESTIONS = 6;
+
+// Formatting toolbar buttons. Their shortcuts are Ctrl (⌘ on macOS) with `key`, matched by its
+// physical key (`KeyboardEvent.code`) so Shift doesn't change it.
+const FORMATTING: { format: MarkdownFormat; label: string; icon: LucideIcon; key: string; code: string; shift?: boolean; alt?: boolean }[] = [
+  { format: 'bold', label: 'Bold', icon: Bold, key: 'B', code: 'KeyB' },
+  { format: 'italic', label: 'Italic', icon: Italic, key: 'I', code: 'KeyI' },
+  { format: 'strikethrough', label: 'Strikethrough', icon: Strikethrough, key: 'X', code: 'KeyX', shift: true },
+  { format: 'code', label: 'Code', icon: Code, key: 'E', code: 'KeyE' },
+  { format: 'code_block', label: 'Code block', icon: SquareCode, key: 'C', code: 'KeyC', shift: true, alt: true },
+  { format: 'bulleted_list', label: 'Bulleted list', icon: List, key: '8', code: 'Digit8', shift: true },
+  { format: 'numbered_list', label: 'Numbered list', icon: ListOrdered, key: '7', code: 'Digit7', shift: true },
+  { format: 'quote', label: 'Quote', icon: TextQuote, key: '9', code: 'Digit9', shift: true },
+];
+
+const getShortcutLabel = ({ key, shift, alt }: (typeof FORMATTING)[number]) => {
+  const isMac = /Mac|iPhone|iPad/.test(navigator.platform);
+  return isMac
+    ? `${alt ? '⌥' : ''}${shift ? '⇧' : ''}⌘${key}`
+    : `Ctrl+${alt ? 'Alt+' : ''}${shift ? 'Shift+' : ''}${key}`;
+};
 
 interface ChatInputProps {
   onSendMessage: (message: string, type: 'text' | 'image' | 'video') => void;
+  onSendFile: (file: File) => void; // Images and videos are uploaded, then sent as media messages
   onStartCall: (type: 'audio' | 'video') => void;
+  canStartCall?: boolean; // False while already in a call or one is going on in this chat
   disabled?: boolean;
+  replyingTo?: Message; // The message the next one answers, quoted above the textarea
+  currentUserId?: string;
+  onCancelReply?: () => void;
+  onTyping?: (isTyping: boolean) => void; // Called as the draft changes, with whether there's any text
 }
 
-export function ChatInput({ onSendMessage, onStartCall, disabled = false }: ChatInputProps) {
+export function ChatInput({ onSendMessage, onSendFile, onStartCall, canStartCall = true, disabled = false, replyingTo, currentUserId, onCancelReply, onTyping }: ChatInputProps) {
   const [message, setMessage] = useState('');
+  // Emojis matching the :shortcode before the caret, which starts at `start`
+  const [suggestions, setSuggestions] = useState<{ start: number; emojis: EmojiEntry[] } | null>(null);
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+  const [showFormatting, setShowFormatting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null); // Ref for textarea
 
@@ -25,8 +84,67 @@ export function ChatInput({ onSendMessage, onStartCall, disabled = false }: Chat
     }
   };
 
+  // Replaces the text between `start` and `end` with `text` and puts the caret after it.
+  // The focus stays where it is, so the emoji picker stays open for picking more.
+  const replaceText = (start: number, end: number, text: string) => {
+    setMessage(current => current.slice(0, start) + text + current.slice(end));
+    setSuggestions(null);
+    requestAnimationFrame(() => textareaRef.current?.setSelectionRange(start + text.length, start + text.length));
+  };
+
+  const insertEmoji = (emoji: string) => {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? message.length;
+    const end = textarea?.selectionEnd ?? message.length;
+    replaceText(start, end, emoji);
+  };
+
+  const completeShortcode = (entry: EmojiEntry) => {
+    if (!suggestions) return;
+    const emoji = withSkinTone(entry, getSkinTone());
+    addRecentEmoji(emoji);
+    replaceText(suggestions.start, textareaRef.current?.selectionStart ?? message.length, emoji);
+  };
+
+  // Suggests emojis for the :shortcode being typed, and replaces a complete :shortcode: right away
+  const updateShortcode = (text: string, caret: number) => {
+    const complete = /(?:^|\s):([\w+-]+):$/.exec(text.slice(0, caret));
+    const shortcode = findShortcodeQuery(text, caret);
+    if (!complete && !shortcode) {
+      setSuggestions(null);
+      return;
+    }
+    void loadEmojiData().then(data => {
+      // Ignore the result if the text changed in the meantime
+      if (textareaRef.current?.value !== text) return;
+      if (complete) {
+        const entry = data.byShortcode.get(complete[1].toLowerCase());
+        if (entry) replaceText(caret - complete[1].length - 2, caret, withSkinTone(entry, getSkinTone()));
+        else setSuggestions(null);
+        return;
+      }
+      const emojis = searchEmojis(data, shortcode!.query, MAX_SHORTCODE_SUGGESTIONS);
+      setSuggestions(emojis.length > 0 ? { start: shortcode!.start, emojis } : null);
+      setActiveSuggestion(0);
+    }, error => console.error('Failed to load emojis:', error));
+  };
+
+  // Formats the selection and keeps it selected, so several formats can be applied in a row
+  const handleFormat = (format: MarkdownFormat) => {
+    const textarea = textareaRef.current;
+    const next = applyFormat({ text: message, start: textarea?.selectionStart ?? message.length, end: textarea?.selectionEnd ?? message.length }, format);
+    setMessage(next.text);
+    setSuggestions(null);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(next.start, next.end);
+    });
+  };
+
   const handleInputChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
     setMessage(event.target.value);
+    onTyping?.(event.target.value.trim() !== '');
+    updateShortcode(event.target.value, event.target.selectionStart);
     adjustTextareaHeight(); // Adjust height on input change
   };
 
@@ -41,9 +159,38 @@ export function ChatInput({ onSendMessage, onStartCall, disabled = false }: Chat
   };
 
   const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions) {
+      const count = suggestions.emojis.length;
+      if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+        event.preventDefault();
+        setActiveSuggestion(index => (index + (event.key === 'ArrowDown' ? 1 : count - 1)) % count);
+        return;
+      }
+      if ((event.key === 'Enter' && !event.shiftKey) || event.key === 'Tab') {
+        event.preventDefault();
+        completeShortcode(suggestions.emojis[activeSuggestion]);
+        return;
+      }
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        setSuggestions(null);
+        return;
+      }
+    }
+    if (event.ctrlKey || event.metaKey) {
+      const shortcut = FORMATTING.find(({ code, shift = false, alt = false }) => event.code === code && event.shiftKey === shift && event.altKey === alt);
+      if (shortcut) {
+        event.preventDefault();
+        handleFormat(shortcut.format);
+        return;
+      }
+    }
     if (event.key === 'Enter' && !event.shiftKey) {
       event.preventDefault();
       handleSend();
+    } else if (event.key === 'Escape' && replyingTo) {
+      event.preventDefault();
+      onCancelReply?.();
     }
   };
 
@@ -54,21 +201,13 @@ export function ChatInput({ onSendMessage, onStartCall, disabled = false }: Chat
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      // Simulate sending - replace with actual upload logic
       console.log('Selected file:', file.name, file.type);
-      const reader = new FileReader();
-      reader.onload = (e) => {
-         const fileUrl = e.target?.result as string;
-         if (file.type.startsWith('image/')) {
-           onSendMessage(fileUrl, 'image');
-         } else if (file.type.startsWith('video/')) {
-           onSendMessage(fileUrl, 'video');
-         } else {
-           // Handle other file types if needed
-           console.warn("Unsupported file type:", file.type);
-         }
-      };
-      reader.readAsDataURL(file);
+      if (file.type.startsWith('image/') || file.type.startsWith('video/')) {
+        onSendFile(file);
+      } else {
+        // Handle other file types if needed
+        console.warn("Unsupported file type:", file.type);
+      }
 
       // Reset file input
       event.target.value = '';
@@ -80,9 +219,65 @@ export function ChatInput({ onSendMessage, onStartCall, disabled = false }: Chat
       adjustTextareaHeight();
     }, [message]);
 
+  // Starting a reply moves straight on to typing it
+  const replyingToId = replyingTo?.id;
+  React.useEffect(() => {
+    if (replyingToId) textareaRef.current?.focus();
+  }, [replyingToId]);
+
   return (
-    // Make input area sticky at the bottom, use flex for alignment
-    <div className="flex items-end gap-2 p-3 border-t bg-background sticky bottom-0 shrink-0">
+    // Make input area sticky at the bottom
+    <div className="relative border-t bg-background sticky bottom-0 shrink-0">
+      {suggestions && (
+        <ul className="absolute bottom-full left-3 mb-1 w-64 rounded-md border bg-popover p-1 text-popover-foreground shadow-md" role="listbox" aria-label="Emoji suggestions">
+          {suggestions.emojis.map((entry, index) => (
+            <li
+              key={entry.emoji}
+              role="option"
+              aria-selected={index === activeSuggestion}
+              // Keep the focus in the textarea
+              onMouseDown={event => event.preventDefault()}
+              onClick={() => completeShortcode(entry)}
+              onMouseEnter={() => setActiveSuggestion(index)}
+              className={cn('flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1 text-sm', index === activeSuggestion && 'bg-accent text-accent-foreground')}
+            >
+              <span className="text-lg leading-none">{withSkinTone(entry, getSkinTone())}</span>
+              <span className="truncate">:{entry.shortcodes[0] ?? entry.name}:</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {replyingTo && (
+        <div className="flex items-center gap-2 px-3 pt-3">
+          <ReplyQuote quote={toQuotedMessage(replyingTo)} currentUserId={currentUserId} className="flex-1" />
+          <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={onCancelReply}>
+            <X />
+            <span className="sr-only">Cancel reply</span>
+          </Button>
+        </div>
+      )}
+      {showFormatting && (
+        <div className="flex flex-wrap gap-0.5 px-3 pt-2" role="toolbar" aria-label="Formatting">
+          {FORMATTING.map(item => (
+            <Button
+              key={item.format}
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              // Keep the focus and the selection in the textarea
+              onMouseDown={event => event.preventDefault()}
+              onClick={() => handleFormat(item.format)}
+              disabled={disabled}
+              title={`${item.label} (${getShortcutLabel(item)})`}
+            >
+              <item.icon />
+              <span className="sr-only">{item.label}</span>
+            </Button>
+          ))}
+        </div>
+      )}
+    {/* Use flex for alignment */}
+    <div className="flex items-end gap-2 p-3">
       {/* Hidden file input */}
       <input
         type="file"
@@ -106,10 +301,10 @@ export function ChatInput({ onSendMessage, onStartCall, disabled = false }: Chat
              <Button variant="ghost" size="icon" onClick={handleAttachClick} disabled={disabled} title="Attach File">
                <Paperclip />
              </Button>
-             <Button variant="ghost" size="icon" onClick={() => onStartCall('audio')} disabled={disabled} title="Start Audio Call">
+             <Button variant="ghost" size="icon" onClick={() => onStartCall('audio')} disabled={disabled || !canStartCall} title="Start Audio Call">
                <Phone />
              </Button>
-              <Button variant="ghost" size="icon" onClick={() => onStartCall('video')} disabled={disabled} title="Start Video Call">
+              <Button variant="ghost" size="icon" onClick={() => onStartCall('video')} disabled={disabled || !canStartCall} title="Start Video Call">
                <Video />
              </Button>
             {/* <Button variant="ghost" size="icon" disabled={disabled} title="Record Audio">
@@ -119,18 +314,34 @@ export function ChatInput({ onSendMessage, onStartCall, disabled = false }: Chat
         </PopoverContent>
       </Popover>
 
-       {/* Emoji Picker (Placeholder) - Keep commented out */}
-       {/* <Button variant="ghost" size="icon" className="shrink-0" disabled={disabled}>
+      <EmojiPicker onSelect={insertEmoji}>
+        <Button variant="ghost" size="icon" className="shrink-0" disabled={disabled}>
           <Smile />
-         <span className="sr-only">Emoji</span>
-        </Button> */}
+          <span className="sr-only">Emoji</span>
+        </Button>
+      </EmojiPicker>
+
+      <Button
+        variant="ghost"
+        size="icon"
+        className={cn('shrink-0', showFormatting && 'bg-accent/20')}
+        onClick={() => setShowFormatting(show => !show)}
+        disabled={disabled}
+        aria-pressed={showFormatting}
+        title="Formatting"
+      >
+        <Type />
+        <span className="sr-only">Formatting</span>
+      </Button>
 
       <Textarea
         ref={textareaRef} // Assign ref
         value={message}
         onChange={handleInputChange} // Use custom handler
         onKeyDown={handleKeyDown}
+        onBlur={() => setSuggestions(null)}
         placeholder="Type a message..."
+        maxLength={MAX_MESSAGE_LENGTH}
         // Dynamic height, flex-1 takes available width, rounded-full for style
         className="flex-1 resize-none min-h-[40px] max-h-[150px] text-sm rounded-full px-4 py-2 overflow-y-auto" // Added overflow-y-auto
         rows={1} // Start with 1 row
@@ -142,5 +353,6 @@ export function ChatInput({ onSendMessage, onStartCall, disabled = false }: Chat
         <span className="sr-only">Send message</span>
       </Button>
     </div>
+    </div>
   );
 }
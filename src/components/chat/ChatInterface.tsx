@@ -1,166 +1,113 @@
-
 'use client';
 
-import React, { useState, useEffect, useRef, useMemo } from 'react';
-import type { Chat, Message, User } from '@/types';
+import React, { useEffect, useState } from 'react';
+import type { Chat, MessageReceipt, MessageRevision, User } from '@/types';
+import type { CallInfo } from '@/types/call';
+import type { DeleteScope, MessagePolicy } from '@/types/socket';
 import { ChatHeader } from './ChatHeader';
-import { MessageBubble } from './MessageBubble';
+import { MessageList } from './MessageList';
 import { ChatInput } from './ChatInput';
-import { ScrollArea } from '@/components/ui/scroll-area';
-import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
-import { PhoneCall, AlertCircle } from 'lucide-react'; // Added AlertCircle
 
 interface ChatInterfaceProps {
   chat: Chat;
   currentUser: User | null; // Allow currentUser to be potentially null
-  onSendMessage: (chatId: string, message: string, type: 'text' | 'image' | 'video') => void;
+  isInCall: boolean; // A call is ringing or in progress, in this chat or another
+  activeCall?: CallInfo; // A call going on in this chat, which group members can join
+  onSendMessage: (chatId: string, message: string, type: 'text' | 'image' | 'video', replyToId?: string) => void;
+  onSendFile: (chatId: string, file: File, replyToId?: string) => void;
   onStartCall: (chatId: string, type: 'audio' | 'video') => void;
-  onEndCall: (chatId: string, duration: string) => void; // For simulating call end
+  onJoinCall: (chatId: string) => void;
+  onShareScreen: (chatId: string) => void;
+  onLoadOlderMessages?: (chatId: string) => Promise<void>; // Fetches the previous page of history
+  policy: MessagePolicy; // How long after sending the user's messages can be edited or deleted for everyone
+  onEditMessage: (chatId: string, messageId: string, content: string) => void;
+  onLoadMessageRevisions: (chatId: string, messageId: string) => Promise<MessageRevision[] | null>;
+  onLoadMessageReceipts: (chatId: string, messageId: string) => Promise<MessageReceipt[] | null>;
+  onDeleteMessage: (chatId: string, messageId: string, scope: DeleteScope) => void;
+  onRetryMessage: (chatId: string, messageId: string) => void;
+  onLoadMessagesUntil: (chatId: string, messageId: string) => Promise<boolean>; // Loads history back to the message
+  onToggleReaction: (chatId: string, messageId: string, emoji: string) => void;
+  showLinkPreviews: boolean; // The user's setting
+  typingUsers: User[]; // The other participants typing in this chat
+  onTyping: (chatId: string, isTyping: boolean) => void;
 }
 
-export function ChatInterface({ chat, currentUser, onSendMessage, onStartCall, onEndCall }: ChatInterfaceProps) {
-  const [isCalling, setIsCalling] = useState(false);
-  const [callType, setCallType] = useState<'audio' | 'video' | null>(null);
-  const [callStartTime, setCallStartTime] = useState<Date | null>(null);
-  const scrollAreaRef = useRef<HTMLDivElement>(null);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
-  const isInitialMountRef = useRef(true); // Ref to track initial mount
+export function ChatInterface({ chat, currentUser, isInCall, activeCall, onSendMessage, onSendFile, onStartCall, onJoinCall, onShareScreen, onLoadOlderMessages, policy, onEditMessage, onLoadMessageRevisions, onLoadMessageReceipts, onDeleteMessage, onRetryMessage, onLoadMessagesUntil, onToggleReaction, showLinkPreviews, typingUsers, onTyping }: ChatInterfaceProps) {
+  // Looked up in the chat, so nothing is quoted in other chats or once the message is deleted
+  const [replyToId, setReplyToId] = useState<string | null>(null);
+  const replyingTo = chat.messages.find(message => message.id === replyToId && !message.deletedAt);
+  // One call per chat at a time; a group's ongoing call is joined instead
+  const canStartCall = !isInCall && !activeCall;
+  const canJoinCall = !isInCall && !!activeCall && activeCall.isGroup && !activeCall.joinedIds.includes(currentUser?.id ?? '');
+
+  // The user stops typing in a chat once they switch away from it
+  useEffect(() => () => onTyping(chat.id, false), [chat.id, onTyping]);
 
-  // Simulate call start/end locally for UI feedback
   const handleStartCall = (type: 'audio' | 'video') => {
     if (!currentUser) return; // Guard against missing user
-    setIsCalling(true);
-    setCallType(type);
-    setCallStartTime(new Date());
     onStartCall(chat.id, type);
-    // Simulate ending call after 15 seconds for demo
-    setTimeout(() => {
-      handleEndCall();
-    }, 15000);
-  };
-
-  const handleEndCall = () => {
-     if (!currentUser) return; // Guard against missing user
-    if (callStartTime) {
-      const endTime = new Date();
-      const durationMs = endTime.getTime() - callStartTime.getTime();
-      const durationSec = Math.round(durationMs / 1000);
-      const minutes = Math.floor(durationSec / 60);
-      const seconds = durationSec % 60;
-      const durationStr = `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
-      onEndCall(chat.id, durationStr);
-      setIsCalling(false);
-      setCallType(null);
-      setCallStartTime(null);
-    }
   };
 
   const handleSendMessage = (message: string, type: 'text' | 'image' | 'video') => {
      if (!currentUser) return; // Guard against missing user
-    onSendMessage(chat.id, message, type);
+    onSendMessage(chat.id, message, type, replyingTo?.id);
+    setReplyToId(null);
   };
 
-   const scrollToBottom = (behavior: ScrollBehavior = "smooth") => {
-     // Use requestAnimationFrame for smoother scrolling after render
-     requestAnimationFrame(() => {
-        messagesEndRef.current?.scrollIntoView({ behavior: behavior, block: 'end' });
-     });
-   };
-
-   useEffect(() => {
-      // Scroll to bottom when messages change or chat selection changes
-      // Use 'instant' scroll on initial load of a chat, 'smooth' for new messages
-       const scrollBehavior = isInitialMountRef.current ? 'instant' : 'smooth';
-      scrollToBottom(scrollBehavior);
-        // After the first render for this chat, set initial mount to false
-       isInitialMountRef.current = false;
-        // Reset initial mount flag when the chat ID changes
-       return () => {
-            isInitialMountRef.current = true;
-        };
-   }, [chat.messages, chat.id]); // Add chat.id dependency
-
-
-  // Group messages by sender to avoid repeating avatar for consecutive messages
-  const groupedMessages = useMemo(() => {
-      const groups: { sender: User | null; messages: Message[] }[] = []; // Allow sender to be null
-      if (!chat?.messages || chat.messages.length === 0) return groups;
-
-      let currentGroup: { sender: User | null; messages: Message[] } | null = null;
-
-      for (const message of chat.messages) {
-         const sender = message.sender; // Can be null if sender info is missing
-
-        // Check if message type is a call event to display separately
-        if (message.type === 'call_start' || message.type === 'call_end') {
-          // Start a new group for call events
-          currentGroup = { sender: sender, messages: [message] };
-          groups.push(currentGroup);
-          currentGroup = null; // Reset current group after adding call event
-        } else if (currentGroup && currentGroup.sender?.id === sender?.id) { // Check sender ID existence
-          // Add to existing group if same sender and not a call event
-          currentGroup.messages.push(message);
-        } else {
-          // Start a new group for different sender or first message
-          currentGroup = { sender: sender, messages: [message] };
-          groups.push(currentGroup);
-        }
-      }
-      return groups;
-   }, [chat.messages]);
-
-
+  const handleSendFile = (file: File) => {
+    if (!currentUser) return;
+    onSendFile(chat.id, file, replyingTo?.id);
+    setReplyToId(null);
+  };
   return (
     // Ensure the main container uses full height and flex column layout
     // Added min-h-0 to prevent flex item from overflowing parent
     <div className="flex flex-col h-full bg-secondary/40 min-h-0">
       {/* ChatHeader remains sticky */}
-      <ChatHeader chat={chat} currentUser={currentUser} onStartCall={handleStartCall} />
-
-      {/* Call Alert remains */}
-      {isCalling && (
-         <Alert className="m-4 rounded-lg border-accent bg-accent/10">
-            <PhoneCall className="h-4 w-4 text-accent" />
-            <AlertTitle className="text-accent">Ongoing {callType} call...</AlertTitle>
-            <AlertDescription>
-                Call started {callStartTime && `at ${callStartTime.toLocaleTimeString()}`}. {/* Add duration timer if needed */}
-                <button onClick={handleEndCall} className="ml-2 text-red-500 underline">End Call</button>
-            </AlertDescription>
-         </Alert>
+      <ChatHeader
+        chat={chat}
+        currentUser={currentUser}
+        onStartCall={handleStartCall}
+        canStartCall={canStartCall}
+        onJoinCall={canJoinCall ? () => onJoinCall(chat.id) : undefined}
+        onShareScreen={() => onShareScreen(chat.id)}
+        typingUsers={typingUsers}
+      />
+
+      {/* The list is remounted per chat so its scroll state starts fresh */}
+      {currentUser ? (
+         <MessageList
+           key={chat.id}
+           chat={chat}
+           currentUser={currentUser}
+           onLoadOlderMessages={onLoadOlderMessages}
+           policy={policy}
+           onEditMessage={onEditMessage}
+           onLoadMessageRevisions={onLoadMessageRevisions}
+           onLoadMessageReceipts={onLoadMessageReceipts}
+           onDeleteMessage={onDeleteMessage}
+           onRetryMessage={onRetryMessage}
+           onReply={setReplyToId}
+           onLoadMessagesUntil={onLoadMessagesUntil}
+           onToggleReaction={onToggleReaction}
+           showLinkPreviews={showLinkPreviews}
+         />
+       ) : (
+         <div className="flex-1" />
        )}
 
-      {/* ScrollArea takes remaining space and handles message scrolling */}
-      <ScrollArea className="flex-1 px-4 pt-4 pb-2" viewportRef={scrollAreaRef}> {/* Added padding */}
-         {groupedMessages.map((group, groupIndex) => (
-           <div key={groupIndex} className="flex flex-col mb-3">
-             {currentUser && group.messages.map((message, messageIndex) => ( // Check currentUser before mapping
-                <MessageBubble
-                  key={message.id || `${groupIndex}-${messageIndex}`} // Use index as fallback key if id is missing
-                  message={message}
-                  currentUser={currentUser}
-                  // Only show avatar for the last non-call message in a consecutive block from the same sender
-                  showAvatar={
-                      (message.type !== 'call_start' && message.type !== 'call_end') &&
-                      messageIndex === group.messages.length - 1
-                   }
-                  // Center align call messages
-                  centerAlign={message.type === 'call_start' || message.type === 'call_end'}
-                />
-             ))}
-              {/* Add a placeholder for messages that failed to send */}
-              {group.messages.some(m => m.error) && (
-                  <div className="text-xs text-destructive italic flex items-center gap-1 justify-end pr-10 mt-1">
-                      <AlertCircle size={14}/> Some messages failed to send.
-                  </div>
-               )}
-           </div>
-         ))}
-        <div ref={messagesEndRef} /> {/* Anchor to scroll to */}
-      </ScrollArea>
-
       {/* ChatInput remains sticky at the bottom */}
       {currentUser && ( // Check currentUser before rendering ChatInput
-         <ChatInput onSendMessage={handleSendMessage} onStartCall={handleStartCall} disabled={isCalling} />
+         <ChatInput
+           onSendMessage={handleSendMessage}
+           onSendFile={handleSendFile}
+           onStartCall={handleStartCall}
+           canStartCall={canStartCall}
+           replyingTo={replyingTo}
+           currentUserId={currentUser.id}
+           onCancelReply={() => setReplyToId(null)}
+           onTyping={isTyping => onTyping(chat.id, isTyping)}
+         />
        )}
     </div>
   );
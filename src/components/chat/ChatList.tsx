@@ -7,6 +7,11 @@ import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
 import { formatDistanceToNow } from 'date-fns';
 import { UserProfile } from './UserProfile';
+import { formatDuration } from './VideoMessage';
+import { getCallLabel, getScreenShareLabel } from '@/lib/calls';
+import { getDeletedLabel } from '@/lib/messages';
+import { toPlainText } from '@/lib/markdown';
+import { getTypingLabel } from '@/lib/presence';
 import { Users } from 'lucide-react'; // Import Users icon
 
 interface ChatListProps {
@@ -14,9 +19,10 @@ interface ChatListProps {
   currentUser: User | null; // Allow currentUser to be potentially null
   selectedChatId: string | null;
   onSelectChat: (chatId: string) => void;
+  typingUsers?: Record<string, User[]>; // Chat ID -> the other participants typing in it
 }
 
-export function ChatList({ chats, currentUser, selectedChatId, onSelectChat }: ChatListProps) {
+export function ChatList({ chats, currentUser, selectedChatId, onSelectChat, typingUsers = {} }: ChatListProps) {
 
   const getChatDisplayInfo = (chat: Chat) => {
     // Handle cases where currentUser might be null during transition/logout
@@ -27,7 +33,7 @@ export function ChatList({ chats, currentUser, selectedChatId, onSelectChat }: C
       return {
         name: chat.name || `Group (${chat.participants.length})`, // Use group name or default
         avatarUrl: undefined, // No specific avatar for group list item
-        isOnline: otherParticipants.some(p => p.isOnline),
+        isOnline: otherParticipants.some(p => p.presence === 'online'),
         isGroup: true,
         user: null,
       };
@@ -36,7 +42,7 @@ export function ChatList({ chats, currentUser, selectedChatId, onSelectChat }: C
       return {
         name: user?.name || 'Unknown User', // Handle potential undefined user
         avatarUrl: user?.avatarUrl,
-        isOnline: user?.isOnline || false,
+        isOnline: user?.presence === 'online',
         isGroup: false,
         user: user,
       };
@@ -68,6 +74,7 @@ export function ChatList({ chats, currentUser, selectedChatId, onSelectChat }: C
           const displayInfo = getChatDisplayInfo(chat);
           const lastMessage = chat.lastMessage;
           const isSelected = chat.id === selectedChatId;
+          const typing = typingUsers[chat.id] ?? [];
 
           let lastMessagePreview = 'No messages yet';
           if (lastMessage) {
@@ -78,23 +85,26 @@ export function ChatList({ chats, currentUser, selectedChatId, onSelectChat }: C
 
              switch (lastMessage.type) {
                 case 'text':
-                  lastMessagePreview = prefix + lastMessage.content;
+                  lastMessagePreview = prefix + toPlainText(lastMessage.content);
                   break;
                 case 'image':
                   lastMessagePreview = prefix + '📷 Image';
                   break;
                 case 'video':
-                  lastMessagePreview = prefix + '📹 Video';
+                  lastMessagePreview = prefix + '📹 Video' +
+                    (lastMessage.media?.durationMs !== undefined ? ` (${formatDuration(lastMessage.media.durationMs)})` : '');
                   break;
-                case 'call_start':
-                  lastMessagePreview = `📞 ${lastMessage.sender?.name || 'Someone'} started a call`;
+                case 'call':
+                  lastMessagePreview = `📞 ${lastMessage.call ? getCallLabel(lastMessage.call, currentUser?.id) : 'Call'}`;
+                  break;
+                case 'screen_share':
+                  lastMessagePreview = `🖥️ ${getScreenShareLabel(lastMessage, currentUser?.id)}`;
                   break;
-                case 'call_end':
-                   lastMessagePreview = `🚫 Call ended (${lastMessage.content})`; // Duration in content
-                   break;
                  default:
                     lastMessagePreview = prefix + '...';
               }
+             // Whatever it was, only the tombstone of a message deleted for everyone is left
+             if (lastMessage.deletedAt) lastMessagePreview = `🚫 ${getDeletedLabel(lastMessage, currentUser?.id)}`;
           }
 
           return (
@@ -132,7 +142,11 @@ export function ChatList({ chats, currentUser, selectedChatId, onSelectChat }: C
 
               <div className="flex-1 overflow-hidden group-data-[collapsible=icon]/sidebar:hidden">
                 <p className="font-medium truncate">{displayInfo.name}</p>
-                <p className="text-sm text-muted-foreground truncate">{lastMessagePreview}</p>
+                {typing.length > 0 ? (
+                  <p className="text-sm text-accent truncate">{getTypingLabel(typing)}</p>
+                ) : (
+                  <p className="text-sm text-muted-foreground truncate">{lastMessagePreview}</p>
+                )}
               </div>
               <div className="flex flex-col items-end ml-2 text-xs text-muted-foreground flex-shrink-0 group-data-[collapsible=icon]/sidebar:hidden">
                 {lastMessage?.timestamp && ( // Check if timestamp exists
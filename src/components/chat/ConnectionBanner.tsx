@@ -0,0 +1,48 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { ConnectionStatus } from '@/lib/chat/chat-store';
+import { cn } from '@/lib/utils';
+import { CheckCircle2, Loader2, WifiOff } from 'lucide-react';
+
+interface ConnectionBannerProps {
+  status: ConnectionStatus;
+}
+
+// How long "Back online" stays up once caught up
+const RECONNECTED_NOTICE_MS = 2000;
+
+/**
+ * A strip across the top of the app while the connection is lost, and while catching up after it
+ * comes back or on startup with cached chats.
+ */
+export function ConnectionBanner({ status }: ConnectionBannerProps) {
+  const [showReconnected, setShowReconnected] = useState(false);
+  const wasOffline = useRef(false); // Since the last time the chats were caught up
+
+  useEffect(() => {
+    if (status === 'disconnected') wasOffline.current = true;
+    if (status !== 'connected' || !wasOffline.current) return;
+    wasOffline.current = false;
+    setShowReconnected(true);
+    const timer = setTimeout(() => setShowReconnected(false), RECONNECTED_NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [status]);
+
+  const banner =
+    status === 'disconnected'
+      ? { icon: WifiOff, text: "You're offline. Reconnecting… Messages you send will go out once you're back.", className: 'bg-destructive text-destructive-foreground' }
+      : status === 'syncing'
+        ? { icon: Loader2, text: 'Catching up on new messages…', className: 'bg-muted text-muted-foreground' }
+        : status === 'connected' && showReconnected
+          ? { icon: CheckCircle2, text: 'Back online.', className: 'bg-accent text-accent-foreground' }
+          : null;
+  if (!banner) return null;
+
+  return (
+    <div role="status" className={cn('flex items-center justify-center gap-2 px-4 py-1.5 text-sm', banner.className)}>
+      <banner.icon className={cn('h-4 w-4 shrink-0', status === 'syncing' && 'animate-spin')} />
+      {banner.text}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import type { DeleteScope } from '@/types/socket';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { buttonVariants } from '@/components/ui/button';
+
+interface DeleteMessageDialogProps {
+  isOpen: boolean;
+  canDeleteForEveryone: boolean; // The user's own message, still within the delete window
+  onDelete: (scope: DeleteScope) => void;
+  onClose: () => void;
+}
+
+/** Asks whether to delete a message for the user only or for everyone in the chat. */
+export function DeleteMessageDialog({ isOpen, canDeleteForEveryone, onDelete, onClose }: DeleteMessageDialogProps) {
+  return (
+    <AlertDialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete message?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {canDeleteForEveryone
+              ? 'Delete it just for you, or for everyone in this chat. Everyone will see that a message was deleted.'
+              : 'It will be deleted for you only. Others in the chat can still see it.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction className={buttonVariants({ variant: 'outline' })} onClick={() => onDelete('me')}>
+            Delete for me
+          </AlertDialogAction>
+          {canDeleteForEveryone && (
+            <AlertDialogAction className={buttonVariants({ variant: 'destructive' })} onClick={() => onDelete('everyone')}>
+              Delete for everyone
+            </AlertDialogAction>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
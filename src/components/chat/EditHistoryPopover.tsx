@@ -0,0 +1,61 @@
+'use client';
+
+import { useState } from 'react';
+import type { Message, MessageRevision } from '@/types';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { format } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { MarkdownContent } from './MarkdownContent';
+
+interface EditHistoryPopoverProps {
+  message: Message; // An edited message
+  onLoadRevisions: (messageId: string) => Promise<MessageRevision[] | null>;
+}
+
+/** The "(edited)" marker, which opens every version of the message, newest first. */
+export function EditHistoryPopover({ message, onLoadRevisions }: EditHistoryPopoverProps) {
+  const [revisions, setRevisions] = useState<MessageRevision[] | null>(null);
+  const [status, setStatus] = useState<'loading' | 'loaded' | 'failed'>('loading');
+
+  // Fetched on every open, since the message may have been edited again in the meantime
+  const handleOpenChange = (open: boolean) => {
+    if (!open) return;
+    setStatus('loading');
+    void onLoadRevisions(message.id).then(result => {
+      setRevisions(result);
+      setStatus(result ? 'loaded' : 'failed');
+    });
+  };
+
+  const versions = [
+    { content: message.content, createdAt: message.editedAt ?? message.timestamp, isCurrent: true },
+    ...(revisions ?? []).map(revision => ({ ...revision, isCurrent: false })).reverse(),
+  ];
+
+  return (
+    <Popover onOpenChange={handleOpenChange}>
+      <PopoverTrigger className="text-xs text-muted-foreground hover:underline">(edited)</PopoverTrigger>
+      <PopoverContent className="w-80 p-3">
+        <p className="mb-2 text-sm font-medium">Edit history</p>
+        {status === 'loading' ? (
+          <Loader2 className="mx-auto h-4 w-4 animate-spin text-muted-foreground" aria-label="Loading edit history" />
+        ) : status === 'failed' ? (
+          <p className="text-sm text-destructive">Could not load the edit history.</p>
+        ) : (
+          <ol className="max-h-64 space-y-3 overflow-y-auto">
+            {versions.map((version, index) => (
+              <li key={index} className="space-y-0.5">
+                <p className="text-xs text-muted-foreground">
+                  {format(new Date(version.createdAt), 'PP p')}
+                  {version.isCurrent && ' · Current'}
+                  {index === versions.length - 1 && ' · Original'}
+                </p>
+                <MarkdownContent content={version.content} />
+              </li>
+            ))}
+          </ol>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,210 @@
+'use client';
+
+import { useRef, useState, type ReactNode } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { cn } from '@/lib/utils';
+import {
+  addRecentEmoji,
+  getRecentEmojis,
+  getSkinTone,
+  loadEmojiData,
+  searchEmojis,
+  setSkinTone,
+  withSkinTone,
+  SKIN_TONES,
+  type EmojiData,
+  type EmojiEntry,
+} from '@/lib/emoji';
+import {
+  Apple,
+  Clock,
+  Flag,
+  Hash,
+  Lightbulb,
+  Loader2,
+  Plane,
+  Smile,
+  Trophy,
+  PawPrint,
+  PersonStanding,
+  type LucideIcon,
+} from 'lucide-react';
+
+const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  recent: Clock,
+  'smileys-emotion': Smile,
+  'people-body': PersonStanding,
+  'animals-nature': PawPrint,
+  'food-drink': Apple,
+  'travel-places': Plane,
+  activities: Trophy,
+  objects: Lightbulb,
+  symbols: Hash,
+  flags: Flag,
+};
+
+interface EmojiPickerProps {
+  children: ReactNode; // The trigger
+  onSelect: (emoji: string) => void;
+}
+
+interface Section {
+  key: string;
+  label: string;
+  emojis: { emoji: string; title: string }[];
+}
+
+const toCell = (entry: EmojiEntry, tone: number) => ({
+  emoji: withSkinTone(entry, tone),
+  title: entry.shortcodes[0] ? `:${entry.shortcodes[0]}:` : entry.name,
+});
+
+/**
+ * Searchable emoji picker opened from its trigger, with a section per category, the user's
+ * recently used emojis first and a skin tone for the emojis that come in several.
+ * The picker stays open, so several emojis can be picked in a row.
+ */
+export function EmojiPicker({ children, onSelect }: EmojiPickerProps) {
+  const [data, setData] = useState<EmojiData | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [query, setQuery] = useState('');
+  const [tone, setTone] = useState(0);
+  const [recent, setRecent] = useState<string[]>([]);
+  const sectionRefs = useRef(new Map<string, HTMLElement>());
+
+  // Preferences are read on every open, since another picker may have changed them; the dataset is only fetched once
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setQuery('');
+      return;
+    }
+    setRecent(getRecentEmojis());
+    setTone(getSkinTone());
+    setLoadFailed(false);
+    loadEmojiData().then(setData, error => {
+      console.error('Failed to load emojis:', error);
+      setLoadFailed(true);
+    });
+  };
+
+  const handleSelect = (emoji: string) => {
+    addRecentEmoji(emoji);
+    onSelect(emoji);
+  };
+
+  const handleToneChange = (next: number) => {
+    setTone(next);
+    setSkinTone(next);
+  };
+
+  const sections: Section[] = !data
+    ? []
+    : query.trim()
+      ? [{ key: 'results', label: 'Search results', emojis: searchEmojis(data, query).map(entry => toCell(entry, tone)) }]
+      : [
+          ...(recent.length > 0 ? [{ key: 'recent', label: 'Recently used', emojis: recent.map(emoji => ({ emoji, title: emoji })) }] : []),
+          ...data.categories.map(category => ({
+            key: category.key,
+            label: category.label,
+            emojis: category.emojis.map(entry => toCell(entry, tone)),
+          })),
+        ];
+
+  return (
+    <Popover onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent side="top" align="start" className="w-80 p-0">
+        <div className="flex items-center gap-1 border-b p-2">
+          <Input
+            value={query}
+            onChange={event => setQuery(event.target.value)}
+            placeholder="Search emojis"
+            className="h-8"
+            aria-label="Search emojis"
+            autoFocus
+          />
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0 text-lg" title="Skin tone">
+                {SKIN_TONES[tone]}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="flex min-w-0 gap-0.5 p-1">
+              {SKIN_TONES.map((sample, index) => (
+                <DropdownMenuItem
+                  key={sample}
+                  onSelect={() => handleToneChange(index)}
+                  className={cn('px-1.5 text-lg', index === tone && 'bg-accent/20')}
+                  aria-label={index === 0 ? 'Default skin tone' : `Skin tone ${index}`}
+                >
+                  {sample}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+
+        {!query.trim() && data && (
+          <div className="flex justify-between border-b px-1 py-0.5">
+            {sections.map(section => {
+              const Icon = CATEGORY_ICONS[section.key] ?? Smile;
+              return (
+                <Button
+                  key={section.key}
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-muted-foreground"
+                  onClick={() => sectionRefs.current.get(section.key)?.scrollIntoView({ block: 'start' })}
+                  title={section.label}
+                >
+                  <Icon />
+                  <span className="sr-only">{section.label}</span>
+                </Button>
+              );
+            })}
+          </div>
+        )}
+
+        <ScrollArea className="h-64">
+          {!data ? (
+            <div className="flex h-64 items-center justify-center text-sm text-muted-foreground">
+              {loadFailed ? 'Could not load emojis.' : <Loader2 className="h-4 w-4 animate-spin" aria-label="Loading emojis" />}
+            </div>
+          ) : query.trim() && sections[0].emojis.length === 0 ? (
+            <p className="p-4 text-center text-sm text-muted-foreground">No emojis found.</p>
+          ) : (
+            sections.map(section => (
+              <section
+                key={section.key}
+                ref={element => {
+                  if (element) sectionRefs.current.set(section.key, element);
+                  else sectionRefs.current.delete(section.key);
+                }}
+                className="px-2 pb-1"
+              >
+                <h3 className="sticky top-0 bg-popover py-1 text-xs font-medium text-muted-foreground">{section.label}</h3>
+                <div className="grid grid-cols-8">
+                  {section.emojis.map(({ emoji, title }) => (
+                    <button
+                      key={emoji}
+                      type="button"
+                      onClick={() => handleSelect(emoji)}
+                      className="rounded p-1 text-xl leading-none hover:bg-accent/20 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                      title={title}
+                    >
+                      {emoji}
+                    </button>
+                  ))}
+                </div>
+              </section>
+            ))
+          )}
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+}
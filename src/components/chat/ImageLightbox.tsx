@@ -0,0 +1,157 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { Message } from '@/types';
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { blurhashToDataUrl } from '@/lib/media';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { getMediaSrc } from './MessageBubble';
+
+interface ImageLightboxProps {
+  messages: Message[]; // The chat's loaded messages, oldest first
+  openMessageId: string | null; // The image being viewed, or null when closed
+  onOpenMessageIdChange: (messageId: string | null) => void;
+  hasMoreMessages?: boolean;
+  onLoadOlderMessages?: () => Promise<void>; // Pages in older history when going back past the first image
+}
+
+const isViewableImage = (message: Message) =>
+  message.type === 'image' && message.uploadProgress === undefined && !!getMediaSrc(message);
+
+/**
+ * Full-screen viewer for a chat's images, paged with the arrow buttons or keys.
+ * Going back from the oldest loaded image fetches older history, so every image in the chat can be reached.
+ */
+export function ImageLightbox({
+  messages,
+  openMessageId,
+  onOpenMessageIdChange,
+  hasMoreMessages,
+  onLoadOlderMessages,
+}: ImageLightboxProps) {
+  const images = useMemo(() => messages.filter(isViewableImage), [messages]);
+  const index = images.findIndex(message => message.id === openMessageId);
+  const current = index >= 0 ? images[index] : undefined;
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  // Set while older history loads, to step back onto the newest of the older images once it arrives
+  const pendingPreviousRef = useRef<string | null>(null);
+
+  // The viewed image went away (e.g. the message was deleted)
+  useEffect(() => {
+    if (openMessageId && !current) onOpenMessageIdChange(null);
+  }, [openMessageId, current, onOpenMessageIdChange]);
+
+  useEffect(() => {
+    const from = pendingPreviousRef.current;
+    if (!from) return;
+    // The user moved on before older images arrived
+    if (from !== openMessageId) {
+      pendingPreviousRef.current = null;
+      return;
+    }
+    const fromIndex = images.findIndex(message => message.id === from);
+    if (fromIndex > 0) {
+      pendingPreviousRef.current = null;
+      onOpenMessageIdChange(images[fromIndex - 1].id);
+    }
+  }, [images, openMessageId, onOpenMessageIdChange]);
+
+  // Warm the cache with the neighbours so paging is instant
+  useEffect(() => {
+    for (const neighbour of [images[index - 1], images[index + 1]]) {
+      const src = neighbour && getMediaSrc(neighbour);
+      if (src) new Image().src = src;
+    }
+  }, [images, index]);
+
+  const canGoBack = index > 0 || (!!hasMoreMessages && !!onLoadOlderMessages);
+  const canGoForward = index >= 0 && index < images.length - 1;
+
+  const goBack = () => {
+    if (index > 0) {
+      onOpenMessageIdChange(images[index - 1].id);
+    } else if (current && hasMoreMessages && onLoadOlderMessages && !isLoadingOlder) {
+      pendingPreviousRef.current = current.id;
+      setIsLoadingOlder(true);
+      onLoadOlderMessages().finally(() => setIsLoadingOlder(false));
+    }
+  };
+
+  const goForward = () => {
+    if (canGoForward) onOpenMessageIdChange(images[index + 1].id);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'ArrowLeft') {
+      event.preventDefault();
+      goBack();
+    } else if (event.key === 'ArrowRight') {
+      event.preventDefault();
+      goForward();
+    }
+  };
+
+  const media = current?.media;
+  // The largest thumbnail (or the blurhash) stands in while the full image loads
+  const placeholder = media?.thumbnails?.at(-1)?.url ?? (media?.blurhash ? blurhashToDataUrl(media.blurhash) : undefined);
+  const timestamp = current ? new Date(current.timestamp) : null;
+
+  return (
+    <Dialog open={!!current} onOpenChange={open => !open && onOpenMessageIdChange(null)}>
+      <DialogContent
+        className="flex h-[95vh] max-w-[95vw] flex-col gap-2 border-0 bg-black p-4 text-white sm:rounded-none"
+        onKeyDown={handleKeyDown}
+      >
+        {current && timestamp && (
+          <>
+            <div className="pr-8">
+              <DialogTitle className="text-sm font-medium">{current.sender?.name ?? 'Unknown User'}</DialogTitle>
+              <DialogDescription className="text-xs text-white/70">
+                {format(timestamp, 'PPp')} · {index + 1} of {images.length}
+                {hasMoreMessages ? '+' : ''}
+              </DialogDescription>
+            </div>
+
+            <div className="relative flex min-h-0 flex-1 items-center justify-center">
+              {/* eslint-disable-next-line @next/next/no-img-element -- Served as-is by the chat server */}
+              <img
+                key={current.id}
+                src={getMediaSrc(current)}
+                alt={`Image from ${current.sender?.name ?? 'Unknown User'}`}
+                width={media?.width}
+                height={media?.height}
+                className="h-auto max-h-full w-auto max-w-full bg-contain bg-center bg-no-repeat object-contain"
+                style={{ backgroundImage: placeholder ? `url(${placeholder})` : undefined }}
+              />
+
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="absolute left-0 h-10 w-10 rounded-full bg-black/40 text-white hover:bg-black/60 hover:text-white"
+                onClick={goBack}
+                disabled={!canGoBack || isLoadingOlder}
+                aria-label="Previous image"
+              >
+                {isLoadingOlder ? <Loader2 className="h-5 w-5 animate-spin" /> : <ChevronLeft className="h-6 w-6" />}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="absolute right-0 h-10 w-10 rounded-full bg-black/40 text-white hover:bg-black/60 hover:text-white"
+                onClick={goForward}
+                disabled={!canGoForward}
+                aria-label="Next image"
+              >
+                <ChevronRight className="h-6 w-6" />
+              </Button>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import type { MediaRef, Message } from '@/types';
+import { blurhashToDataUrl } from '@/lib/media';
+import { useCachedMedia } from '@/hooks/use-cached-media';
+import { cn } from '@/lib/utils';
+
+interface ImageMessageProps {
+  message: Message;
+  src: string;
+  width: number;
+  height: number;
+  onOpen?: () => void; // Opens the image in the chat's lightbox
+  children?: React.ReactNode; // Overlays such as upload progress
+}
+
+/** The narrowest thumbnail at least as wide as the image is shown, in device pixels, or else the original. */
+export function getImageSrc(media: MediaRef | undefined, src: string, width: number): string {
+  const neededWidth = width * (typeof window === 'undefined' ? 1 : window.devicePixelRatio);
+  return media?.thumbnails?.find(thumbnail => thumbnail.width >= neededWidth)?.url ?? src;
+}
+
+/**
+ * An image in a message bubble. Its blurhash fills the space until the best-fitting
+ * thumbnail has loaded, from the local media cache if it was shown before; clicking it opens the lightbox.
+ */
+export function ImageMessage({ message, src, width, height, onOpen, children }: ImageMessageProps) {
+  const [isLoaded, setIsLoaded] = useState(false);
+  const blurhash = message.media?.blurhash;
+  const placeholder = useMemo(() => (blurhash ? blurhashToDataUrl(blurhash) : undefined), [blurhash]);
+  const cachedSrc = useCachedMedia(getImageSrc(message.media, src, width));
+  // Still uploading: the local file is shown and there is nothing to page through yet
+  const canOpen = !!onOpen && message.uploadProgress === undefined;
+
+  return (
+    <div
+      className="relative max-w-full rounded-md overflow-hidden bg-muted bg-cover bg-center"
+      style={{ width, height, backgroundImage: placeholder ? `url(${placeholder})` : undefined }}
+    >
+      <button
+        type="button"
+        className="block h-full w-full cursor-zoom-in disabled:cursor-default"
+        onClick={onOpen}
+        disabled={!canOpen}
+        aria-label="Open image"
+      >
+        {/* eslint-disable-next-line @next/next/no-img-element -- Thumbnails are generated by the chat server */}
+        <img
+          src={cachedSrc}
+          alt="Sent image"
+          width={width}
+          height={height}
+          loading="lazy"
+          decoding="async"
+          className={cn('h-full w-full object-cover transition-opacity duration-300', isLoaded ? 'opacity-100' : 'opacity-0')}
+          onLoad={() => setIsLoaded(true)}
+          data-ai-hint="chat media"
+        />
+      </button>
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import type { User } from '@/types';
+import type { CallType } from '@/types/call';
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Phone, PhoneOff } from 'lucide-react';
+import { UserProfile } from './UserProfile';
+
+interface IncomingCallDialogProps {
+  isOpen: boolean;
+  caller: User | undefined;
+  type: CallType;
+  groupName?: string; // Set when the call is in a group chat
+  onAccept: () => void;
+  onDecline: () => void;
+}
+
+// Two short beeps every two seconds, generated so no audio asset is needed
+function useRingtone(active: boolean) {
+  useEffect(() => {
+    if (!active || typeof AudioContext === 'undefined') return;
+    const context = new AudioContext();
+    const ring = () => {
+      for (const offset of [0, 0.5]) {
+        const oscillator = context.createOscillator();
+        const gain = context.createGain();
+        oscillator.frequency.value = 440;
+        gain.gain.setValueAtTime(0.15, context.currentTime + offset);
+        gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + offset + 0.4);
+        oscillator.connect(gain).connect(context.destination);
+        oscillator.start(context.currentTime + offset);
+        oscillator.stop(context.currentTime + offset + 0.4);
+      }
+    };
+    ring();
+    const timer = setInterval(ring, 2000);
+    return () => {
+      clearInterval(timer);
+      void context.close();
+    };
+  }, [active]);
+}
+
+/** Rings for an incoming call until it is accepted, declined or given up by the caller. */
+export function IncomingCallDialog({ isOpen, caller, type, groupName, onAccept, onDecline }: IncomingCallDialogProps) {
+  useRingtone(isOpen);
+
+  return (
+    // Dismissing the dialog (Escape, clicking outside) declines the call
+    <Dialog open={isOpen} onOpenChange={open => !open && onDecline()}>
+      <DialogContent className="max-w-xs justify-items-center text-center">
+        {caller && <UserProfile user={caller} size="lg" />}
+        <div className="space-y-1">
+          <DialogTitle>{groupName ?? caller?.name ?? 'Unknown User'}</DialogTitle>
+          <DialogDescription>
+            {groupName ? `${caller?.name ?? 'Someone'} is calling the group (${type})…` : `Incoming ${type} call…`}
+          </DialogDescription>
+        </div>
+        <div className="flex gap-6 pt-2">
+          <Button type="button" variant="destructive" size="icon" className="h-14 w-14 rounded-full" onClick={onDecline} aria-label="Decline">
+            <PhoneOff className="h-6 w-6" />
+          </Button>
+          <Button type="button" size="icon" className="h-14 w-14 rounded-full bg-green-600 text-white hover:bg-green-700" onClick={onAccept} aria-label="Accept">
+            <Phone className="h-6 w-6" />
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { useState } from 'react';
+import type { LinkPreview } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface LinkPreviewCardProps {
+  preview: LinkPreview;
+  className?: string;
+}
+
+/** Card under a message with the title, description and image of the page its link points to. */
+export function LinkPreviewCard({ preview, className }: LinkPreviewCardProps) {
+  const [imageFailed, setImageFailed] = useState(false);
+  const siteName = preview.siteName ?? new URL(preview.url).hostname.replace(/^www\./, '');
+
+  return (
+    <a
+      href={preview.url}
+      target="_blank"
+      rel="noopener noreferrer nofollow"
+      className={cn(
+        'block w-64 max-w-full overflow-hidden rounded border-l-4 border-accent bg-black/5 text-left hover:bg-black/10 dark:bg-white/10 dark:hover:bg-white/15',
+        className
+      )}
+    >
+      {preview.imageUrl && !imageFailed && (
+        // eslint-disable-next-line @next/next/no-img-element -- Hosted by the linked site, which next/image isn't configured for
+        <img
+          src={preview.imageUrl}
+          alt=""
+          className="aspect-[1.91/1] w-full object-cover"
+          loading="lazy"
+          // Don't tell the linked site which chat its page was shared in
+          referrerPolicy="no-referrer"
+          onError={() => setImageFailed(true)}
+        />
+      )}
+      <div className="space-y-0.5 px-2 py-1.5">
+        <p className="truncate text-xs opacity-80">{siteName}</p>
+        <p className="line-clamp-2 text-sm font-semibold">{preview.title}</p>
+        {preview.description && <p className="line-clamp-2 text-xs opacity-80">{preview.description}</p>}
+      </div>
+    </a>
+  );
+}
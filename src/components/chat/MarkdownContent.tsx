@@ -0,0 +1,93 @@
+'use client';
+
+import { memo, useMemo, type ReactNode } from 'react';
+import { Highlight, themes } from 'prism-react-renderer';
+import { cn } from '@/lib/utils';
+import { parseMarkdown, type BlockNode, type InlineNode } from '@/lib/markdown';
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+}
+
+function renderInline(nodes: InlineNode[]): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'code':
+        return (
+          <code key={index} className="rounded bg-black/10 px-1 py-0.5 font-mono text-[0.85em] dark:bg-white/15">
+            {node.text}
+          </code>
+        );
+      case 'link':
+        return (
+          <a key={index} href={node.url} target="_blank" rel="noopener noreferrer nofollow" className="break-all underline underline-offset-2">
+            {node.text}
+          </a>
+        );
+      case 'strong':
+        return <strong key={index} className="font-semibold">{renderInline(node.children)}</strong>;
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'strikethrough':
+        return <s key={index}>{renderInline(node.children)}</s>;
+    }
+  });
+}
+
+/** Code block highlighted for its language; unknown languages are shown without highlighting. */
+function CodeBlock({ code, language }: { code: string; language: string | null }) {
+  return (
+    <Highlight code={code} language={language ?? 'plain'} theme={themes.vsDark}>
+      {({ className, style, tokens, getLineProps, getTokenProps }) => (
+        <pre className={cn(className, 'max-w-full overflow-x-auto rounded-md p-2 font-mono text-xs')} style={style}>
+          <code>
+            {tokens.map((line, lineIndex) => (
+              <div key={lineIndex} {...getLineProps({ line })}>
+                {line.map((token, tokenIndex) => (
+                  <span key={tokenIndex} {...getTokenProps({ token })} />
+                ))}
+              </div>
+            ))}
+          </code>
+        </pre>
+      )}
+    </Highlight>
+  );
+}
+
+function renderBlocks(blocks: BlockNode[]): ReactNode[] {
+  return blocks.map((block, index) => {
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={index} className="whitespace-pre-wrap">{renderInline(block.children)}</p>;
+      case 'code_block':
+        return <CodeBlock key={index} code={block.text} language={block.language} />;
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>);
+        return block.ordered ? (
+          <ol key={index} start={block.start} className="list-decimal pl-5">{items}</ol>
+        ) : (
+          <ul key={index} className="list-disc pl-5">{items}</ul>
+        );
+      }
+      case 'blockquote':
+        return (
+          <blockquote key={index} className="space-y-1 border-l-2 border-current pl-2 opacity-80">
+            {renderBlocks(block.children)}
+          </blockquote>
+        );
+    }
+  });
+}
+
+/**
+ * A text message with its Markdown formatting. Everything is rendered as React elements,
+ * so the content can't inject markup.
+ */
+export const MarkdownContent = memo(function MarkdownContent({ content, className }: MarkdownContentProps) {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+  return <div className={cn('space-y-1 text-sm break-words', className)}>{renderBlocks(blocks)}</div>;
+});
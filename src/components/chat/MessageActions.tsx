@@ -0,0 +1,80 @@
+'use client';
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { Info, MoreHorizontal, Pencil, Reply, SmilePlus, Trash2 } from 'lucide-react';
+import { ReactionPicker } from './ReactionPicker';
+
+interface MessageActionsProps {
+  align: 'start' | 'end'; // Which side of the trigger the menu lines up with
+  onReply?: () => void; // Set when the message can be replied to
+  onReact?: (emoji: string) => void; // Set when the message can be reacted to
+  isPickingReaction?: boolean; // The reaction picker is open, e.g. after a long press on the message
+  onPickingReactionChange?: (isPicking: boolean) => void;
+  onEdit?: () => void; // Set when the message can be edited
+  onDelete?: () => void; // Opens the choice between deleting for the user and for everyone
+  onShowInfo?: () => void; // Opens who received and read the message; set for the user's own messages in groups
+}
+
+// Hidden until the message is hovered, or the button is focused or its menu open
+const revealClassName =
+  'h-7 w-7 shrink-0 text-muted-foreground opacity-0 transition-opacity group-hover/message:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100';
+
+/** Reaction and reply buttons and a menu of what else can be done with a message, revealed while hovering it. Renders nothing without actions. */
+export function MessageActions({ align, onReply, onReact, isPickingReaction = false, onPickingReactionChange, onEdit, onDelete, onShowInfo }: MessageActionsProps) {
+  if (!onReply && !onReact && !onEdit && !onDelete && !onShowInfo) return null;
+
+  return (
+    <>
+      {onReact && (
+        <ReactionPicker align={align} open={isPickingReaction} onOpenChange={onPickingReactionChange} onSelect={onReact}>
+          <Button variant="ghost" size="icon" className={revealClassName}>
+            <SmilePlus />
+            <span className="sr-only">React</span>
+          </Button>
+        </ReactionPicker>
+      )}
+      {onReply && (
+        <Button variant="ghost" size="icon" className={revealClassName} onClick={onReply}>
+          <Reply />
+          <span className="sr-only">Reply</span>
+        </Button>
+      )}
+      {(onEdit || onDelete || onShowInfo) && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon" className={revealClassName}>
+              <MoreHorizontal />
+              <span className="sr-only">Message actions</span>
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align={align}>
+            {onShowInfo && (
+              <DropdownMenuItem onSelect={onShowInfo}>
+                <Info />
+                Message info
+              </DropdownMenuItem>
+            )}
+            {onEdit && (
+              <DropdownMenuItem onSelect={onEdit}>
+                <Pencil />
+                Edit
+              </DropdownMenuItem>
+            )}
+            {onDelete && (
+              <DropdownMenuItem onSelect={onDelete} className="text-destructive focus:text-destructive">
+                <Trash2 />
+                Delete
+              </DropdownMenuItem>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </>
+  );
+}
@@ -1,74 +1,274 @@
 
 'use client';
 
-import type { Message, User } from '@/types';
+import { useRef, useState, type KeyboardEvent, type PointerEvent } from 'react';
+import type { Message, MessageReceipt, MessageRevision, User } from '@/types';
+import { MAX_MESSAGE_LENGTH, type DeleteScope } from '@/types/socket';
 import { cn } from '@/lib/utils';
+import { getCallDurationMs, getCallLabel, getScreenShareDurationMs, getScreenShareLabel, isCallEvent, isMissedCall } from '@/lib/calls';
+import { getDeletedLabel } from '@/lib/messages';
 import { format, isValid } from 'date-fns'; // Import isValid
 import { UserProfile } from './UserProfile';
-import Image from 'next/image';
+import { VideoMessage, formatDuration } from './VideoMessage';
+import { ImageMessage } from './ImageMessage';
 import { Card, CardContent } from '@/components/ui/card';
-import { Check, CheckCheck, Clock, PhoneCall, PhoneOff, Video, AlertCircle } from 'lucide-react'; // Added AlertCircle
+import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { MessageActions } from './MessageActions';
+import { EditHistoryPopover } from './EditHistoryPopover';
+import { DeleteMessageDialog } from './DeleteMessageDialog';
+import { MessageInfoDialog } from './MessageInfoDialog';
+import { ReplyQuote } from './ReplyQuote';
+import { MessageReactions } from './MessageReactions';
+import { MarkdownContent } from './MarkdownContent';
+import { LinkPreviewCard } from './LinkPreviewCard';
+import { Ban, Reply, Check, CheckCheck, Clock, MonitorUp, PhoneIncoming, PhoneMissed, PhoneOutgoing, AlertCircle } from 'lucide-react'; // Added AlertCircle
 import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from '@/components/ui/tooltip'; // Import Tooltip components
 
+// Dragging a bubble this far (in px) to the right on a touchscreen replies to it
+const SWIPE_TO_REPLY_DISTANCE = 64;
+// Pressing a bubble this long (in ms) on a touchscreen opens the reaction picker
+const LONG_PRESS_MS = 500;
+
+// Media is shown at most this large, keeping its aspect ratio
+const MAX_MEDIA_WIDTH = 250;
+const MAX_MEDIA_HEIGHT = 300;
+
+/** Display size of a media message, scaled down from its pixel size when known. */
+export function getMediaDisplaySize(message: Message): { width: number; height: number } {
+  const { width, height } = message.media ?? {};
+  if (!width || !height) return { width: MAX_MEDIA_WIDTH, height: message.type === 'video' ? 140 : 200 };
+  const scale = Math.min(MAX_MEDIA_WIDTH / width, MAX_MEDIA_HEIGHT / height, 1);
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+}
+
+/** Where a media message's file is served from, if it has one. */
+export function getMediaSrc(message: Message): string | undefined {
+  // Media comes from the server's media store; messages stored before uploads existed carry a data URL
+  return message.media?.url ?? (message.content.startsWith('data:') ? message.content : undefined);
+}
+
 interface MessageBubbleProps {
   message: Message;
   currentUser: User | null; // Allow currentUser to be potentially null
   showAvatar?: boolean; // Whether to show the avatar next to the bubble
   centerAlign?: boolean; // Whether to center-align the bubble (for call messages)
+  onOpenImage?: (messageId: string) => void; // Opens an image message in the lightbox
+  canEdit?: boolean; // The current user may still edit this message
+  onEdit?: (messageId: string, content: string) => void;
+  onLoadRevisions?: (messageId: string) => Promise<MessageRevision[] | null>; // Earlier versions, for the "(edited)" popover
+  canDeleteForEveryone?: boolean; // The current user may still delete this message for everyone, not just themselves
+  onDelete?: (messageId: string, scope: DeleteScope) => void;
+  onRetry?: (messageId: string) => void; // Sends a message that failed to send again
+  onReply?: (messageId: string) => void; // Set when the message can be replied to
+  onJumpToMessage?: (messageId: string) => void; // Scrolls to the original of a reply
+  onReact?: (messageId: string, emoji: string) => void; // Adds the user's reaction, or takes it back; set when the message can be reacted to
+  onLoadReceipts?: (messageId: string) => Promise<MessageReceipt[] | null>; // Who received and read it, for the "Message info" panel
+  resolveUser?: (userId: string) => User | undefined; // Names those who reacted
+  showLinkPreview?: boolean; // The user wants previews of linked pages
+}
+
+/**
+ * Touchscreen gestures on a bubble: dragging it to the right replies to it, and pressing it for a
+ * moment opens the reaction picker. Returns how far it is dragged, and the handlers to put on it.
+ */
+function useTouchGestures({ onSwipe, onLongPress }: { onSwipe?: () => void; onLongPress?: () => void }) {
+  const [offset, setOffset] = useState(0);
+  const startRef = useRef<{ pointerId: number; x: number; y: number } | null>(null);
+  const longPressTimerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  const reset = () => {
+    clearTimeout(longPressTimerRef.current);
+    startRef.current = null;
+    setOffset(0);
+  };
+  const handlers = {
+    onPointerDown: (event: PointerEvent<HTMLDivElement>) => {
+      if (event.pointerType !== 'touch' || (!onSwipe && !onLongPress)) return;
+      startRef.current = { pointerId: event.pointerId, x: event.clientX, y: event.clientY };
+      if (onLongPress) {
+        longPressTimerRef.current = setTimeout(() => {
+          startRef.current = null;
+          setOffset(0);
+          onLongPress();
+        }, LONG_PRESS_MS);
+      }
+    },
+    onPointerMove: (event: PointerEvent<HTMLDivElement>) => {
+      const start = startRef.current;
+      if (start?.pointerId !== event.pointerId) return;
+      const dx = event.clientX - start.x;
+      // Any real movement means this isn't a long press
+      if (Math.hypot(dx, event.clientY - start.y) > 8) clearTimeout(longPressTimerRef.current);
+      if (onSwipe) setOffset(Math.min(Math.max(dx, 0), SWIPE_TO_REPLY_DISTANCE));
+    },
+    onPointerUp: () => {
+      if (startRef.current && offset >= SWIPE_TO_REPLY_DISTANCE) onSwipe?.();
+      reset();
+    },
+    // Also sent when the browser takes over the touch to scroll vertically
+    onPointerCancel: reset,
+  };
+  return { offset, handlers };
+}
+
+/** Inline editor that replaces a text bubble's content. Enter saves, Shift+Enter adds a line, Escape cancels. */
+function MessageEditor({ initialContent, onSave, onCancel }: {
+  initialContent: string;
+  onSave: (content: string) => void;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState(initialContent);
+  const canSave = draft.trim().length > 0;
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      onCancel();
+    } else if (event.key === 'Enter' && !event.shiftKey && !event.nativeEvent.isComposing) {
+      event.preventDefault();
+      if (canSave) onSave(draft);
+    }
+  };
+
+  return (
+    <div className="flex w-64 max-w-full flex-col gap-2">
+      <Textarea
+        value={draft}
+        onChange={event => setDraft(event.target.value)}
+        onKeyDown={handleKeyDown}
+        onFocus={event => event.currentTarget.setSelectionRange(draft.length, draft.length)}
+        maxLength={MAX_MESSAGE_LENGTH}
+        autoFocus
+        rows={2}
+        className="min-h-0 resize-none bg-background text-sm text-foreground"
+        aria-label="Edit message"
+      />
+      <div className="flex justify-end gap-1">
+        <Button type="button" size="sm" variant="secondary" className="h-7" onClick={onCancel}>Cancel</Button>
+        <Button type="button" size="sm" variant="secondary" className="h-7" onClick={() => onSave(draft)} disabled={!canSave}>Save</Button>
+      </div>
+    </div>
+  );
 }
 
-export function MessageBubble({ message, currentUser, showAvatar = true, centerAlign = false }: MessageBubbleProps) {
+export function MessageBubble({
+  message,
+  currentUser,
+  showAvatar = true,
+  centerAlign = false,
+  onOpenImage,
+  canEdit = false,
+  onEdit,
+  onLoadRevisions,
+  canDeleteForEveryone = false,
+  onDelete,
+  onRetry,
+  onReply,
+  onJumpToMessage,
+  onReact,
+  onLoadReceipts,
+  resolveUser,
+  showLinkPreview = true,
+}: MessageBubbleProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [isPickingReaction, setIsPickingReaction] = useState(false);
+  const [isShowingInfo, setIsShowingInfo] = useState(false);
+  const swipe = useTouchGestures({
+    onSwipe: onReply && !isEditing ? () => onReply(message.id) : undefined,
+    onLongPress: onReact && !isEditing ? () => setIsPickingReaction(true) : undefined,
+  });
   // Handle cases where sender or currentUser might be null
   const isCurrentUser = message.sender?.id === currentUser?.id;
   const sender = message.sender; // Can be null
   const hasError = !!message.error; // Check if the message has an error property
+  const mediaSrc = getMediaSrc(message);
+  const isMedia = (message.type === 'image' || message.type === 'video') && !!mediaSrc;
+  const mediaSize = getMediaDisplaySize(message);
+  // Only the sender can see who received a message, once the server has it
+  const loadReceipts = isCurrentUser && !hasError && !message.id.startsWith('temp_') ? onLoadReceipts : undefined;
 
   const renderContent = () => {
+    if (message.deletedAt) {
+      return (
+        <p className="flex items-center gap-1.5 text-sm italic opacity-70">
+          <Ban className="h-3.5 w-3.5 shrink-0" />
+          {getDeletedLabel(message, currentUser?.id)}
+        </p>
+      );
+    }
     switch (message.type) {
       case 'text':
-        // Break long words to prevent overflow
-        return <p className="text-sm break-words whitespace-pre-wrap">{message.content}</p>;
+        if (isEditing && onEdit) {
+          return (
+            <MessageEditor
+              initialContent={message.content}
+              onSave={content => {
+                setIsEditing(false);
+                onEdit(message.id, content);
+              }}
+              onCancel={() => setIsEditing(false)}
+            />
+          );
+        }
+        return (
+          <>
+            <MarkdownContent content={message.content} />
+            {showLinkPreview && message.linkPreview && <LinkPreviewCard preview={message.linkPreview} className="mt-1.5" />}
+          </>
+        );
       case 'image':
-         // Check if content is a valid URL (basic check)
-         if (typeof message.content === 'string' && message.content.startsWith('data:image')) {
+         if (mediaSrc) {
            return (
-              <Image
-                 src={message.content}
-                 alt="Sent image"
-                 width={250} // Slightly increase max width for larger screens
-                 height={200} // Adjust height accordingly
-                 className="rounded-md object-cover max-w-full h-auto" // Ensure image scales down
-                 data-ai-hint="chat media"
-               />
+              <ImageMessage
+                message={message}
+                src={mediaSrc}
+                width={mediaSize.width}
+                height={mediaSize.height}
+                onOpen={onOpenImage && (() => onOpenImage(message.id))}
+              >
+                {renderUploadProgress()}
+              </ImageMessage>
            );
           } else {
             return <p className="text-sm text-destructive italic flex items-center gap-1"><AlertCircle size={16}/> Invalid image data</p>;
           }
        case 'video':
-         // Check if content is a valid URL (basic check)
-          if (typeof message.content === 'string' && message.content.startsWith('data:video')) {
+          if (mediaSrc) {
             return (
-               <div className="relative w-full max-w-[250px] h-auto bg-black rounded-md flex items-center justify-center aspect-video overflow-hidden">
-                 <Video className="text-white h-10 w-10 absolute" />
-                 <span className="absolute bottom-1 right-1 text-white text-xs bg-black/50 px-1 rounded">Video</span>
-                  {/* Could add a thumbnail here if available */}
-               </div>
+               <VideoMessage message={message} src={mediaSrc} width={mediaSize.width} height={mediaSize.height}>
+                 {renderUploadProgress()}
+               </VideoMessage>
             );
            } else {
             return <p className="text-sm text-destructive italic flex items-center gap-1"><AlertCircle size={16}/> Invalid video data</p>;
            }
-       case 'call_start':
-         return (
-            <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground italic">
-              <PhoneCall className="h-4 w-4 text-accent" />
-              <span>Call started</span>
+       case 'call': {
+          const { call } = message;
+          if (!call) return <p className="text-sm text-muted-foreground italic">Call</p>;
+          const isMissed = isMissedCall(call, currentUser?.id);
+          const durationMs = getCallDurationMs(call);
+          const CallIcon = isMissed ? PhoneMissed : call.initiatorId === currentUser?.id ? PhoneOutgoing : PhoneIncoming;
+          return (
+            <div className={cn('flex items-center justify-center gap-2 text-sm italic', isMissed ? 'text-destructive' : 'text-muted-foreground')}>
+              <CallIcon className={cn('h-4 w-4', !isMissed && 'text-accent')} />
+              <span>
+                {getCallLabel(call, currentUser?.id)}
+                {durationMs !== undefined && ` · ${formatDuration(durationMs)}`}
+              </span>
             </div>
-         );
-       case 'call_end':
+          );
+       }
+       case 'screen_share':
           return (
-            <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground italic">
-              <PhoneOff className="h-4 w-4 text-destructive" />
-              <span>Call ended{message.content ? `: ${message.content}` : ''}</span> {/* Show duration if available */}
+            <div className="flex items-center justify-center gap-2 text-sm italic text-muted-foreground">
+              <MonitorUp className="h-4 w-4 text-accent" />
+              <span>
+                {getScreenShareLabel(message, currentUser?.id)}
+                {message.screenShare && ` · ${formatDuration(getScreenShareDurationMs(message.screenShare))}`}
+              </span>
             </div>
           );
        default:
@@ -76,11 +276,18 @@ export function MessageBubble({ message, currentUser, showAvatar = true, centerA
      }
   };
 
-  const renderStatus = () => {
-     if (!isCurrentUser || message.type === 'call_start' || message.type === 'call_end') return null;
+  const renderUploadProgress = () => {
+    if (message.uploadProgress === undefined) return null;
+    return (
+      <div className="absolute inset-x-0 bottom-0 flex items-center gap-2 bg-black/50 px-2 py-1.5">
+        <Progress value={message.uploadProgress} className="h-1.5 flex-1" aria-label="Upload progress" />
+        <span className="text-xs text-white tabular-nums">{message.uploadProgress}%</span>
+      </div>
+    );
+  };
 
-     // Don't show status for media for now, could be added later
-     if (message.type === 'image' || message.type === 'video') return null;
+  const renderStatus = () => {
+     if (!isCurrentUser || isCallEvent(message)) return null;
 
       // If message failed to send, show error icon
       if (hasError) {
@@ -103,7 +310,7 @@ export function MessageBubble({ message, currentUser, showAvatar = true, centerA
        case 'sent':
          // Show clock only if message ID looks temporary (client-side)
          if (message.id?.startsWith('temp_')) {
-             return <Clock className="h-3.5 w-3.5 text-muted-foreground" title="Sending..." />;
+             return <Clock className="h-3.5 w-3.5 text-muted-foreground" aria-label="Sending..." />;
          }
           return <Check className="h-3.5 w-3.5 text-muted-foreground" />;
        case 'delivered':
@@ -141,15 +348,27 @@ export function MessageBubble({ message, currentUser, showAvatar = true, centerA
            hasError && isCurrentUser ? 'opacity-70' : '' // Reduce opacity for failed messages from current user
         )}>
          {/* Render Card only for non-call messages */}
-         {message.type !== 'call_start' && message.type !== 'call_end' ? (
+         {!isCallEvent(message) ? (
+           <div
+             className={cn('group/message relative flex items-center gap-1 touch-pan-y', isCurrentUser && 'flex-row-reverse')}
+             style={swipe.offset ? { transform: `translateX(${swipe.offset}px)` } : undefined}
+             {...swipe.handlers}
+           >
+             {swipe.offset > 0 && (
+               <Reply
+                 className="absolute -left-7 h-4 w-4 text-muted-foreground"
+                 style={{ opacity: swipe.offset / SWIPE_TO_REPLY_DISTANCE }}
+                 aria-hidden
+               />
+             )}
              <Card
                className={cn(
-                 'rounded-lg shadow-sm',
+                 'min-w-0 rounded-lg shadow-sm', // min-w-0 lets wide code blocks scroll instead of stretching the bubble
                   isCurrentUser
                      ? 'bg-primary text-primary-foreground rounded-br-none'
                      : 'bg-card text-card-foreground rounded-bl-none',
                  // Remove padding/bg/border for media if content is valid
-                 (message.type === 'image' || message.type === 'video') && typeof message.content === 'string' && message.content.startsWith('data:')
+                 isMedia
                    ? 'p-0 overflow-hidden bg-transparent border-0 shadow-none'
                    : 'p-2 px-3',
                    hasError && !isCurrentUser ? 'border-destructive/50 bg-destructive/10' : '', // Style error for received messages
@@ -159,18 +378,67 @@ export function MessageBubble({ message, currentUser, showAvatar = true, centerA
                 {/* Use min-h-[20px] to prevent collapsing */}
                <CardContent className={cn(
                     "p-0 min-h-[20px]",
-                    (message.type === 'image' || message.type === 'video') && typeof message.content === 'string' && message.content.startsWith('data:')
+                    isMedia
                         ? ''
                         : 'p-2 px-3',
                     hasError ? 'text-destructive' : '' // Make text red on error inside card
                     )}>
+                 {message.replyTo && !message.deletedAt && (
+                   <ReplyQuote
+                     quote={message.replyTo}
+                     currentUserId={currentUser?.id}
+                     onClick={onJumpToMessage && (() => onJumpToMessage(message.replyTo!.id))}
+                     className={cn('mb-1', isMedia && 'bg-card text-card-foreground')}
+                   />
+                 )}
                  {renderContent()}
                </CardContent>
              </Card>
+             {!isEditing && (
+               <MessageActions
+                 align={isCurrentUser ? 'end' : 'start'}
+                 onReply={onReply && (() => onReply(message.id))}
+                 onReact={onReact && (emoji => onReact(message.id, emoji))}
+                 isPickingReaction={isPickingReaction}
+                 onPickingReactionChange={setIsPickingReaction}
+                 onEdit={canEdit && onEdit ? () => setIsEditing(true) : undefined}
+                 onDelete={onDelete ? () => setIsConfirmingDelete(true) : undefined}
+                 onShowInfo={loadReceipts ? () => setIsShowingInfo(true) : undefined}
+               />
+             )}
+             {onDelete && (
+               <DeleteMessageDialog
+                 isOpen={isConfirmingDelete}
+                 canDeleteForEveryone={canDeleteForEveryone}
+                 onDelete={scope => {
+                   setIsConfirmingDelete(false);
+                   onDelete(message.id, scope);
+                 }}
+                 onClose={() => setIsConfirmingDelete(false)}
+               />
+             )}
+             {loadReceipts && (
+               <MessageInfoDialog
+                 message={message}
+                 isOpen={isShowingInfo}
+                 onClose={() => setIsShowingInfo(false)}
+                 onLoadReceipts={loadReceipts}
+                 resolveUser={resolveUser}
+               />
+             )}
+           </div>
          ) : (
             // Render call content directly without a card for centered messages
              renderContent()
          )}
+         {message.reactions && currentUser && (
+           <MessageReactions
+             reactions={message.reactions}
+             currentUserId={currentUser.id}
+             resolveUser={resolveUser}
+             onToggle={onReact && (emoji => onReact(message.id, emoji))}
+           />
+         )}
          {/* Timestamp and Status (only for non-centered messages) */}
          {!centerAlign && (
              <div className="flex items-center gap-1 mt-1">
@@ -179,7 +447,25 @@ export function MessageBubble({ message, currentUser, showAvatar = true, centerA
                         {format(timestamp, 'p')}
                     </span>
                  )}
+                {message.editedAt && !message.deletedAt && (onLoadRevisions
+                  ? <EditHistoryPopover message={message} onLoadRevisions={onLoadRevisions} />
+                  : <span className="text-xs text-muted-foreground">(edited)</span>)}
                 {renderStatus()}
+                {hasError && isCurrentUser && (
+                  <>
+                    {onRetry && (
+                      <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => onRetry(message.id)}>
+                        Retry
+                      </Button>
+                    )}
+                    {onDelete && (
+                      // Never reached the server, so there's nothing to delete for everyone
+                      <Button variant="link" size="sm" className="h-auto p-0 text-xs text-destructive" onClick={() => onDelete(message.id, 'me')}>
+                        Delete
+                      </Button>
+                    )}
+                  </>
+                )}
              </div>
          )}
       </div>
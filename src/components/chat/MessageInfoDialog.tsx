@@ -0,0 +1,87 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { Message, MessageReceipt, User } from '@/types';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { format } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { UserProfile } from './UserProfile';
+
+interface MessageInfoDialogProps {
+  message: Message; // The user's own message in a group
+  isOpen: boolean;
+  onClose: () => void;
+  onLoadReceipts: (messageId: string) => Promise<MessageReceipt[] | null>;
+  resolveUser?: (userId: string) => User | undefined;
+}
+
+const formatTime = (date: Date | undefined) => (date ? format(new Date(date), 'PP p') : undefined);
+
+/** Who in the group has received and who has read a message, and when. */
+export function MessageInfoDialog({ message, isOpen, onClose, onLoadReceipts, resolveUser }: MessageInfoDialogProps) {
+  const [receipts, setReceipts] = useState<MessageReceipt[] | null>(null);
+  const [status, setStatus] = useState<'loading' | 'loaded' | 'failed'>('loading');
+
+  // Fetched again whenever the message's status changes while open, so new readers show up
+  useEffect(() => {
+    if (!isOpen) return;
+    let isCurrent = true;
+    void onLoadReceipts(message.id).then(result => {
+      if (!isCurrent) return;
+      setReceipts(result);
+      setStatus(result ? 'loaded' : 'failed');
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [isOpen, message.id, message.status, onLoadReceipts]);
+
+  const sections = [
+    { title: 'Read by', receipts: receipts?.filter(r => r.status === 'read') ?? [], time: (r: MessageReceipt) => formatTime(r.readAt) },
+    { title: 'Delivered to', receipts: receipts?.filter(r => r.status === 'delivered') ?? [], time: (r: MessageReceipt) => formatTime(r.deliveredAt) },
+    { title: 'Waiting for', receipts: receipts?.filter(r => r.status === 'sent') ?? [], time: () => undefined },
+  ];
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={open => {
+        if (open) return;
+        setStatus('loading');
+        onClose();
+      }}
+    >
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Message info</DialogTitle>
+          <DialogDescription>Sent {formatTime(message.timestamp)}</DialogDescription>
+        </DialogHeader>
+        {status === 'loading' ? (
+          <Loader2 className="mx-auto h-4 w-4 animate-spin text-muted-foreground" aria-label="Loading message info" />
+        ) : status === 'failed' ? (
+          <p className="text-sm text-destructive">Could not load who received this message.</p>
+        ) : (
+          <div className="max-h-80 space-y-4 overflow-y-auto">
+            {sections.map(section => section.receipts.length > 0 && (
+              <section key={section.title} className="space-y-2">
+                <h3 className="text-xs font-medium uppercase text-muted-foreground">{section.title}</h3>
+                <ul className="space-y-2">
+                  {section.receipts.map(receipt => {
+                    const user = resolveUser?.(receipt.userId);
+                    return (
+                      <li key={receipt.userId} className="flex items-center gap-2">
+                        {user && <UserProfile user={user} size="sm" />}
+                        <span className="flex-1 truncate text-sm">{user?.name ?? 'Former member'}</span>
+                        <span className="shrink-0 text-xs text-muted-foreground">{section.time(receipt)}</span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </section>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,384 @@
+'use client';
+
+import React, { useState, useEffect, useLayoutEffect, useRef, useMemo, useCallback, memo } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import type { Chat, Message, MessageReceipt, MessageRevision, User } from '@/types';
+import type { DeleteScope, MessagePolicy } from '@/types/socket';
+import { MessageBubble, getMediaDisplaySize } from './MessageBubble';
+import { ImageLightbox } from './ImageLightbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, ArrowDown, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { isCallEvent } from '@/lib/calls';
+import { canDeleteForEveryone, canEditMessage, canReactToMessage, canReplyToMessage } from '@/lib/messages';
+
+interface MessageListProps {
+  chat: Chat;
+  currentUser: User;
+  onLoadOlderMessages?: (chatId: string) => Promise<void>; // Fetches the previous page of history
+  policy: MessagePolicy; // How long after sending the user's messages can be edited or deleted for everyone
+  onEditMessage?: (chatId: string, messageId: string, content: string) => void;
+  onLoadMessageRevisions?: (chatId: string, messageId: string) => Promise<MessageRevision[] | null>;
+  onLoadMessageReceipts?: (chatId: string, messageId: string) => Promise<MessageReceipt[] | null>; // Who received and read the user's messages in a group
+  onDeleteMessage?: (chatId: string, messageId: string, scope: DeleteScope) => void;
+  onRetryMessage?: (chatId: string, messageId: string) => void; // Sends a message that failed to send again
+  onReply?: (messageId: string) => void; // Starts composing a reply to the message
+  onToggleReaction?: (chatId: string, messageId: string, emoji: string) => void;
+  showLinkPreviews?: boolean; // The user's setting
+  // Fetches older history until the message is loaded; resolves with whether it was found
+  onLoadMessagesUntil?: (chatId: string, messageId: string) => Promise<boolean>;
+}
+
+// Start fetching older messages when scrolled this close (in px) to the top
+const LOAD_OLDER_THRESHOLD = 80;
+// Within this distance (in px) of the bottom the user is considered to be following the conversation
+const AT_BOTTOM_THRESHOLD = 48;
+// How long (in ms) the original of a reply stays highlighted after jumping to it
+const HIGHLIGHT_DURATION_MS = 2000;
+
+// One rendered row per message. Consecutive messages from the same sender form a group;
+// a row knows its place in the group instead of rendering the whole group, so keys stay
+// stable when older messages are prepended or new ones join the last group.
+interface MessageRowData {
+  message: Message;
+  isCallEvent: boolean;
+  isGroupEnd: boolean; // Last message of its group: shows the avatar and the group spacing
+  groupHasError: boolean; // Only set on the group's last row, which shows the failure note
+}
+
+function buildRows(messages: Message[], previous: Map<string, MessageRowData>): MessageRowData[] {
+  const rows: MessageRowData[] = [];
+  let groupHasError = false;
+  for (let i = 0; i < messages.length; i++) {
+    const message = messages[i];
+    const next = messages[i + 1];
+    const callEvent = isCallEvent(message);
+    // Call events always stand alone
+    const isGroupEnd = callEvent || !next || isCallEvent(next) || next.sender?.id !== message.sender?.id;
+    groupHasError = groupHasError || !!message.error;
+    const row: MessageRowData = { message, isCallEvent: callEvent, isGroupEnd, groupHasError: isGroupEnd && groupHasError };
+    if (isGroupEnd) groupHasError = false;
+
+    // Reuse the previous row object when nothing changed so the memoized row skips rendering
+    const cached = previous.get(message.id);
+    rows.push(
+      cached &&
+        cached.message === row.message &&
+        cached.isGroupEnd === row.isGroupEnd &&
+        cached.groupHasError === row.groupHasError
+        ? cached
+        : row
+    );
+  }
+  return rows;
+}
+
+// Rough heights (in px) used until a row has been rendered and measured
+function estimateRowSize(row: MessageRowData): number {
+  const spacing = row.isGroupEnd ? 12 : 0;
+  if (row.message.deletedAt) return 64 + spacing;
+  switch (row.message.type) {
+    case 'image':
+    case 'video':
+      // Media plus the timestamp line
+      return getMediaDisplaySize(row.message).height + 28 + spacing;
+    case 'call':
+    case 'screen_share':
+      return 28 + spacing;
+    default:
+      return 64 + spacing;
+  }
+}
+
+interface MessageRowProps {
+  row: MessageRowData;
+  currentUser: User;
+  onOpenImage: (messageId: string) => void;
+  policy: MessagePolicy;
+  onEdit?: (messageId: string, content: string) => void;
+  onLoadRevisions?: (messageId: string) => Promise<MessageRevision[] | null>;
+  onDelete?: (messageId: string, scope: DeleteScope) => void;
+  onRetry?: (messageId: string) => void;
+  onReply?: (messageId: string) => void;
+  onJumpToMessage: (messageId: string) => void;
+  onReact?: (messageId: string, emoji: string) => void;
+  onLoadReceipts?: (messageId: string) => Promise<MessageReceipt[] | null>;
+  resolveUser: (userId: string) => User | undefined;
+  showLinkPreviews: boolean;
+  isHighlighted: boolean; // Just jumped to, e.g. as the original of a reply
+}
+
+const MessageRow = memo(function MessageRow({ row, currentUser, onOpenImage, policy, onEdit, onLoadRevisions, onDelete, onRetry, onReply, onJumpToMessage, onReact, onLoadReceipts, resolveUser, showLinkPreviews, isHighlighted }: MessageRowProps) {
+  return (
+    // Padding rather than margin, since margins are not part of the measured height
+    <div className={cn('flex flex-col rounded-md transition-colors duration-700', row.isGroupEnd && 'pb-3', isHighlighted && 'bg-accent/20')}>
+      <MessageBubble
+        message={row.message}
+        currentUser={currentUser}
+        // Only show avatar for the last non-call message in a consecutive block from the same sender
+        showAvatar={!row.isCallEvent && row.isGroupEnd}
+        // Center align call messages
+        centerAlign={row.isCallEvent}
+        onOpenImage={onOpenImage}
+        canEdit={canEditMessage(row.message, currentUser.id, policy)}
+        onEdit={onEdit}
+        onLoadRevisions={onLoadRevisions}
+        canDeleteForEveryone={canDeleteForEveryone(row.message, currentUser.id, policy)}
+        onDelete={onDelete}
+        onRetry={onRetry}
+        onReply={canReplyToMessage(row.message) ? onReply : undefined}
+        onJumpToMessage={onJumpToMessage}
+        onReact={canReactToMessage(row.message) ? onReact : undefined}
+        onLoadReceipts={onLoadReceipts}
+        resolveUser={resolveUser}
+        showLinkPreview={showLinkPreviews}
+      />
+      {/* Add a placeholder for messages that failed to send */}
+      {row.groupHasError && (
+        <div className="text-xs text-destructive italic flex items-center gap-1 justify-end pr-10 mt-1">
+          <AlertCircle size={14} /> Some messages failed to send.
+        </div>
+      )}
+    </div>
+  );
+});
+
+/**
+ * Windowed list of a chat's messages: only the rows in and near the viewport are mounted,
+ * which keeps chats with tens of thousands of messages responsive. Rows are measured
+ * after rendering, so images and videos can take whatever height they need.
+ * Mount it with `key={chat.id}` so that scroll state starts fresh for every chat.
+ */
+export function MessageList({ chat, currentUser, onLoadOlderMessages, policy, onEditMessage, onLoadMessageRevisions, onLoadMessageReceipts, onDeleteMessage, onRetryMessage, onReply, onLoadMessagesUntil, onToggleReaction, showLinkPreviews = true }: MessageListProps) {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const rowCacheRef = useRef(new Map<string, MessageRowData>());
+  const isAtBottomRef = useRef(true);
+  const lastMessageIdRef = useRef<string | undefined>(undefined);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [showJumpToLatest, setShowJumpToLatest] = useState(false);
+  const [unseenCount, setUnseenCount] = useState(0); // Messages received while scrolled up
+  const [lightboxMessageId, setLightboxMessageId] = useState<string | null>(null);
+  const [jumpTargetId, setJumpTargetId] = useState<string | null>(null); // To scroll to once it is loaded
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+
+  const rows = useMemo(() => {
+    const next = buildRows(chat.messages, rowCacheRef.current);
+    rowCacheRef.current = new Map(next.map(row => [row.message.id, row]));
+    return next;
+  }, [chat.messages]);
+
+  const virtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => viewportRef.current,
+    estimateSize: index => estimateRowSize(rows[index]),
+    getItemKey: index => rows[index].message.id,
+    overscan: 8,
+    // Keep the visible messages in place when rows are inserted above them (older history)
+    // or resize below them (e.g. an image finishing loading at the bottom)
+    anchorTo: 'end',
+  });
+
+  const scrollToBottom = useCallback((behavior: ScrollBehavior = 'smooth') => {
+    if (rows.length === 0) return;
+    virtualizer.scrollToIndex(rows.length - 1, { align: 'end', behavior });
+  }, [rows.length, virtualizer]);
+
+  // Start at the latest message
+  useLayoutEffect(() => {
+    scrollToBottom('auto');
+    // Only on mount; later messages are handled below
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    // Scroll to bottom when a new message arrives, but not when older history is prepended
+    // or an existing message is updated (e.g. its status)
+    const lastMessage = chat.messages[chat.messages.length - 1];
+    if (lastMessage?.id === lastMessageIdRef.current) return;
+    const isFirstRun = lastMessageIdRef.current === undefined;
+    lastMessageIdRef.current = lastMessage?.id;
+    if (isFirstRun || !lastMessage) return;
+
+    // Follow the conversation if the user is at the bottom or just sent something themselves;
+    // otherwise leave them where they are reading and count the message for the jump button
+    if (isAtBottomRef.current || lastMessage.sender?.id === currentUser.id) {
+      scrollToBottom('smooth');
+    } else {
+      setUnseenCount(count => count + 1);
+    }
+  }, [chat.messages, currentUser.id, scrollToBottom]);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleScroll = () => {
+      const distanceFromBottom = viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight;
+      const isAtBottom = distanceFromBottom <= AT_BOTTOM_THRESHOLD;
+      isAtBottomRef.current = isAtBottom;
+      setShowJumpToLatest(!isAtBottom);
+      if (isAtBottom) setUnseenCount(0);
+    };
+    viewport.addEventListener('scroll', handleScroll, { passive: true });
+    return () => viewport.removeEventListener('scroll', handleScroll);
+  }, []);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport || !onLoadOlderMessages || !chat.hasMoreMessages || isLoadingOlder) return;
+    const chatId = chat.id;
+
+    const handleScroll = () => {
+      if (viewport.scrollTop > LOAD_OLDER_THRESHOLD) return;
+      setIsLoadingOlder(true);
+      onLoadOlderMessages(chatId).finally(() => setIsLoadingOlder(false));
+    };
+
+    viewport.addEventListener('scroll', handleScroll, { passive: true });
+    // A short history may not fill the viewport, so there is nothing to scroll; check right away
+    handleScroll();
+    return () => viewport.removeEventListener('scroll', handleScroll);
+  }, [chat.id, chat.hasMoreMessages, isLoadingOlder, onLoadOlderMessages]);
+
+  // Scroll to the message as soon as it is among the rows, which may take loading older history
+  useEffect(() => {
+    if (!jumpTargetId) return;
+    const index = rows.findIndex(row => row.message.id === jumpTargetId);
+    if (index === -1) return;
+    // Smooth scrolling is unreliable while the rows on the way are still being measured
+    virtualizer.scrollToIndex(index, { align: 'center', behavior: 'auto' });
+    setHighlightedId(jumpTargetId);
+    setJumpTargetId(null);
+  }, [jumpTargetId, rows, virtualizer]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timeout = setTimeout(() => setHighlightedId(null), HIGHLIGHT_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [highlightedId]);
+
+  // Only read when naming who reacted, so the rows don't need to re-render whenever the participants are rebuilt
+  const participantsRef = useRef(chat.participants);
+  useEffect(() => {
+    participantsRef.current = chat.participants;
+  }, [chat.participants]);
+  const resolveUser = useCallback((userId: string) => participantsRef.current.find(user => user.id === userId), []);
+
+  const handleJumpToMessage = useCallback((messageId: string) => {
+    setJumpTargetId(messageId);
+    // The row cache holds exactly the loaded messages
+    if (rowCacheRef.current.has(messageId)) return;
+    if (!onLoadMessagesUntil) {
+      setJumpTargetId(null);
+      return;
+    }
+    void onLoadMessagesUntil(chat.id, messageId).then(found => {
+      if (!found) setJumpTargetId(null);
+    });
+  }, [chat.id, onLoadMessagesUntil]);
+
+  const handleOpenImage = useCallback((messageId: string) => setLightboxMessageId(messageId), []);
+  const handleLightboxLoadOlder = useMemo(
+    () => (onLoadOlderMessages ? () => onLoadOlderMessages(chat.id) : undefined),
+    [chat.id, onLoadOlderMessages]
+  );
+  const handleEdit = useMemo(
+    () => (onEditMessage ? (messageId: string, content: string) => onEditMessage(chat.id, messageId, content) : undefined),
+    [chat.id, onEditMessage]
+  );
+  const handleLoadRevisions = useMemo(
+    () => (onLoadMessageRevisions ? (messageId: string) => onLoadMessageRevisions(chat.id, messageId) : undefined),
+    [chat.id, onLoadMessageRevisions]
+  );
+  const handleDelete = useMemo(
+    () => (onDeleteMessage ? (messageId: string, scope: DeleteScope) => onDeleteMessage(chat.id, messageId, scope) : undefined),
+    [chat.id, onDeleteMessage]
+  );
+  const handleRetry = useMemo(
+    () => (onRetryMessage ? (messageId: string) => onRetryMessage(chat.id, messageId) : undefined),
+    [chat.id, onRetryMessage]
+  );
+
+  const handleReact = useMemo(
+    () => (onToggleReaction ? (messageId: string, emoji: string) => onToggleReaction(chat.id, messageId, emoji) : undefined),
+    [chat.id, onToggleReaction]
+  );
+  // Direct chats need no panel: the check marks already say whether the one recipient read it
+  const handleLoadReceipts = useMemo(
+    () => (onLoadMessageReceipts && chat.isGroup ? (messageId: string) => onLoadMessageReceipts(chat.id, messageId) : undefined),
+    [chat.id, chat.isGroup, onLoadMessageReceipts]
+  );
+
+  const handleJumpToLatest = () => {
+    setUnseenCount(0);
+    scrollToBottom('smooth');
+  };
+
+  return (
+    <div className="relative flex-1 min-h-0">
+      {/* ScrollArea takes remaining space and handles message scrolling */}
+      <ScrollArea className="h-full px-4 pt-4 pb-2" viewportRef={viewportRef}>
+        <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+          {virtualizer.getVirtualItems().map(item => (
+            <div
+              key={item.key}
+              data-index={item.index}
+              ref={virtualizer.measureElement}
+              className="absolute left-0 top-0 w-full"
+              style={{ transform: `translateY(${item.start}px)` }}
+            >
+              <MessageRow
+                row={rows[item.index]}
+                currentUser={currentUser}
+                onOpenImage={handleOpenImage}
+                policy={policy}
+                onEdit={handleEdit}
+                onLoadRevisions={handleLoadRevisions}
+                onDelete={handleDelete}
+                onRetry={handleRetry}
+                onReply={onReply}
+                onJumpToMessage={handleJumpToMessage}
+                onReact={handleReact}
+                onLoadReceipts={handleLoadReceipts}
+                resolveUser={resolveUser}
+                showLinkPreviews={showLinkPreviews}
+                isHighlighted={rows[item.index].message.id === highlightedId}
+              />
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+
+      {/* Overlaid so that it doesn't shift the messages while history loads */}
+      {(isLoadingOlder || jumpTargetId) && (
+        <div className="absolute inset-x-0 top-2 flex justify-center pointer-events-none">
+          <div className="rounded-full bg-background/90 p-1.5 shadow">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" aria-label="Loading older messages" />
+          </div>
+        </div>
+      )}
+
+      {showJumpToLatest && (
+        <Button
+          type="button"
+          size="sm"
+          variant="secondary"
+          className="absolute bottom-4 right-6 rounded-full shadow-md"
+          onClick={handleJumpToLatest}
+          aria-label="Jump to latest message"
+        >
+          <ArrowDown className="h-4 w-4" />
+          {unseenCount > 0 && <span>{unseenCount > 99 ? '99+' : unseenCount} new</span>}
+        </Button>
+      )}
+
+      <ImageLightbox
+        messages={chat.messages}
+        openMessageId={lightboxMessageId}
+        onOpenMessageIdChange={setLightboxMessageId}
+        hasMoreMessages={chat.hasMoreMessages}
+        onLoadOlderMessages={handleLightboxLoadOlder}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import type { MessageReaction, User } from '@/types';
+import { cn } from '@/lib/utils';
+import { getReactorsLabel } from '@/lib/reactions';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+
+interface MessageReactionsProps {
+  reactions: MessageReaction[];
+  currentUserId: string;
+  resolveUser?: (userId: string) => User | undefined;
+  onToggle?: (emoji: string) => void; // Unset when the message can't be reacted to
+}
+
+/** One chip per emoji under a message, with how many reacted; hovering a chip tells who. */
+export function MessageReactions({ reactions, currentUserId, resolveUser = () => undefined, onToggle }: MessageReactionsProps) {
+  return (
+    <TooltipProvider delayDuration={300}>
+      <div className="mt-1 flex flex-wrap gap-1">
+        {reactions.map(reaction => {
+          const isOwn = reaction.userIds.includes(currentUserId);
+          return (
+            <Tooltip key={reaction.emoji}>
+              <TooltipTrigger asChild>
+                <button
+                  type="button"
+                  onClick={onToggle && (() => onToggle(reaction.emoji))}
+                  // Not `disabled`, which would also keep the tooltip from opening
+                  aria-disabled={!onToggle}
+                  className={cn(
+                    'flex items-center gap-1 rounded-full border bg-background px-2 py-0.5 text-xs shadow-sm transition-colors aria-disabled:cursor-default',
+                    isOwn ? 'border-primary bg-primary/10' : onToggle && 'hover:bg-muted'
+                  )}
+                  aria-pressed={isOwn}
+                  aria-label={`${reaction.emoji} ${reaction.userIds.length}`}
+                >
+                  <span className="text-sm leading-none">{reaction.emoji}</span>
+                  <span className="tabular-nums text-muted-foreground">{reaction.userIds.length}</span>
+                </button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p className="text-xs">
+                  {getReactorsLabel(reaction, currentUserId, resolveUser)} reacted with {reaction.emoji}
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          );
+        })}
+      </div>
+    </TooltipProvider>
+  );
+}
@@ -123,7 +123,7 @@ export function NewGroupModal({ isOpen, onClose, users, onCreateGroup }: NewGrou
                          {user.name}
                        </Label>
                       </div>
-                     {user.isOnline && <span className="h-2 w-2 rounded-full bg-accent" title="Online"></span>}
+                     {user.presence === 'online' && <span className="h-2 w-2 rounded-full bg-accent" title="Online"></span>}
                    </div>
                  ))
               ) : (
@@ -0,0 +1,38 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { QUICK_REACTIONS } from '@/lib/reactions';
+
+interface ReactionPickerProps {
+  children: ReactNode; // The trigger
+  align: 'start' | 'end';
+  open: boolean;
+  onOpenChange?: (open: boolean) => void;
+  onSelect: (emoji: string) => void;
+}
+
+/** Row of emojis to react to a message with, opened from its trigger. */
+export function ReactionPicker({ children, align, open, onOpenChange, onSelect }: ReactionPickerProps) {
+  return (
+    <Popover open={open} onOpenChange={onOpenChange}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent side="top" align={align} className="flex w-auto gap-0.5 rounded-full p-1">
+        {QUICK_REACTIONS.map(emoji => (
+          <button
+            key={emoji}
+            type="button"
+            className="rounded-full p-1.5 text-xl leading-none transition-transform hover:scale-125 hover:bg-accent/20 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            onClick={() => {
+              onSelect(emoji);
+              onOpenChange?.(false);
+            }}
+            aria-label={`React with ${emoji}`}
+          >
+            {emoji}
+          </button>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
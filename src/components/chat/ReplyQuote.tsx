@@ -0,0 +1,34 @@
+'use client';
+
+import type { QuotedMessage } from '@/types';
+import { cn } from '@/lib/utils';
+import { getQuoteSnippet } from '@/lib/messages';
+
+interface ReplyQuoteProps {
+  quote: QuotedMessage;
+  currentUserId: string | null | undefined;
+  onClick?: () => void; // Makes the quote a button, e.g. to scroll to the original
+  className?: string;
+}
+
+/** Compact quote of the message a reply answers: who wrote it and its first line. */
+export function ReplyQuote({ quote, currentUserId, onClick, className }: ReplyQuoteProps) {
+  const senderName = quote.sender.id === currentUserId ? 'You' : quote.sender.name;
+  const content = (
+    <>
+      <span className="block truncate text-xs font-semibold">{senderName}</span>
+      <span className={cn('block truncate text-xs opacity-80', quote.deletedAt && 'italic')}>
+        {getQuoteSnippet(quote, currentUserId)}
+      </span>
+    </>
+  );
+  const classes = cn('block w-full min-w-0 rounded border-l-4 border-accent bg-black/5 px-2 py-1 text-left dark:bg-white/10', className);
+
+  return onClick ? (
+    <button type="button" onClick={onClick} className={cn(classes, 'hover:bg-black/10 dark:hover:bg-white/15')} aria-label={`Go to the message from ${senderName}`}>
+      {content}
+    </button>
+  ) : (
+    <div className={classes}>{content}</div>
+  );
+}
@@ -0,0 +1,45 @@
+'use client';
+
+import type { UserSettings } from '@/types/socket';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Settings } from 'lucide-react';
+
+interface SettingsMenuProps {
+  settings: UserSettings;
+  onChange: (changes: Partial<UserSettings>) => void;
+  className?: string; // Of the trigger
+}
+
+/** The user's preferences, saved on the server so they apply on every device. */
+export function SettingsMenu({ settings, onChange, className }: SettingsMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className={className} title="Settings">
+          <Settings className="h-5 w-5" />
+          <span className="sr-only">Settings</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Settings</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={settings.linkPreviews}
+          onCheckedChange={checked => onChange({ linkPreviews: checked })}
+          // Keep the menu open, so the change can be seen
+          onSelect={event => event.preventDefault()}
+        >
+          Show link previews
+        </DropdownMenuCheckboxItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
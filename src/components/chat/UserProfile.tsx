@@ -33,13 +33,14 @@ export function UserProfile({ user, size = 'md', showName = false, className }:
            <AvatarImage src={user.avatarUrl} alt={user.name} data-ai-hint="profile picture"/>
            <AvatarFallback>{fallback}</AvatarFallback>
         </Avatar>
-        {user.isOnline && (
+        {user.presence !== 'offline' && (
            <span
               className={cn(
-                'absolute rounded-full bg-accent ring-2 ring-background',
+                'absolute rounded-full ring-2 ring-background',
+                user.presence === 'away' ? 'bg-yellow-500' : 'bg-accent',
                 statusSizeClass
               )}
-              title="Online"
+              title={user.presence === 'away' ? 'Away' : 'Online'}
             />
         )}
       </div>
@@ -0,0 +1,119 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import type { Message } from '@/types';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Maximize2, Play } from 'lucide-react';
+import { format } from 'date-fns';
+import { useCachedMedia } from '@/hooks/use-cached-media';
+
+interface VideoMessageProps {
+  message: Message;
+  src: string;
+  width: number;
+  height: number;
+  children?: React.ReactNode; // Overlays such as upload progress
+}
+
+/** Formats a duration as m:ss, or h:mm:ss for an hour or more. */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+/**
+ * A video in a message bubble: the poster frame with its duration until played, then an
+ * inline player with native controls. The expand button continues playback in a full-screen viewer.
+ */
+export function VideoMessage({ message, src, width, height, children }: VideoMessageProps) {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isViewerOpen, setIsViewerOpen] = useState(false);
+  const [viewerStartTime, setViewerStartTime] = useState(0);
+  const inlineVideoRef = useRef<HTMLVideoElement>(null);
+  const { posterUrl, durationMs } = message.media ?? {};
+  const cachedPosterUrl = useCachedMedia(posterUrl);
+
+  const openViewer = () => {
+    // Pick up where the inline player was, and don't play both at once
+    const inline = inlineVideoRef.current;
+    setViewerStartTime(inline?.currentTime ?? 0);
+    inline?.pause();
+    setIsViewerOpen(true);
+  };
+
+  return (
+    <div className="relative max-w-full bg-black rounded-md overflow-hidden" style={{ width, height }}>
+      {isPlaying ? (
+        <video
+          ref={inlineVideoRef}
+          src={src}
+          poster={cachedPosterUrl}
+          controls
+          autoPlay
+          playsInline
+          className="h-full w-full object-contain"
+        />
+      ) : (
+        <button
+          type="button"
+          className="group relative flex h-full w-full items-center justify-center"
+          onClick={() => setIsPlaying(true)}
+          aria-label="Play video"
+        >
+          {posterUrl ? (
+            // eslint-disable-next-line @next/next/no-img-element -- Served as-is by the chat server
+            <img src={cachedPosterUrl} alt="" className="h-full w-full object-contain" loading="lazy" />
+          ) : (
+            // No poster (still uploading, or an older message): let the browser show the first frame
+            <video src={src} preload="metadata" muted playsInline className="h-full w-full object-contain" />
+          )}
+          <span className="absolute flex h-12 w-12 items-center justify-center rounded-full bg-black/60 text-white transition-transform group-hover:scale-110">
+            <Play className="h-6 w-6 translate-x-0.5" fill="currentColor" />
+          </span>
+          {durationMs !== undefined && (
+            <span className="absolute bottom-1 right-1 text-white text-xs bg-black/50 px-1 rounded tabular-nums">
+              {formatDuration(durationMs)}
+            </span>
+          )}
+        </button>
+      )}
+
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        className="absolute right-1 top-1 h-7 w-7 bg-black/40 text-white hover:bg-black/60 hover:text-white"
+        onClick={openViewer}
+        aria-label="Open video full screen"
+      >
+        <Maximize2 className="h-4 w-4" />
+      </Button>
+      {children}
+
+      <Dialog open={isViewerOpen} onOpenChange={setIsViewerOpen}>
+        <DialogContent className="flex h-[95vh] max-w-[95vw] items-center justify-center border-0 bg-black p-0 text-white sm:rounded-none">
+          <DialogTitle className="sr-only">
+            Video from {message.sender?.name ?? 'Unknown User'}, {format(new Date(message.timestamp), 'PPp')}
+          </DialogTitle>
+          {isViewerOpen && (
+            <video
+              src={src}
+              poster={cachedPosterUrl}
+              controls
+              autoPlay
+              playsInline
+              className="max-h-full max-w-full"
+              onLoadedMetadata={e => {
+                e.currentTarget.currentTime = viewerStartTime;
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
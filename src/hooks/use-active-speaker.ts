@@ -0,0 +1,58 @@
+import * as React from "react"
+
+// Loudness (RMS of the waveform, 0-1) above which someone counts as speaking
+const SPEAKING_LEVEL = 0.02
+const SAMPLE_INTERVAL_MS = 200
+// Keeps the highlight on the last speaker through short pauses, so it doesn't flicker between words
+const HOLD_MS = 1200
+
+/** The key of whoever is speaking loudest among `streams` (e.g. user IDs), or null while everyone is quiet. */
+export function useActiveSpeaker(streams: Record<string, MediaStream>): string | null {
+  const [activeSpeaker, setActiveSpeaker] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    const entries = Object.entries(streams).filter(([, stream]) => stream.getAudioTracks().length > 0)
+    if (entries.length === 0 || typeof AudioContext === "undefined") {
+      setActiveSpeaker(null)
+      return
+    }
+
+    const context = new AudioContext()
+    const analysers = entries.map(([key, stream]) => {
+      const analyser = context.createAnalyser()
+      analyser.fftSize = 512
+      context.createMediaStreamSource(stream).connect(analyser)
+      return { key, analyser, samples: new Float32Array(analyser.fftSize) }
+    })
+
+    let lastSpokeAt = 0
+    const timer = setInterval(() => {
+      let loudest: string | null = null
+      let loudestLevel = SPEAKING_LEVEL
+      for (const { key, analyser, samples } of analysers) {
+        analyser.getFloatTimeDomainData(samples)
+        let sum = 0
+        for (const sample of samples) sum += sample * sample
+        const level = Math.sqrt(sum / samples.length)
+        if (level > loudestLevel) {
+          loudest = key
+          loudestLevel = level
+        }
+      }
+      const now = Date.now()
+      if (loudest !== null) {
+        lastSpokeAt = now
+        setActiveSpeaker(loudest)
+      } else if (now - lastSpokeAt > HOLD_MS) {
+        setActiveSpeaker(null)
+      }
+    }, SAMPLE_INTERVAL_MS)
+
+    return () => {
+      clearInterval(timer)
+      void context.close()
+    }
+  }, [streams])
+
+  return activeSpeaker
+}
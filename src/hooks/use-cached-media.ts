@@ -0,0 +1,36 @@
+import * as React from "react"
+
+import { getCachedMedia, isCacheableMediaUrl } from "@/lib/media-cache"
+
+/**
+ * A URL to show the file at `url` with, served from the local media cache and downloaded into it
+ * on first use. Undefined while it loads. Falls back on `url` itself when the file can't be loaded.
+ */
+export function useCachedMedia(url: string | undefined) {
+  const [loaded, setLoaded] = React.useState<{ url: string; src: string }>()
+  const isCacheable = !!url && isCacheableMediaUrl(url)
+
+  React.useEffect(() => {
+    if (!url || !isCacheable) return
+    let cancelled = false
+    let objectUrl: string | undefined
+    getCachedMedia(url).then(
+      (blob) => {
+        if (cancelled) return
+        objectUrl = URL.createObjectURL(blob)
+        setLoaded({ url, src: objectUrl })
+      },
+      (error) => {
+        console.warn(`Could not load ${url}:`, error)
+        if (!cancelled) setLoaded({ url, src: url })
+      }
+    )
+    return () => {
+      cancelled = true
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+    }
+  }, [url, isCacheable])
+
+  if (!isCacheable) return url
+  return loaded?.url === url ? loaded.src : undefined
+}
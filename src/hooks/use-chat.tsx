@@ -0,0 +1,103 @@
+"use client"
+
+import * as React from "react"
+
+import type { Call, Chat, User } from "@/types"
+import type { ChatClient, ChatClientEvents } from "@/lib/chat/chat-client"
+import type { CallState } from "@/lib/chat/call-client"
+import {
+  selectCalls,
+  selectChat,
+  selectChats,
+  selectCurrentUser,
+  selectTypingUsers,
+  selectUsers,
+  type ChatState,
+} from "@/lib/chat/chat-store"
+
+const ChatClientContext = React.createContext<ChatClient | null>(null)
+
+export function ChatClientProvider({
+  client,
+  children,
+}: {
+  client: ChatClient
+  children: React.ReactNode
+}) {
+  return (
+    <ChatClientContext.Provider value={client}>
+      {children}
+    </ChatClientContext.Provider>
+  )
+}
+
+export function useChatClient(): ChatClient {
+  const client = React.useContext(ChatClientContext)
+  if (!client) {
+    throw new Error("useChatClient must be used within a ChatClientProvider.")
+  }
+  return client
+}
+
+/** Subscribes to the whole chat state; prefer the narrower hooks below in components. */
+export function useChatState(): ChatState {
+  const client = useChatClient()
+  return React.useSyncExternalStore(client.subscribe, client.getState, client.getState)
+}
+
+export function useCurrentUser(): User | null {
+  const state = useChatState()
+  return selectCurrentUser(state)
+}
+
+export function useChats(): Chat[] {
+  const state = useChatState()
+  return React.useMemo(() => selectChats(state), [state])
+}
+
+export function useChat(chatId: string | null): Chat | undefined {
+  const state = useChatState()
+  return React.useMemo(
+    () => (chatId ? selectChat(state, chatId) : undefined),
+    [state, chatId]
+  )
+}
+
+export function useUsers(): User[] {
+  const state = useChatState()
+  return React.useMemo(() => selectUsers(state), [state.userIds, state.users])
+}
+
+/** The user's recent calls across all chats, newest first. */
+export function useCalls(): Call[] {
+  const state = useChatState()
+  return React.useMemo(() => selectCalls(state), [state.callIds, state.calls])
+}
+
+/** Chat ID -> the other participants typing in it. */
+export function useTypingUsers(): Record<string, User[]> {
+  const state = useChatState()
+  return React.useMemo(() => selectTypingUsers(state), [state.typing, state.users])
+}
+
+/** Subscribes to the current call: its phase, media streams and controls state. */
+export function useCallState(): CallState {
+  const { calls } = useChatClient()
+  return React.useSyncExternalStore(calls.subscribe, calls.getState, calls.getState)
+}
+
+/** Listens to one-off client events such as notices (toasts) for the lifetime of the component. */
+export function useChatClientEvent<E extends keyof ChatClientEvents>(
+  event: E,
+  listener: ChatClientEvents[E]
+) {
+  const client = useChatClient()
+  const listenerRef = React.useRef(listener)
+  listenerRef.current = listener
+
+  React.useEffect(() => {
+    const handler = ((...args: Parameters<ChatClientEvents[E]>) =>
+      (listenerRef.current as (...a: typeof args) => void)(...args)) as ChatClientEvents[E]
+    return client.on(event, handler)
+  }, [client, event])
+}
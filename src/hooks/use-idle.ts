@@ -0,0 +1,30 @@
+import * as React from "react"
+
+const ACTIVITY_EVENTS = ["pointermove", "pointerdown", "keydown", "wheel", "touchstart", "focus"] as const
+
+/** True once the page hasn't been used for `timeoutMs`, which includes the time it spends hidden. */
+export function useIdle(timeoutMs: number) {
+  const [isIdle, setIsIdle] = React.useState(false)
+
+  React.useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const onActivity = () => {
+      setIsIdle(false)
+      clearTimeout(timer)
+      timer = setTimeout(() => setIsIdle(true), timeoutMs)
+    }
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "visible") onActivity()
+    }
+    onActivity()
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, onActivity, { passive: true }))
+    document.addEventListener("visibilitychange", onVisibilityChange)
+    return () => {
+      clearTimeout(timer)
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, onActivity))
+      document.removeEventListener("visibilitychange", onVisibilityChange)
+    }
+  }, [timeoutMs])
+
+  return isIdle
+}
@@ -0,0 +1,92 @@
+import { authErrorSchema, authSessionSchema, type AuthSession, type Credentials } from '@/types/auth';
+import { formatZodError } from '@/types/socket';
+import { SERVER_URL } from '@/lib/socket';
+
+const SESSION_STORAGE_KEY = 'chatterbox.session';
+
+async function request(path: string, init: RequestInit & { token?: string } = {}): Promise<Response> {
+  const { token, headers, ...rest } = init;
+  return fetch(`${SERVER_URL}${path}`, {
+    ...rest,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...headers,
+    },
+  });
+}
+
+async function parseSession(response: Response): Promise<AuthSession> {
+  const body: unknown = await response.json().catch(() => null);
+  if (!response.ok) {
+    const error = authErrorSchema.safeParse(body);
+    throw new Error(error.success ? error.data.error : `Request failed (${response.status}).`);
+  }
+  const session = authSessionSchema.safeParse(body);
+  if (!session.success) throw new Error(`Invalid session from server: ${formatZodError(session.error)}`);
+  return session.data;
+}
+
+export function saveSession(session: AuthSession) {
+  localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+}
+
+export function clearSession() {
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+}
+
+function loadStoredSession(): AuthSession | null {
+  try {
+    const parsed = authSessionSchema.safeParse(JSON.parse(localStorage.getItem(SESSION_STORAGE_KEY) ?? 'null'));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function register(credentials: Credentials): Promise<AuthSession> {
+  const session = await parseSession(await request('/auth/register', { method: 'POST', body: JSON.stringify(credentials) }));
+  saveSession(session);
+  return session;
+}
+
+export async function login(credentials: Credentials): Promise<AuthSession> {
+  const session = await parseSession(await request('/auth/login', { method: 'POST', body: JSON.stringify(credentials) }));
+  saveSession(session);
+  return session;
+}
+
+/**
+ * Re-validates the session saved by a previous login with the server.
+ * Returns null (and forgets the session) if there is none or it was revoked/expired.
+ * While the server can't be reached, the saved session is used as long as it hasn't expired,
+ * so the cached chats can be shown offline; the socket handshake checks it once back online.
+ */
+export async function restoreSession(): Promise<AuthSession | null> {
+  const stored = loadStoredSession();
+  if (!stored) return null;
+  let response: Response;
+  try {
+    response = await request('/auth/session', { token: stored.token });
+  } catch (error) {
+    console.warn('Could not reach the server to restore the session:', error);
+    return new Date(stored.expiresAt) > new Date() ? stored : null;
+  }
+  try {
+    const session = await parseSession(response);
+    saveSession(session);
+    return session;
+  } catch (error) {
+    console.warn('Could not restore session:', error);
+    clearSession();
+    return null;
+  }
+}
+
+/** Revokes the token on the server (best effort) and forgets it locally. */
+export async function logout(token: string): Promise<void> {
+  clearSession();
+  await request('/auth/logout', { method: 'POST', token }).catch(error => {
+    console.warn('Logout request failed:', error);
+  });
+}
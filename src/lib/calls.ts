@@ -0,0 +1,49 @@
+import type { Call, Message, ScreenShare } from '@/types';
+
+/** Whether the message records something that happened in a call rather than something said. */
+export function isCallEvent(message: Message): boolean {
+  return message.type === 'call' || message.type === 'screen_share';
+}
+
+/** How long the call lasted once answered, or undefined if it never was (or is still going on). */
+export function getCallDurationMs(call: Call): number | undefined {
+  if (!call.answeredAt || !call.endedAt) return undefined;
+  return Math.max(new Date(call.endedAt).getTime() - new Date(call.answeredAt).getTime(), 0);
+}
+
+/** Whether the user was called and never picked up, short of declining. */
+export function isMissedCall(call: Call, userId: string | null | undefined): boolean {
+  return (
+    !!call.outcome &&
+    call.outcome !== 'declined' &&
+    call.initiatorId !== userId &&
+    !call.participantIds.includes(userId ?? '')
+  );
+}
+
+/** One-line summary of a call from the user's point of view, e.g. "Missed video call". */
+export function getCallLabel(call: Call, userId: string | null | undefined): string {
+  const kind = call.type === 'video' ? 'video call' : 'call';
+  if (isMissedCall(call, userId)) return `Missed ${kind}`;
+  switch (call.outcome) {
+    case 'completed':
+      return call.type === 'video' ? 'Video call' : 'Audio call';
+    case 'missed':
+      return 'No answer';
+    case 'declined':
+      return `Declined ${kind}`;
+    case 'cancelled':
+      return `Cancelled ${kind}`;
+    default:
+      return `Ongoing ${kind}`;
+  }
+}
+
+export function getScreenShareDurationMs(share: ScreenShare): number {
+  return Math.max(new Date(share.endedAt).getTime() - new Date(share.startedAt).getTime(), 0);
+}
+
+/** E.g. "Ann shared their screen", or "You shared your screen" for the user's own. */
+export function getScreenShareLabel(message: Message, userId: string | null | undefined): string {
+  return message.sender.id === userId ? 'You shared your screen' : `${message.sender.name || 'Someone'} shared their screen`;
+}
@@ -0,0 +1,396 @@
+import type { CallEndReason, CallInfo, CallMediaState, CallSignal, CallType } from '@/types/call';
+import { callAckSchema, startCallAckSchema } from '@/types/call';
+import type { ServerToClientEvents } from '@/types/socket';
+import { validatedAck, type ChatSocket } from '@/lib/socket';
+import type { ChatNotice } from './chat-client';
+import { createMeshTopology, type CallTopology, type CallTopologyFactory } from './call-topology';
+
+// outgoing: ringing the others; incoming: being rung; connecting: answered, setting up media
+export type CallPhase = 'idle' | 'outgoing' | 'incoming' | 'connecting' | 'connected';
+
+export interface CallState {
+  phase: CallPhase;
+  chatId: string | null;
+  call: CallInfo | null; // Null while an outgoing call is waiting for the server
+  type: CallType | null;
+  localStream: MediaStream | null;
+  remoteStreams: Record<string, MediaStream>; // userId -> what they send
+  remoteMedia: Record<string, CallMediaState>; // userId -> whether their microphone and camera are on
+  screenStream: MediaStream | null; // Our screen, while we present it
+  remoteScreen: MediaStream | null; // The screen someone else is presenting
+  isMuted: boolean;
+  isCameraOff: boolean;
+  connectedAt: number | null; // Epoch ms when media started flowing, for the call timer
+  activeCalls: Record<string, CallInfo>; // chatId -> call going on in that chat, joined or not
+}
+
+/** Whether the browser can capture the screen, which most mobile ones can't. */
+export function canShareScreen(): boolean {
+  return typeof navigator !== 'undefined' && typeof navigator.mediaDevices?.getDisplayMedia === 'function';
+}
+
+export const initialCallState: CallState = {
+  phase: 'idle',
+  chatId: null,
+  call: null,
+  type: null,
+  localStream: null,
+  remoteStreams: {},
+  remoteMedia: {},
+  screenStream: null,
+  remoteScreen: null,
+  isMuted: false,
+  isCameraOff: false,
+  connectedAt: null,
+  activeCalls: {},
+};
+
+export type CallStateListener = (state: CallState) => void;
+
+type CallEvent = 'call_updated' | 'call_accepted' | 'call_participant_left' | 'call_ended' | 'call_signal' | 'call_media_state';
+type ValidatedOn = <E extends CallEvent>(event: E, handler: ServerToClientEvents[E]) => void;
+
+export interface CallClientOptions {
+  getSocket: () => ChatSocket | null;
+  getCurrentUserId: () => string | null;
+  notify: (notice: ChatNotice) => void;
+  createTopology?: CallTopologyFactory; // Defaults to a full mesh
+}
+
+const END_NOTICES: Partial<Record<CallEndReason, ChatNotice>> = {
+  declined: { title: 'Call Declined' },
+  missed: { title: 'No Answer', description: 'The call was not answered.' },
+};
+
+/**
+ * One call at a time over WebRTC, in direct chats and small groups. How media travels is up to
+ * the call's topology (a full mesh by default); signaling goes through the chat socket, where
+ * everyone already in the call sends each newcomer an offer once the server reports that they joined.
+ * Calls going on in the user's other chats are tracked too, so they can be joined later.
+ */
+export class CallClient {
+  private state: CallState = initialCallState;
+  private listeners = new Set<CallStateListener>();
+  private topology: CallTopology | null = null;
+
+  constructor(private readonly options: CallClientOptions) {}
+
+  getState = (): CallState => this.state;
+
+  subscribe = (listener: CallStateListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private setState(changes: Partial<CallState>) {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+
+  /** Wires the call events of a new connection; `on` validates payloads like the chat events. */
+  registerListeners(on: ValidatedOn) {
+    on('call_updated', call => {
+      this.setState({ activeCalls: { ...this.state.activeCalls, [call.chatId]: call } });
+      const currentUserId = this.options.getCurrentUserId();
+      const isRinging = !!currentUserId && call.ringingIds.includes(currentUserId);
+      const { phase } = this.state;
+      if (this.state.call?.id === call.id) {
+        const { remoteScreen } = this.state;
+        // Answered on another device, declined there, or nobody is ringing anymore
+        if (phase === 'incoming' && !isRinging) this.cleanUp();
+        // The presenter stopped, or someone else took over
+        else if (remoteScreen && call.screenShare?.streamId !== remoteScreen.id) this.setState({ call, remoteScreen: null });
+        else this.setState({ call });
+      } else if (phase === 'idle' && isRinging) {
+        this.setState({ phase: 'incoming', chatId: call.chatId, call, type: call.type });
+      }
+    });
+
+    on('call_accepted', (callId, userId) => {
+      if (this.state.call?.id !== callId || !this.topology) return;
+      if (this.state.phase === 'outgoing') this.setState({ phase: 'connecting' });
+      this.topology.connect(userId);
+    });
+
+    on('call_participant_left', (callId, userId) => {
+      if (this.state.call?.id !== callId) return;
+      this.dropParticipant(userId);
+    });
+
+    on('call_signal', (callId, fromUserId, signal) => {
+      if (this.state.call?.id !== callId) return;
+      this.topology?.handleSignal(fromUserId, signal);
+    });
+
+    on('call_media_state', (callId, userId, mediaState) => {
+      if (this.state.call?.id !== callId) return;
+      this.setState({ remoteMedia: { ...this.state.remoteMedia, [userId]: mediaState } });
+    });
+
+    on('call_ended', (callId, reason) => {
+      const activeCalls = { ...this.state.activeCalls };
+      for (const [chatId, call] of Object.entries(activeCalls)) {
+        if (call.id === callId) delete activeCalls[chatId];
+      }
+      this.setState({ activeCalls });
+      if (this.state.call?.id !== callId) return;
+      const notice = END_NOTICES[reason];
+      // Only the caller learns that their call was declined or went unanswered
+      if (notice && this.state.call.callerId === this.options.getCurrentUserId()) this.options.notify(notice);
+      this.cleanUp();
+    });
+  }
+
+  // --- Actions ---
+
+  /**
+   * Rings everyone else in the chat, after getting access to the camera and microphone.
+   * With `shareScreen`, the call opens with the user's screen presented to whoever joins.
+   */
+  async start(chatId: string, type: CallType, { shareScreen = false }: { shareScreen?: boolean } = {}) {
+    const socket = this.options.getSocket();
+    if (!socket || this.state.phase !== 'idle') return;
+    this.setState({ phase: 'outgoing', chatId, type });
+    // Browsers only let a click open the screen picker, so it has to come before anything else awaited
+    const screenStream = shareScreen ? await this.openScreen() : null;
+    const localStream = shareScreen && !screenStream ? null : await this.openLocalMedia(type);
+    // Hung up while waiting for the camera
+    if (!localStream || this.getState().phase !== 'outgoing') {
+      localStream?.getTracks().forEach(track => track.stop());
+      screenStream?.getTracks().forEach(track => track.stop());
+      this.cleanUp();
+      return;
+    }
+    this.useLocalStream(localStream);
+
+    socket.emit('start_call', chatId, type, validatedAck(startCallAckSchema, 'start_call', ack => {
+      if (ack.success && 'call' in ack && ack.call) {
+        // Hung up before the server answered
+        if (this.state.phase !== 'outgoing') {
+          screenStream?.getTracks().forEach(track => track.stop());
+          socket.emit('end_call', ack.call.id);
+          return;
+        }
+        this.setState({ call: ack.call });
+        if (screenStream) this.presentScreen(screenStream);
+      } else {
+        screenStream?.getTracks().forEach(track => track.stop());
+        this.options.notify({ title: 'Call Failed', description: ack.error || 'Could not start the call.', variant: 'destructive' });
+        this.cleanUp();
+      }
+    }));
+  }
+
+  /** Answers the ringing call. Everyone already in it then sends an offer. */
+  async accept() {
+    const { call, phase } = this.state;
+    if (!call || phase !== 'incoming') return;
+    await this.enter(call);
+  }
+
+  /** Joins the call going on in a group chat without having been rung for it. */
+  async join(chatId: string) {
+    const call = this.state.activeCalls[chatId];
+    if (!call || this.state.phase !== 'idle') return;
+    await this.enter(call);
+  }
+
+  decline() {
+    const { call } = this.state;
+    if (call) this.options.getSocket()?.emit('decline_call', call.id);
+    this.cleanUp();
+  }
+
+  /** Leaves the call, or cancels it while it is still ringing. */
+  hangUp() {
+    const { call } = this.state;
+    if (call) this.options.getSocket()?.emit('end_call', call.id);
+    this.cleanUp();
+  }
+
+  toggleMute() {
+    const isMuted = !this.state.isMuted;
+    this.state.localStream?.getAudioTracks().forEach(track => (track.enabled = !isMuted));
+    this.setState({ isMuted });
+    this.sendMediaState();
+  }
+
+  toggleCamera() {
+    if (this.state.type !== 'video') return;
+    const isCameraOff = !this.state.isCameraOff;
+    this.state.localStream?.getVideoTracks().forEach(track => (track.enabled = !isCameraOff));
+    this.setState({ isCameraOff });
+    this.sendMediaState();
+  }
+
+  /** Presents the user's screen to everyone in the call, in place of their camera. */
+  async shareScreen() {
+    const { call, phase, screenStream } = this.state;
+    if (!call || phase === 'idle' || phase === 'incoming' || screenStream) return;
+    const stream = await this.openScreen();
+    if (!stream) return;
+    if (this.state.call?.id !== call.id) {
+      // The call ended while the picker was open
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    this.presentScreen(stream);
+  }
+
+  stopScreenShare() {
+    const { call, screenStream } = this.state;
+    if (!screenStream) return;
+    this.topology?.setScreenStream(null);
+    screenStream.getTracks().forEach(track => track.stop());
+    this.setState({ screenStream: null });
+    if (call) this.options.getSocket()?.emit('stop_screen_share', call.id);
+  }
+
+  /**
+   * Drops the call and forgets the calls in other chats without telling the server, which
+   * hangs up calls of disconnected sockets itself and reports ongoing ones on reconnect.
+   */
+  reset() {
+    this.cleanUp();
+    this.setState({ activeCalls: {} });
+  }
+
+  // --- WebRTC ---
+
+  private async enter(call: CallInfo) {
+    const socket = this.options.getSocket();
+    if (!socket) return;
+    this.setState({ phase: 'connecting', chatId: call.chatId, call, type: call.type });
+    const localStream = await this.openLocalMedia(call.type);
+    if (this.state.call?.id !== call.id) {
+      // The call ended while we were waiting for the camera
+      localStream?.getTracks().forEach(track => track.stop());
+      return;
+    }
+    if (!localStream) {
+      this.decline();
+      return;
+    }
+    this.useLocalStream(localStream);
+
+    socket.emit('accept_call', call.id, validatedAck(callAckSchema, 'accept_call', ack => {
+      if (ack.success) return;
+      this.options.notify({ title: 'Call Unavailable', description: ack.error || 'Could not join the call.', variant: 'destructive' });
+      this.cleanUp();
+    }));
+  }
+
+  private async openLocalMedia(type: CallType): Promise<MediaStream | null> {
+    try {
+      return await navigator.mediaDevices.getUserMedia({ audio: true, video: type === 'video' });
+    } catch (error) {
+      console.error('Could not access camera or microphone:', error);
+      const description = error instanceof DOMException && error.name === 'NotAllowedError'
+        ? `Allow access to your ${type === 'video' ? 'camera and microphone' : 'microphone'} to make calls.`
+        : `No ${type === 'video' ? 'camera or microphone' : 'microphone'} is available.`;
+      this.options.notify({ title: 'Call Failed', description, variant: 'destructive' });
+      return null;
+    }
+  }
+
+  private async openScreen(): Promise<MediaStream | null> {
+    try {
+      return await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+    } catch (error) {
+      // Closing the picker without choosing a screen is not worth a notice
+      if (error instanceof DOMException && error.name === 'NotAllowedError') return null;
+      console.error('Could not capture the screen:', error);
+      this.options.notify({ title: 'Screen Sharing Failed', description: 'Your screen could not be captured.', variant: 'destructive' });
+      return null;
+    }
+  }
+
+  // The server announces the stream first, so the others can tell it apart from our camera when it arrives
+  private presentScreen(stream: MediaStream) {
+    const { call } = this.state;
+    const socket = this.options.getSocket();
+    if (!call || !socket) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    socket.emit('start_screen_share', call.id, stream.id, validatedAck(callAckSchema, 'start_screen_share', ack => {
+      if (!ack.success || this.state.call?.id !== call.id) {
+        stream.getTracks().forEach(track => track.stop());
+        if (!ack.success) {
+          this.options.notify({ title: 'Screen Sharing Failed', description: ack.error || 'Could not share your screen.', variant: 'destructive' });
+        }
+        return;
+      }
+      // Covers the browser's own "Stop sharing" control
+      stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+        if (this.state.screenStream === stream) this.stopScreenShare();
+      });
+      this.setState({ screenStream: stream });
+      this.topology?.setScreenStream(stream);
+    }));
+  }
+
+  private useLocalStream(localStream: MediaStream) {
+    this.setState({ localStream });
+    const createTopology = this.options.createTopology ?? createMeshTopology;
+    this.topology = createTopology(localStream, {
+      sendSignal: (toUserId, signal) => this.sendSignal(toUserId, signal),
+      onRemoteStream: (userId, stream) => {
+        const share = this.state.call?.screenShare;
+        if (share?.userId === userId && share.streamId === stream.id) this.setState({ remoteScreen: stream });
+        else this.setState({ remoteStreams: { ...this.state.remoteStreams, [userId]: stream } });
+      },
+      onConnectionStateChange: (userId, connectionState) => this.handleConnectionState(userId, connectionState),
+    });
+  }
+
+  private handleConnectionState(userId: string, connectionState: RTCPeerConnectionState) {
+    const { call } = this.state;
+    if (connectionState === 'connected' && this.state.phase !== 'connected') {
+      this.setState({ phase: 'connected', connectedAt: Date.now() });
+    }
+    if (connectionState === 'connected') {
+      // Whoever just connected may have missed toggles made before
+      this.sendMediaState();
+    } else if (connectionState === 'failed') {
+      if (call?.isGroup) {
+        // The rest of a group call can carry on without them
+        this.options.notify({ title: 'Connection Lost', description: 'Lost the connection to a participant.', variant: 'destructive' });
+        this.dropParticipant(userId);
+      } else {
+        this.options.notify({ title: 'Call Disconnected', description: 'The connection to the other side was lost.', variant: 'destructive' });
+        this.hangUp();
+      }
+    }
+  }
+
+  private dropParticipant(userId: string) {
+    this.topology?.disconnect(userId);
+    const { [userId]: _stream, ...remoteStreams } = this.state.remoteStreams;
+    const { [userId]: _media, ...remoteMedia } = this.state.remoteMedia;
+    this.setState({ remoteStreams, remoteMedia });
+  }
+
+  private sendSignal(toUserId: string, signal: CallSignal) {
+    const { call } = this.state;
+    if (call) this.options.getSocket()?.emit('call_signal', call.id, toUserId, signal);
+  }
+
+  private sendMediaState() {
+    const { call, isMuted, isCameraOff, type } = this.state;
+    if (!call) return;
+    this.options.getSocket()?.emit('call_media_state', call.id, { audio: !isMuted, video: type === 'video' && !isCameraOff });
+  }
+
+  private cleanUp() {
+    this.topology?.close();
+    this.topology = null;
+    this.state.localStream?.getTracks().forEach(track => track.stop());
+    this.state.screenStream?.getTracks().forEach(track => track.stop());
+    if (this.state.phase !== 'idle' || this.state.localStream) {
+      this.setState({ ...initialCallState, activeCalls: this.state.activeCalls });
+    }
+  }
+}
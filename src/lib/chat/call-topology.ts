@@ -0,0 +1,166 @@
+import type { CallSignal } from '@/types/call';
+
+// STUN lets peers behind NAT discover their public address. Deployments that need a TURN relay
+// can provide their own list as JSON, e.g. [{"urls":"turn:turn.example.com","username":"u","credential":"p"}].
+const ICE_SERVERS: RTCIceServer[] = (() => {
+  try {
+    if (process.env.NEXT_PUBLIC_ICE_SERVERS) return JSON.parse(process.env.NEXT_PUBLIC_ICE_SERVERS) as RTCIceServer[];
+  } catch (error) {
+    console.error('Invalid NEXT_PUBLIC_ICE_SERVERS, falling back to the default STUN server:', error);
+  }
+  return [{ urls: 'stun:stun.l.google.com:19302' }];
+})();
+
+/** How a topology reports back to the call it carries. */
+export interface CallTopologyEvents {
+  sendSignal: (toUserId: string, signal: CallSignal) => void;
+  onRemoteStream: (userId: string, stream: MediaStream) => void;
+  onConnectionStateChange: (userId: string, state: RTCPeerConnectionState) => void;
+}
+
+/**
+ * How media travels between the participants of a call. The call client only deals in
+ * participants joining and leaving and in signals addressed to user IDs, so a topology that
+ * routes everything through a media server (an SFU) can replace the mesh without touching it.
+ */
+export interface CallTopology {
+  /** `userId` joined after us; start negotiating with them. */
+  connect(userId: string): void;
+  /** A signal from another participant, who may be the one reaching out. */
+  handleSignal(fromUserId: string, signal: CallSignal): void;
+  disconnect(userId: string): void;
+  /** Starts sending a screen alongside the camera and microphone, or stops when null. */
+  setScreenStream(stream: MediaStream | null): void;
+  close(): void;
+}
+
+export type CallTopologyFactory = (localStream: MediaStream, events: CallTopologyEvents) => CallTopology;
+
+interface Peer {
+  connection: RTCPeerConnection;
+  // Candidates that arrive before the remote description can't be added yet
+  pendingCandidates: RTCIceCandidateInit[];
+  // Signals are applied one at a time, since each step awaits the previous one
+  queue: Promise<void>;
+  screenSenders: RTCRtpSender[];
+  // Tracks changed mid-negotiation; offer again once the current one settles
+  needsOffer: boolean;
+}
+
+/**
+ * Every participant sends their media straight to every other one, over one peer connection
+ * each. Uplink grows with the size of the call, which is why calls are capped at
+ * MAX_CALL_PARTICIPANTS.
+ */
+export class MeshTopology implements CallTopology {
+  private peers = new Map<string, Peer>();
+  private screenStream: MediaStream | null = null;
+
+  constructor(private readonly localStream: MediaStream, private readonly events: CallTopologyEvents) {}
+
+  connect(userId: string) {
+    this.offer(userId, this.createPeer(userId));
+  }
+
+  handleSignal(fromUserId: string, signal: CallSignal) {
+    const peer = this.peers.get(fromUserId) ?? this.createPeer(fromUserId);
+    this.enqueue(peer, () => this.applySignal(fromUserId, peer, signal));
+  }
+
+  disconnect(userId: string) {
+    const peer = this.peers.get(userId);
+    if (!peer) return;
+    this.peers.delete(userId);
+    this.closePeer(peer);
+  }
+
+  setScreenStream(stream: MediaStream | null) {
+    this.screenStream = stream;
+    for (const [userId, peer] of this.peers) {
+      peer.screenSenders.forEach(sender => peer.connection.removeTrack(sender));
+      peer.screenSenders = this.addScreenTracks(peer.connection);
+      // Adding or removing tracks takes another round of offer and answer
+      if (peer.connection.signalingState === 'stable') this.offer(userId, peer);
+      else peer.needsOffer = true;
+    }
+  }
+
+  close() {
+    this.peers.forEach(peer => this.closePeer(peer));
+    this.peers.clear();
+  }
+
+  private offer(userId: string, peer: Peer) {
+    this.enqueue(peer, async () => {
+      const offer = await peer.connection.createOffer();
+      await peer.connection.setLocalDescription(offer);
+      this.events.sendSignal(userId, { type: 'offer', sdp: offer.sdp ?? '' });
+    });
+  }
+
+  private addScreenTracks(connection: RTCPeerConnection): RTCRtpSender[] {
+    const stream = this.screenStream;
+    return stream ? stream.getTracks().map(track => connection.addTrack(track, stream)) : [];
+  }
+
+  private createPeer(userId: string): Peer {
+    // Someone who rejoins gets a fresh connection
+    this.disconnect(userId);
+    const connection = new RTCPeerConnection({ iceServers: ICE_SERVERS });
+    const peer: Peer = { connection, pendingCandidates: [], queue: Promise.resolve(), screenSenders: [], needsOffer: false };
+    this.peers.set(userId, peer);
+
+    this.localStream.getTracks().forEach(track => connection.addTrack(track, this.localStream));
+    peer.screenSenders = this.addScreenTracks(connection);
+
+    connection.onicecandidate = event => {
+      if (!event.candidate) return;
+      const { candidate, sdpMid, sdpMLineIndex } = event.candidate;
+      this.events.sendSignal(userId, { type: 'candidate', candidate, sdpMid, sdpMLineIndex });
+    };
+    connection.ontrack = event => {
+      this.events.onRemoteStream(userId, event.streams[0] ?? new MediaStream([event.track]));
+    };
+    connection.onconnectionstatechange = () => {
+      if (this.peers.get(userId) === peer) this.events.onConnectionStateChange(userId, connection.connectionState);
+    };
+    connection.onsignalingstatechange = () => {
+      if (connection.signalingState !== 'stable' || !peer.needsOffer || this.peers.get(userId) !== peer) return;
+      peer.needsOffer = false;
+      this.offer(userId, peer);
+    };
+    return peer;
+  }
+
+  private closePeer(peer: Peer) {
+    peer.connection.onconnectionstatechange = null;
+    peer.connection.onsignalingstatechange = null;
+    peer.connection.close();
+  }
+
+  private enqueue(peer: Peer, task: () => Promise<void>) {
+    peer.queue = peer.queue.then(task).catch(error => console.error('Call signaling failed:', error));
+  }
+
+  private async applySignal(fromUserId: string, peer: Peer, signal: CallSignal) {
+    const { connection } = peer;
+    if (signal.type === 'candidate') {
+      const { candidate, sdpMid, sdpMLineIndex } = signal;
+      if (connection.remoteDescription) await connection.addIceCandidate({ candidate, sdpMid, sdpMLineIndex });
+      else peer.pendingCandidates.push({ candidate, sdpMid, sdpMLineIndex });
+      return;
+    }
+
+    await connection.setRemoteDescription({ type: signal.type, sdp: signal.sdp });
+    for (const candidate of peer.pendingCandidates.splice(0)) {
+      await connection.addIceCandidate(candidate);
+    }
+    if (signal.type === 'offer') {
+      const answer = await connection.createAnswer();
+      await connection.setLocalDescription(answer);
+      this.events.sendSignal(fromUserId, { type: 'answer', sdp: answer.sdp ?? '' });
+    }
+  }
+}
+
+export const createMeshTopology: CallTopologyFactory = (localStream, events) => new MeshTopology(localStream, events);
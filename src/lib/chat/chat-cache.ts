@@ -0,0 +1,106 @@
+import type { Call, Chat, User } from '@/types';
+import type { MessagePolicy, UserSettings } from '@/types/socket';
+import { withLocalStore } from '@/lib/local-db';
+import { selectCalls, selectChat, selectUsers, type ChatState } from './chat-store';
+
+/** The user's chats as last seen, shown on startup until the server answers. */
+export interface CachedChats {
+  userId: string;
+  syncedAt: Date; // Server time the chats were current as of; the first sync catches up from there
+  chats: Chat[]; // Most recently active first, each with its latest messages
+  users: User[];
+  calls: Call[];
+  policy: MessagePolicy;
+  settings: UserSettings;
+}
+
+export interface ChatCacheOptions {
+  getState: () => ChatState;
+  getSyncedAt: () => Date | null; // Null while there is nothing worth caching, e.g. before the chats are loaded
+}
+
+// As many messages per chat as initial_data carries; older ones are loaded from the server as usual
+const CACHED_MESSAGES_PER_CHAT = 30;
+// Changes are saved at most this often
+const SAVE_DELAY_MS = 2000;
+
+// Presence is only known while connected, so users start out offline until the server says otherwise
+const asOffline = (user: User): User => ({ ...user, presence: 'offline' });
+
+// Only what the server has acked is cached; the outbox keeps the rest
+function toCachedChat(chat: Chat): Chat {
+  const messages = (chat.messages ?? []).filter(message => !message.id.startsWith('temp_'));
+  const latest = messages.slice(-CACHED_MESSAGES_PER_CHAT);
+  return {
+    ...chat,
+    participants: chat.participants.map(asOffline),
+    messages: latest,
+    lastMessage: undefined, // Derived from the messages
+    hasMoreMessages: chat.hasMoreMessages || latest.length < messages.length,
+  };
+}
+
+/**
+ * A copy of the user's chats, users and latest messages in IndexedDB, so the app can show them
+ * right away on the next start, and while offline. Saving is coalesced, so bursts of changes
+ * such as a sync are written once.
+ */
+export class ChatCache {
+  private userId: string | null = null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly options: ChatCacheOptions) {}
+
+  /** The chats cached for the user, or null if there are none. */
+  async load(userId: string): Promise<CachedChats | null> {
+    this.userId = userId;
+    let cached: CachedChats | undefined;
+    try {
+      cached = await withLocalStore<CachedChats | undefined>('chats', 'readonly', store => store.get(userId));
+    } catch (error) {
+      console.warn('Could not load the cached chats:', error);
+    }
+    if (this.userId !== userId) return null; // Signed out in the meantime
+    return cached ?? null;
+  }
+
+  /** Saves the current chats shortly, together with any other changes made until then. */
+  scheduleSave() {
+    if (this.saveTimer || !this.userId) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, SAVE_DELAY_MS);
+  }
+
+  /** Saves what is pending right away and stops, e.g. when disconnecting. */
+  reset() {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      this.save();
+    }
+    this.userId = null;
+  }
+
+  // Failing to save only means the next start waits for the server
+  private save() {
+    const state = this.options.getState();
+    const syncedAt = this.options.getSyncedAt();
+    const userId = state.currentUserId;
+    if (!syncedAt || !userId || userId !== this.userId) return;
+
+    const cached: CachedChats = {
+      userId,
+      syncedAt,
+      chats: state.chatOrder.map(id => selectChat(state, id)).filter((chat): chat is Chat => !!chat).map(toCachedChat),
+      users: selectUsers(state).map(asOffline),
+      calls: selectCalls(state),
+      policy: state.policy,
+      settings: state.settings,
+    };
+    void withLocalStore('chats', 'readwrite', store => store.put(cached)).catch(error => {
+      console.warn('Could not cache the chats:', error);
+    });
+  }
+}
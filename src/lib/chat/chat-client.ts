@@ -0,0 +1,821 @@
+import { io } from 'socket.io-client';
+import type { User, Chat, MediaRef, Message, MessageReceipt, MessageRevision, QuotedMessage } from '@/types';
+import {
+  messageAckSchema,
+  messageRevisionsAckSchema,
+  messageReceiptsAckSchema,
+  deleteMessageAckSchema,
+  reactionsAckSchema,
+  settingsAckSchema,
+  createGroupAckSchema,
+  loadMessagesAckSchema,
+  syncAckSchema,
+  type DeleteScope,
+  type OutgoingMessageType,
+  type ServerToClientEvents,
+  type UserSettings,
+} from '@/types/socket';
+import type { SocketAuth } from '@/types/auth';
+import { isAllowedMediaType, MAX_UPLOAD_BYTES } from '@/types/media';
+import { SERVER_URL, onValidated, validatedAck, type ChatSocket } from '@/lib/socket';
+import { uploadMedia } from '@/lib/media';
+import { clearLocalDb } from '@/lib/local-db';
+import { toQuotedMessage } from '@/lib/messages';
+import { hasReacted, toggleReaction } from '@/lib/reactions';
+import { ChatStore, selectCurrentUser, type ChatEntry, type ChatState, type ChatStoreListener } from './chat-store';
+import { CallClient } from './call-client';
+import { Outbox, type OutboxEntry } from './outbox';
+import { ChatCache, type CachedChats } from './chat-cache';
+
+export interface ChatNotice {
+  title: string;
+  description?: string;
+  variant?: 'default' | 'destructive';
+  duration?: number;
+}
+
+// One-off UI events that don't belong in the store (toasts, navigation).
+export interface ChatClientEvents {
+  notice: (notice: ChatNotice) => void;
+  chat_opened: (chatId: string) => void;
+  session_expired: () => void; // The server rejected the session token
+}
+
+export interface ChatClientOptions {
+  url?: string;
+  store?: ChatStore;
+}
+
+// Messages fetched per load_messages request when scrolling back through history
+const HISTORY_PAGE_SIZE = 30;
+// While the user types, typing_start is repeated this often, and typing_stop follows a pause this long
+const TYPING_REFRESH_MS = 3000;
+const TYPING_PAUSE_MS = 5000;
+// Someone else's typing_start that isn't repeated within this long has expired, e.g. their tab closed
+const TYPING_EXPIRY_MS = 8000;
+
+const createTempId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+// Temporary (unacked) messages are the user's own, and unknown to the server
+const lastServerMessageId = (entry: ChatEntry) => [...entry.messageIds].reverse().find(id => !id.startsWith('temp_'));
+
+/**
+ * Owns the Socket.IO connection and keeps a `ChatStore` in sync with the server.
+ * Socket listeners are registered once per connection and read the current
+ * selection from the store, so UI changes never re-subscribe them.
+ */
+export class ChatClient {
+  readonly store: ChatStore;
+  readonly calls: CallClient;
+  private readonly outbox: Outbox; // The user's messages until the server acks them
+  private outboxLoaded: Promise<void> = Promise.resolve();
+  private readonly cache: ChatCache; // The chats as last seen, shown on the next start until the server answers
+  private readonly url: string;
+  private socket: ChatSocket | null = null;
+  private token: string | null = null; // Session token, also used for media uploads
+  private loadingHistory = new Map<string, Promise<void>>(); // Chats with a load_messages request in flight
+  private typingIn = new Map<string, { startedAt: number; pauseTimer: ReturnType<typeof setTimeout> }>(); // Chats the user is typing in
+  private typingTimers = new Map<string, ReturnType<typeof setTimeout>>(); // `${chatId}:${userId}` -> expiry of someone else's typing
+  private failedUploads = new Map<string, { file: File; replyToId?: string }>(); // Temporary message ID -> file to upload on retry
+  private away = false; // This tab is idle
+  private syncedAt: Date | null = null; // Server time the chats are current as of; null until first loaded
+  private listeners: { [E in keyof ChatClientEvents]: Set<ChatClientEvents[E]> } = {
+    notice: new Set(),
+    chat_opened: new Set(),
+    session_expired: new Set(),
+  };
+
+  constructor({ url = SERVER_URL, store = new ChatStore() }: ChatClientOptions = {}) {
+    this.url = url;
+    this.store = store;
+    this.calls = new CallClient({
+      getSocket: () => this.socket,
+      getCurrentUserId: () => this.store.getState().currentUserId,
+      notify: notice => this.notify(notice),
+    });
+    this.outbox = new Outbox({
+      getSocket: () => this.socket,
+      onSent: (entry, ack) => this.handleSent(entry, ack),
+      onFailed: (entry, error) => {
+        this.store.dispatch({ type: 'UPDATE_MESSAGE', chatId: entry.chatId, messageId: entry.id, changes: { status: undefined, error } });
+        this.notify({ title: 'Message Failed', description: error, variant: 'destructive' });
+      },
+    });
+    this.cache = new ChatCache({ getState: this.store.getState, getSyncedAt: () => this.syncedAt });
+    this.store.subscribe(() => this.cache.scheduleSave());
+  }
+
+  // --- Subscriptions ---
+
+  getState = (): ChatState => this.store.getState();
+
+  subscribe = (listener: ChatStoreListener) => this.store.subscribe(listener);
+
+  on<E extends keyof ChatClientEvents>(event: E, listener: ChatClientEvents[E]): () => void {
+    this.listeners[event].add(listener);
+    return () => {
+      this.listeners[event].delete(listener);
+    };
+  }
+
+  private emit<E extends keyof ChatClientEvents>(event: E, ...args: Parameters<ChatClientEvents[E]>) {
+    this.listeners[event].forEach(listener => (listener as (...a: Parameters<ChatClientEvents[E]>) => void)(...args));
+  }
+
+  private notify(notice: ChatNotice) {
+    this.emit('notice', notice);
+  }
+
+  private get currentUser(): User | null {
+    return selectCurrentUser(this.store.getState());
+  }
+
+  // --- Connection ---
+
+  get isConnected(): boolean {
+    return !!this.socket?.connected;
+  }
+
+  /** Connects as the given user, authenticating the handshake with their session token. */
+  connect(user: User, token: string) {
+    if (this.socket) return; // Already connected (or connecting)
+    const { dispatch } = this.store;
+    dispatch({ type: 'RESET', currentUser: { ...user, presence: 'online' } });
+    dispatch({ type: 'SET_LOADING', isLoading: true });
+    dispatch({ type: 'SET_CONNECTION_STATUS', status: 'connecting' });
+
+    this.token = token;
+    // Messages left unsent before a reload are shown and sent once the chats are loaded
+    this.outboxLoaded = this.outbox.load(user.id);
+    // Chats cached by an earlier visit show right away, and the first sync brings them up to date
+    void this.cache.load(user.id).then(cached => cached && this.restore(cached));
+    console.log(`Attempting to connect socket for user: ${user.name} (${user.id})`);
+    const socket: ChatSocket = io(this.url, {
+      auth: { token } satisfies SocketAuth, // Verified by the server before the connection is accepted
+    });
+    this.socket = socket;
+    this.registerListeners(socket);
+  }
+
+  /** Closes the connection without notifying the server (e.g. on unmount). */
+  disconnect() {
+    if (!this.socket) return;
+    this.socket.disconnect();
+    this.socket = null;
+    this.loadingHistory.clear();
+    this.clearTyping();
+    this.calls.reset();
+    this.outbox.reset();
+    this.failedUploads.clear();
+    this.cache.reset();
+    this.syncedAt = null;
+    this.store.dispatch({ type: 'SET_CONNECTION_STATUS', status: 'idle' });
+  }
+
+  /** Logs out, also deleting the chats, media and unsent messages stored in this browser if `clearLocalData` is set. */
+  logout({ clearLocalData = false }: { clearLocalData?: boolean } = {}) {
+    const user = this.currentUser;
+    if (this.socket && user) {
+      this.socket.emit('logout', user.id); // Notify server
+    }
+    this.disconnect();
+    this.store.dispatch({ type: 'RESET', currentUser: null });
+    this.token = null;
+    if (clearLocalData) {
+      void clearLocalDb().catch(error => {
+        console.error('Could not clear the local data:', error);
+        this.notify({ title: 'Error', description: 'Could not clear the data stored in this browser.', variant: 'destructive' });
+      });
+    }
+  }
+
+  private registerListeners(socket: ChatSocket) {
+    const { dispatch, getState } = this.store;
+
+    // Payloads that don't match the shared contract are dropped instead of corrupting state
+    const reportInvalidPayload = (error: string) => {
+      console.error(error);
+      this.notify({ title: 'Invalid Server Data', description: error, variant: 'destructive' });
+    };
+    const on = <E extends keyof ServerToClientEvents>(event: E, handler: ServerToClientEvents[E]) =>
+      onValidated(socket, event, handler, reportInvalidPayload);
+
+    socket.on('connect', () => {
+      console.log('Connected to Socket.IO server', socket.id);
+      // The server counts a new socket as in use
+      if (this.away) socket.emit('update_presence', 'away');
+      if (this.syncedAt) {
+        // Reconnected: fetch only what changed, keeping everything already loaded
+        dispatch({ type: 'SET_CONNECTION_STATUS', status: 'syncing' });
+        this.resync(socket, this.syncedAt);
+      } else {
+        dispatch({ type: 'SET_CONNECTION_STATUS', status: 'connected' });
+        socket.emit('request_initial_data');
+      }
+    });
+
+    socket.on('disconnect', reason => {
+      console.log('Disconnected from Socket.IO server:', reason);
+      if (reason === 'io client disconnect') return;
+      // The server hangs up the calls of a socket that went away
+      this.calls.reset();
+      this.clearTyping();
+      if (reason === 'io server disconnect') {
+        // The server only drops a socket when its session was revoked or expired
+        this.disconnect();
+        this.emit('session_expired');
+        return;
+      }
+      // The chats stay open so the user can keep writing, and are synced on reconnect. The
+      // connection banner tells the user what's going on, so no notice is needed.
+      dispatch({ type: 'SET_CONNECTION_STATUS', status: 'disconnected' });
+    });
+
+    socket.on('connect_error', err => {
+      console.error('Socket connection error:', err);
+      if (err.message === 'Unauthorized') {
+        // Retrying with the same token is pointless
+        this.disconnect();
+        this.emit('session_expired');
+        return;
+      }
+      // With chats on screen, loaded or from the cache, the connection banner says what's going on
+      if (this.syncedAt) {
+        dispatch({ type: 'SET_CONNECTION_STATUS', status: 'disconnected' });
+        return;
+      }
+      this.notify({
+        title: 'Connection Error',
+        description: `Could not connect to the chat server. ${err.message}`,
+        variant: 'destructive',
+      });
+      dispatch({ type: 'SET_LOADING', isLoading: false });
+    });
+
+    on('initial_data', data => {
+      this.syncedAt = data.syncedAt;
+      dispatch({ type: 'SET_CONNECTION_STATUS', status: 'connected' });
+      dispatch({
+        type: 'LOAD_INITIAL_DATA',
+        chats: data.chats,
+        users: data.allUsers,
+        calls: data.calls,
+        policy: data.policy,
+        settings: data.settings,
+      });
+      this.handleChatsLoaded();
+    });
+
+    on('receive_message', (message, chatId) => {
+      if (!getState().chats[chatId]) {
+        // The chat is new to us (e.g. first message in a direct chat); refresh to get it
+        console.warn(`Received message for unknown chat ${chatId}. Requesting update.`);
+        socket.emit('request_initial_data');
+        return;
+      }
+      const isSelected = getState().selectedChatId === chatId;
+      // The message is what they were typing
+      this.showTyping(chatId, message.sender.id, false);
+      dispatch({ type: 'ADD_MESSAGE', chatId, message, incrementUnread: !isSelected });
+      if (isSelected) this.markRead(chatId, true);
+    });
+
+    on('message_updated', (message, chatId) => {
+      dispatch({ type: 'REPLACE_MESSAGE', chatId, message });
+    });
+
+    on('message_removed', (chatId, messageId) => {
+      dispatch({ type: 'REMOVE_MESSAGE', chatId, messageId });
+    });
+
+    on('reactions_updated', (chatId, messageId, reactions) => {
+      dispatch({ type: 'UPDATE_MESSAGE', chatId, messageId, changes: { reactions } });
+    });
+
+    on('link_preview_updated', (chatId, messageId, linkPreview) => {
+      dispatch({ type: 'UPDATE_MESSAGE', chatId, messageId, changes: { linkPreview } });
+    });
+
+    on('settings_updated', settings => {
+      dispatch({ type: 'SET_SETTINGS', settings });
+    });
+
+    on('message_status_update', (chatId, messageId, status) => {
+      dispatch({ type: 'UPDATE_MESSAGE', chatId, messageId, changes: { status } });
+    });
+
+    on('user_status_update', (userId, presence, lastSeen) => {
+      dispatch({ type: 'SET_USER_PRESENCE', userId, presence, lastSeen: lastSeen ?? undefined });
+    });
+
+    on('typing_start', (chatId, userId) => {
+      this.showTyping(chatId, userId, true);
+    });
+
+    on('typing_stop', (chatId, userId) => {
+      this.showTyping(chatId, userId, false);
+    });
+
+    // Added to a group by someone else
+    on('group_created', chat => {
+      if (getState().chats[chat.id]) return; // The creator's ack may already have added it
+      dispatch({ type: 'UPSERT_CHAT', chat, moveToTop: true });
+      this.notify({ title: 'Added to Group', description: `You were added to the group: ${chat.name || 'Unnamed Group'}.` });
+    });
+
+    on('direct_chat_started', chat => {
+      dispatch({ type: 'UPSERT_CHAT', chat, moveToTop: true });
+      this.selectChat(chat.id);
+      this.emit('chat_opened', chat.id);
+      const otherParticipant = chat.participants.find(p => p.id !== getState().currentUserId);
+      this.notify({ title: 'Chat Started', description: `Chat with ${otherParticipant?.name || 'user'} started.` });
+    });
+
+    this.calls.registerListeners(on);
+
+    on('server_error', errorMessage => {
+      console.error('Server error:', errorMessage);
+      this.notify({ title: 'Server Error', description: errorMessage, variant: 'destructive' });
+    });
+  }
+
+  // Shows the cached chats until the server answers, unless it already has
+  private restore(cached: CachedChats) {
+    if (this.syncedAt || !this.socket) return;
+    this.syncedAt = cached.syncedAt;
+    this.store.dispatch({
+      type: 'LOAD_INITIAL_DATA',
+      chats: cached.chats,
+      users: cached.users,
+      calls: cached.calls,
+      policy: cached.policy,
+      settings: cached.settings,
+    });
+    // Already connected: request_initial_data went out before the cache was read, and its answer replaces this
+    if (!this.socket.connected) this.handleChatsLoaded();
+  }
+
+  // Catches up on what was missed while disconnected; falls back to loading everything again
+  private resync(socket: ChatSocket, since: Date) {
+    const { chats } = this.store.getState();
+    const lastMessageIds = Object.fromEntries(Object.values(chats).map(entry => [entry.id, lastServerMessageId(entry) ?? null]));
+    socket.emit('sync', since, lastMessageIds, validatedAck(syncAckSchema, 'sync', ack => {
+      if (!ack.success || !('data' in ack) || !ack.data) {
+        console.error('Failed to sync, reloading the chats:', ack.error);
+        socket.emit('request_initial_data');
+        return;
+      }
+      const { chats: changes, allUsers, calls, settings, syncedAt } = ack.data;
+      this.syncedAt = syncedAt;
+      this.store.dispatch({ type: 'APPLY_SYNC', changes, users: allUsers, calls, settings });
+      this.store.dispatch({ type: 'SET_CONNECTION_STATUS', status: 'connected' });
+      this.handleChatsLoaded();
+    }));
+  }
+
+  // Marks the open chat read and sends the outbox, including messages left unsent before a reload
+  private handleChatsLoaded() {
+    const { selectedChatId, chats } = this.store.getState();
+    if (selectedChatId && chats[selectedChatId]?.unreadCount) this.markRead(selectedChatId);
+    void this.outboxLoaded.then(() => {
+      for (const entry of this.outbox.pending) {
+        this.store.dispatch({ type: 'ADD_MESSAGE', chatId: entry.chatId, message: entry.message, incrementUnread: false });
+      }
+      this.outbox.flush();
+    });
+  }
+
+  // --- Chat actions ---
+
+  selectChat(chatId: string | null) {
+    this.store.dispatch({ type: 'SELECT_CHAT', chatId });
+    if (chatId && this.store.getState().chats[chatId]?.unreadCount) this.markRead(chatId);
+  }
+
+  /**
+   * Tells the chat's other participants whether the user is typing, called as the draft changes.
+   * typing_start is only repeated every few seconds, and typing_stop is sent once the user pauses.
+   */
+  setTyping(chatId: string, isTyping: boolean) {
+    const socket = this.socket;
+    const current = this.typingIn.get(chatId);
+    if (current) clearTimeout(current.pauseTimer);
+    if (!isTyping) {
+      if (!current) return;
+      this.typingIn.delete(chatId);
+      socket?.emit('typing_stop', chatId);
+      return;
+    }
+    if (!socket) return;
+    let startedAt = current?.startedAt ?? 0;
+    if (Date.now() - startedAt >= TYPING_REFRESH_MS) {
+      startedAt = Date.now();
+      socket.emit('typing_start', chatId);
+    }
+    this.typingIn.set(chatId, { startedAt, pauseTimer: setTimeout(() => this.setTyping(chatId, false), TYPING_PAUSE_MS) });
+  }
+
+  /** Tells the server whether this tab is idle; the user shows as away once all of their tabs are. */
+  setAway(away: boolean) {
+    if (away === this.away) return;
+    this.away = away;
+    this.socket?.emit('update_presence', away ? 'away' : 'online');
+  }
+
+  // Shows another participant as typing until they stop, send their message, or their typing_start expires
+  private showTyping(chatId: string, userId: string, isTyping: boolean) {
+    const key = `${chatId}:${userId}`;
+    clearTimeout(this.typingTimers.get(key));
+    this.typingTimers.delete(key);
+    if (isTyping) this.typingTimers.set(key, setTimeout(() => this.showTyping(chatId, userId, false), TYPING_EXPIRY_MS));
+    this.store.dispatch({ type: 'SET_TYPING', chatId, userId, isTyping });
+  }
+
+  // Forgets who is typing, without telling anyone; the server stops the user's typing when the socket goes
+  private clearTyping() {
+    this.typingIn.forEach(({ pauseTimer }) => clearTimeout(pauseTimer));
+    this.typingIn.clear();
+    this.typingTimers.forEach(timer => clearTimeout(timer));
+    this.typingTimers.clear();
+    for (const [chatId, userIds] of Object.entries(this.store.getState().typing)) {
+      userIds.forEach(userId => this.store.dispatch({ type: 'SET_TYPING', chatId, userId, isTyping: false }));
+    }
+  }
+
+  /** Clears the unread count locally and moves the user's read cursor up to the chat's latest message. */
+  markRead(chatId: string, force = false) {
+    const entry = this.store.getState().chats[chatId];
+    if (!entry || !this.currentUser || (!force && entry.unreadCount === 0)) return;
+    this.store.dispatch({ type: 'CLEAR_UNREAD', chatId });
+    const latestId = lastServerMessageId(entry);
+    if (latestId) this.socket?.emit('mark_as_read', chatId, latestId);
+  }
+
+  /**
+   * Fetches the page of messages preceding the oldest loaded one.
+   * Resolves once the messages are in the store; concurrent calls for the same chat share the request.
+   */
+  loadOlderMessages(chatId: string): Promise<void> {
+    const socket = this.socket;
+    const entry = this.store.getState().chats[chatId];
+    const pending = this.loadingHistory.get(chatId);
+    if (pending) return pending;
+    if (!socket || !entry?.hasMoreMessages) return Promise.resolve();
+    // Temporary (unacked) messages are always newer than anything on the server
+    const oldestId = entry.messageIds.find(id => !id.startsWith('temp_')) ?? null;
+
+    const request = new Promise<void>(resolve => {
+      socket.emit('load_messages', chatId, oldestId, HISTORY_PAGE_SIZE, validatedAck(loadMessagesAckSchema, 'load_messages', ack => {
+        this.loadingHistory.delete(chatId);
+        if (ack.success && 'messages' in ack && ack.messages) {
+          this.store.dispatch({ type: 'PREPEND_MESSAGES', chatId, messages: ack.messages, hasMore: !!ack.hasMore });
+        } else {
+          console.error(`Failed to load messages for chat ${chatId}:`, ack.error);
+          this.notify({ title: 'History Unavailable', description: ack.error || 'Could not load older messages.', variant: 'destructive' });
+        }
+        resolve();
+      }));
+    });
+    this.loadingHistory.set(chatId, request);
+    return request;
+  }
+
+  /**
+   * Loads older history page by page until the message is in the store, e.g. to scroll to the
+   * original of a reply. Resolves with whether it was found.
+   */
+  async loadMessagesUntil(chatId: string, messageId: string): Promise<boolean> {
+    const isLoaded = () => !!this.store.getState().messages[chatId]?.[messageId];
+    while (!isLoaded()) {
+      const count = this.store.getState().chats[chatId]?.messageIds.length ?? 0;
+      await this.loadOlderMessages(chatId);
+      // Stop once nothing more arrives: the history is exhausted or the request failed
+      if ((this.store.getState().chats[chatId]?.messageIds.length ?? 0) === count) break;
+    }
+    if (isLoaded()) return true;
+    this.notify({ title: 'Message Unavailable', description: 'The original message could not be found.' });
+    return false;
+  }
+
+  startDirectChat(otherUserId: string) {
+    const user = this.currentUser;
+    if (!this.socket || !user) {
+      this.notify({ title: 'Error', description: 'Not connected.', variant: 'destructive' });
+      return;
+    }
+    if (otherUserId === user.id) {
+      this.notify({ title: 'Info', description: 'You cannot chat with yourself.' });
+      return;
+    }
+
+    const { chats, chatOrder } = this.store.getState();
+    const existingChatId = chatOrder.find(id => {
+      const chat = chats[id];
+      return !chat.isGroup && chat.participantIds.length === 2 && chat.participantIds.includes(otherUserId);
+    });
+    if (existingChatId) {
+      this.selectChat(existingChatId);
+      this.emit('chat_opened', existingChatId);
+      return;
+    }
+
+    // The server responds with 'direct_chat_started', which selects the chat
+    this.socket.emit('start_direct_chat', user.id, otherUserId);
+    this.notify({ title: 'Starting Chat...', description: 'Please wait.', duration: 2000 });
+  }
+
+  /**
+   * Sends a message with an optimistic update; the temporary ID is replaced once the server acks.
+   * Replies name the message they answer with `replyToId`. While disconnected the message waits
+   * in the outbox, and goes out once the connection is back.
+   */
+  send(chatId: string, content: string, type: OutgoingMessageType, replyToId?: string) {
+    const user = this.currentUser;
+    if (!this.socket || !user) {
+      this.notify({ title: 'Error', description: 'Not connected to chat.', variant: 'destructive' });
+      return;
+    }
+    if (!this.store.getState().chats[chatId]) {
+      this.notify({ title: 'Error', description: 'Could not find the chat to send the message.', variant: 'destructive' });
+      return;
+    }
+
+    // Receiving the message stops the other participants showing the user as typing
+    const typing = this.typingIn.get(chatId);
+    if (typing) clearTimeout(typing.pauseTimer);
+    this.typingIn.delete(chatId);
+
+    const tempId = createTempId('temp');
+    const message: Message = { id: tempId, sender: user, content, timestamp: new Date(), type, status: 'sent', replyTo: this.quote(chatId, replyToId) };
+    this.store.dispatch({ type: 'ADD_MESSAGE', chatId, message, incrementUnread: false });
+    this.outbox.add({ id: tempId, userId: user.id, chatId, message, outgoing: { id: tempId, content, type, replyToId }, attempts: 0 });
+  }
+
+  /** Sends a message that failed to send again: its upload, or the message itself. */
+  retryMessage(chatId: string, messageId: string) {
+    const upload = this.failedUploads.get(messageId);
+    const message = this.store.getState().messages[chatId]?.[messageId];
+    if (upload && message) {
+      this.failedUploads.delete(messageId);
+      this.store.dispatch({ type: 'UPDATE_MESSAGE', chatId, messageId, changes: { status: 'sent', error: undefined, uploadProgress: 0 } });
+      void this.uploadAndQueue(chatId, messageId, upload.file, upload.replyToId);
+      return;
+    }
+    if (this.outbox.retry(messageId)) {
+      this.store.dispatch({ type: 'UPDATE_MESSAGE', chatId, messageId, changes: { status: 'sent', error: undefined } });
+    }
+  }
+
+  // The server stored the message: show its version, under its final ID
+  private handleSent({ chatId, id: tempId }: OutboxEntry, ack: { messageId?: string; message?: Message }) {
+    const shown = this.store.getState().messages[chatId]?.[tempId];
+    if (shown?.media?.url.startsWith('blob:')) URL.revokeObjectURL(shown.media.url);
+    if (!ack.messageId) return;
+    this.store.dispatch({ type: 'UPDATE_MESSAGE', chatId, messageId: tempId, changes: { id: ack.messageId, status: 'sent', uploadProgress: undefined } });
+    if (ack.message) this.store.dispatch({ type: 'REPLACE_MESSAGE', chatId, message: ack.message });
+  }
+
+  /** Replaces the text of one of the user's messages, showing the edit right away and undoing it if the server refuses. */
+  editMessage(chatId: string, messageId: string, content: string) {
+    const message = this.store.getState().messages[chatId]?.[messageId];
+    const text = content.trim();
+    if (!message || !text || text === message.content) return;
+    if (!this.socket) {
+      this.notify({ title: 'Error', description: 'Not connected to chat.', variant: 'destructive' });
+      return;
+    }
+
+    this.store.dispatch({ type: 'UPDATE_MESSAGE', chatId, messageId, changes: { content: text, editedAt: new Date() } });
+    this.socket.emit('edit_message', chatId, messageId, text, validatedAck(messageAckSchema, 'edit_message', ack => {
+      if (ack.success && 'message' in ack && ack.message) {
+        this.store.dispatch({ type: 'REPLACE_MESSAGE', chatId, message: ack.message });
+        return;
+      }
+      console.error(`Failed to edit message ${messageId}:`, ack.error);
+      this.store.dispatch({ type: 'UPDATE_MESSAGE', chatId, messageId, changes: { content: message.content, editedAt: message.editedAt } });
+      this.notify({ title: 'Edit Failed', description: ack.error || 'Could not edit the message.', variant: 'destructive' });
+    }));
+  }
+
+  /**
+   * Deletes a message for the user only, or for everyone, which leaves a tombstone in its place.
+   * Messages that never reached the server are just removed.
+   */
+  deleteMessage(chatId: string, messageId: string, scope: DeleteScope) {
+    const message = this.store.getState().messages[chatId]?.[messageId];
+    if (!message) return;
+    if (message.id.startsWith('temp_') || message.error) {
+      this.outbox.remove(messageId);
+      this.failedUploads.delete(messageId);
+      if (message.media?.url.startsWith('blob:')) URL.revokeObjectURL(message.media.url);
+      this.store.dispatch({ type: 'REMOVE_MESSAGE', chatId, messageId });
+      return;
+    }
+    if (!this.socket) {
+      this.notify({ title: 'Error', description: 'Not connected to chat.', variant: 'destructive' });
+      return;
+    }
+
+    this.socket.emit('delete_message', chatId, messageId, scope, validatedAck(deleteMessageAckSchema, 'delete_message', ack => {
+      if (!ack.success) {
+        console.error(`Failed to delete message ${messageId}:`, ack.error);
+        this.notify({ title: 'Delete Failed', description: ack.error || 'Could not delete the message.', variant: 'destructive' });
+      } else if (scope === 'everyone' && 'message' in ack && ack.message) {
+        this.store.dispatch({ type: 'REPLACE_MESSAGE', chatId, message: ack.message });
+      } else {
+        this.store.dispatch({ type: 'REMOVE_MESSAGE', chatId, messageId });
+      }
+    }));
+  }
+
+  /** Adds the user's reaction with the emoji, or takes it back if they already reacted with it. Shown right away. */
+  toggleReaction(chatId: string, messageId: string, emoji: string) {
+    const message = this.store.getState().messages[chatId]?.[messageId];
+    const user = this.currentUser;
+    if (!message || !user) return;
+    if (!this.socket) {
+      this.notify({ title: 'Error', description: 'Not connected to chat.', variant: 'destructive' });
+      return;
+    }
+
+    const event = hasReacted(message.reactions, emoji, user.id) ? 'remove_reaction' : 'add_reaction';
+    this.store.dispatch({ type: 'UPDATE_MESSAGE', chatId, messageId, changes: { reactions: toggleReaction(message.reactions, emoji, user.id) } });
+    this.socket.emit(event, chatId, messageId, emoji, validatedAck(reactionsAckSchema, event, ack => {
+      if (ack.success && 'reactions' in ack && ack.reactions) {
+        this.store.dispatch({ type: 'UPDATE_MESSAGE', chatId, messageId, changes: { reactions: ack.reactions } });
+        return;
+      }
+      console.error(`Failed to update the reactions to message ${messageId}:`, ack.error);
+      // Undo only this change, keeping any reactions that synced in the meantime
+      const current = this.store.getState().messages[chatId]?.[messageId]?.reactions;
+      this.store.dispatch({ type: 'UPDATE_MESSAGE', chatId, messageId, changes: { reactions: toggleReaction(current, emoji, user.id) } });
+      this.notify({ title: 'Reaction Failed', description: ack.error || 'Could not update the reaction.', variant: 'destructive' });
+    }));
+  }
+
+  /** Changes some of the user's settings. Applied right away, and undone if the server refuses. */
+  updateSettings(changes: Partial<UserSettings>) {
+    if (!this.socket) {
+      this.notify({ title: 'Error', description: 'Not connected to chat.', variant: 'destructive' });
+      return;
+    }
+    const previous = this.store.getState().settings;
+    this.store.dispatch({ type: 'SET_SETTINGS', settings: { ...previous, ...changes } });
+    this.socket.emit('update_settings', changes, validatedAck(settingsAckSchema, 'update_settings', ack => {
+      if (ack.success && 'settings' in ack && ack.settings) {
+        this.store.dispatch({ type: 'SET_SETTINGS', settings: ack.settings });
+        return;
+      }
+      console.error('Failed to update settings:', ack.error);
+      this.store.dispatch({ type: 'SET_SETTINGS', settings: previous });
+      this.notify({ title: 'Settings Not Saved', description: ack.error || 'Could not save your settings.', variant: 'destructive' });
+    }));
+  }
+
+  /** Fetches who of the other participants received and read one of the user's messages; null if that couldn't be loaded. */
+  loadMessageReceipts(chatId: string, messageId: string): Promise<MessageReceipt[] | null> {
+    const socket = this.socket;
+    if (!socket) return Promise.resolve(null);
+    return new Promise(resolve => {
+      socket.emit('load_message_receipts', chatId, messageId, validatedAck(messageReceiptsAckSchema, 'load_message_receipts', ack => {
+        if (ack.success && 'receipts' in ack && ack.receipts) {
+          resolve(ack.receipts);
+        } else {
+          console.error(`Failed to load the receipts of message ${messageId}:`, ack.error);
+          resolve(null);
+        }
+      }));
+    });
+  }
+
+  /** Fetches the earlier versions of an edited message, oldest first; null if they couldn't be loaded. */
+  loadMessageRevisions(chatId: string, messageId: string): Promise<MessageRevision[] | null> {
+    const socket = this.socket;
+    if (!socket) return Promise.resolve(null);
+    return new Promise(resolve => {
+      socket.emit('load_message_revisions', chatId, messageId, validatedAck(messageRevisionsAckSchema, 'load_message_revisions', ack => {
+        if (ack.success && 'revisions' in ack && ack.revisions) {
+          resolve(ack.revisions);
+        } else {
+          console.error(`Failed to load the edit history of message ${messageId}:`, ack.error);
+          resolve(null);
+        }
+      }));
+    });
+  }
+
+  /**
+   * Uploads an image or video and then sends it as a message. The message shows up right away
+   * from a local object URL with its upload progress, and switches to the server's URL once sent.
+   * Once uploaded it waits in the outbox like any other message.
+   */
+  async sendMedia(chatId: string, file: File, replyToId?: string) {
+    const user = this.currentUser;
+    if (!this.socket || !user || !this.token) {
+      this.notify({ title: 'Error', description: 'Not connected to chat.', variant: 'destructive' });
+      return;
+    }
+    if (!isAllowedMediaType(file.type)) {
+      this.notify({ title: 'Unsupported File', description: 'Only JPEG, PNG, GIF and WebP images and MP4, WebM and QuickTime videos can be sent.', variant: 'destructive' });
+      return;
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      this.notify({ title: 'File Too Large', description: `Files can be at most ${MAX_UPLOAD_BYTES / 1024 / 1024} MB.`, variant: 'destructive' });
+      return;
+    }
+
+    const type = file.type.startsWith('image/') ? 'image' : 'video';
+    const tempId = createTempId('temp');
+    const localUrl = URL.createObjectURL(file);
+    const message: Message = {
+      id: tempId,
+      sender: user,
+      content: localUrl,
+      timestamp: new Date(),
+      type,
+      status: 'sent',
+      media: { id: tempId, mimeType: file.type, size: file.size, url: localUrl },
+      replyTo: this.quote(chatId, replyToId),
+      uploadProgress: 0,
+    };
+    this.store.dispatch({ type: 'ADD_MESSAGE', chatId, message, incrementUnread: false });
+    await this.uploadAndQueue(chatId, tempId, file, replyToId);
+  }
+
+  // Uploads the file of a media message, then queues the message. A failed upload is kept for `retryMessage`.
+  private async uploadAndQueue(chatId: string, tempId: string, file: File, replyToId: string | undefined) {
+    const user = this.currentUser;
+    const token = this.token;
+    if (!user || !token) return;
+
+    let lastProgress = 0;
+    let media: MediaRef;
+    try {
+      media = await uploadMedia(file, {
+        token,
+        onProgress: fraction => {
+          // Whole percents are enough and avoid re-rendering the list for every chunk of a large file
+          const progress = Math.floor(fraction * 100);
+          if (progress === lastProgress) return;
+          lastProgress = progress;
+          this.store.dispatch({ type: 'UPDATE_MESSAGE', chatId, messageId: tempId, changes: { uploadProgress: progress } });
+        },
+      });
+    } catch (error) {
+      console.error(`Failed to upload ${file.name}:`, error);
+      const description = error instanceof Error ? error.message : 'Could not upload the file.';
+      this.failedUploads.set(tempId, { file, replyToId });
+      this.store.dispatch({ type: 'UPDATE_MESSAGE', chatId, messageId: tempId, changes: { status: undefined, error: description, uploadProgress: undefined } });
+      this.notify({ title: 'Message Failed', description, variant: 'destructive' });
+      return;
+    }
+
+    const shown = this.store.getState().messages[chatId]?.[tempId];
+    if (!shown || (shown.type !== 'image' && shown.type !== 'video')) return; // Deleted while uploading
+    this.outbox.add({
+      id: tempId,
+      userId: user.id,
+      chatId,
+      // What a reload shows, since the local URL is gone by then
+      message: { ...shown, content: media.url, media, uploadProgress: undefined },
+      outgoing: { id: tempId, content: '', type: shown.type, mediaId: media.id, replyToId },
+      attempts: 0,
+    });
+  }
+
+  // The quote a reply shows until the server's version of it arrives
+  private quote(chatId: string, messageId: string | undefined): QuotedMessage | undefined {
+    const message = messageId ? this.store.getState().messages[chatId]?.[messageId] : undefined;
+    return message && toQuotedMessage(message);
+  }
+
+  /** Creates a group; resolves with the new chat, or null if the server rejected it. */
+  createGroup(groupName: string, memberIds: string[]): Promise<Chat | null> {
+    const user = this.currentUser;
+    const socket = this.socket;
+    if (!socket || !user) {
+      this.notify({ title: 'Error', description: 'Not connected.', variant: 'destructive' });
+      return Promise.resolve(null);
+    }
+    if (!groupName.trim() || memberIds.length === 0) {
+      this.notify({ title: 'Invalid Group', description: 'Group name and at least one member are required.', variant: 'destructive' });
+      return Promise.resolve(null);
+    }
+
+    return new Promise(resolve => {
+      socket.emit('create_group', groupName, [user.id, ...memberIds], validatedAck(createGroupAckSchema, 'create_group', ack => {
+        if (ack.success && 'newChat' in ack && ack.newChat) {
+          this.store.dispatch({ type: 'UPSERT_CHAT', chat: ack.newChat, moveToTop: true });
+          this.selectChat(ack.newChat.id);
+          this.emit('chat_opened', ack.newChat.id);
+          this.notify({ title: 'Group Created', description: `Group "${groupName}" was successfully created.` });
+          resolve(ack.newChat);
+        } else {
+          console.error('Failed to create group:', ack.error);
+          this.notify({ title: 'Group Creation Failed', description: ack.error || 'Could not create the group.', variant: 'destructive' });
+          resolve(null);
+        }
+      }));
+    });
+  }
+}
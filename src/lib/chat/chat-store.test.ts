@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import type { Chat, Message, User } from '@/types';
+import type { ChatChanges } from '@/types/socket';
+import { DEFAULT_USER_SETTINGS } from '@/types/socket';
+import { chatReducer, initialChatState, selectChat, type ChatAction, type ChatState } from './chat-store';
+
+const alice: User = { id: 'alice', name: 'Alice', presence: 'online' };
+const bob: User = { id: 'bob', name: 'Bob', presence: 'online' };
+const policy = { editWindowMs: 60_000, deleteWindowMs: 60_000 };
+
+const message = (id: string, content = id, sender = bob, minute = 0): Message => ({
+  id,
+  sender,
+  content,
+  type: 'text',
+  timestamp: new Date(Date.UTC(2024, 0, 1, 12, minute)),
+});
+
+const chat = (id: string, messages: Message[], extra: Partial<Chat> = {}): Chat => ({
+  id,
+  isGroup: false,
+  participants: [alice, bob],
+  messages,
+  ...extra,
+});
+
+const reduce = (state: ChatState, ...actions: ChatAction[]) => actions.reduce(chatReducer, state);
+
+// Alice, logged in, with the given chats loaded
+function loaded(...chats: Chat[]): ChatState {
+  return reduce(
+    initialChatState,
+    { type: 'RESET', currentUser: alice },
+    { type: 'LOAD_INITIAL_DATA', chats, users: [alice, bob], calls: [], policy, settings: DEFAULT_USER_SETTINGS }
+  );
+}
+
+const contents = (state: ChatState, chatId: string) => selectChat(state, chatId)?.messages.map(m => m.content);
+
+const changes = (chatId: string, messages: Message[], extra: Partial<ChatChanges> = {}): ChatChanges => ({
+  chat: chat(chatId, messages),
+  isReset: false,
+  updatedMessages: [],
+  removedMessageIds: [],
+  ...extra,
+});
+
+const sync = (...chats: ChatChanges[]): ChatAction => ({
+  type: 'APPLY_SYNC',
+  changes: chats,
+  users: [alice, bob],
+  calls: [],
+  settings: DEFAULT_USER_SETTINGS,
+});
+
+describe('chatReducer', () => {
+  describe('LOAD_INITIAL_DATA', () => {
+    it('orders chats by their latest message and selects the most recent', () => {
+      const state = loaded(chat('older', [message('m1', 'm1', bob, 1)]), chat('newer', [message('m2', 'm2', bob, 2)]));
+      expect(state.chatOrder).toEqual(['newer', 'older']);
+      expect(state.selectedChatId).toBe('newer');
+      expect(state.isLoading).toBe(false);
+    });
+
+    it('keeps messages the server has not acked yet', () => {
+      const pending = message('temp_1', 'pending', alice, 5);
+      let state = reduce(loaded(chat('c', [message('m1')])), { type: 'ADD_MESSAGE', chatId: 'c', message: pending, incrementUnread: false });
+      state = reduce(state, { type: 'LOAD_INITIAL_DATA', chats: [chat('c', [message('m1'), message('m2')])], users: [], calls: [], policy, settings: DEFAULT_USER_SETTINGS });
+      expect(state.chats.c.messageIds).toEqual(['m1', 'm2', 'temp_1']);
+    });
+  });
+
+  describe('ADD_MESSAGE', () => {
+    it('ignores a message that is already loaded, e.g. an outbox entry added again', () => {
+      const pending = message('temp_1', 'pending', alice);
+      const added = reduce(loaded(chat('c', [])), { type: 'ADD_MESSAGE', chatId: 'c', message: pending, incrementUnread: false });
+      expect(chatReducer(added, { type: 'ADD_MESSAGE', chatId: 'c', message: pending, incrementUnread: false })).toBe(added);
+    });
+  });
+
+  describe('UPDATE_MESSAGE', () => {
+    it('re-keys a temporary message once the server assigns its ID', () => {
+      let state = reduce(loaded(chat('c', [message('m1')])), { type: 'ADD_MESSAGE', chatId: 'c', message: message('temp_1', 'hi', alice), incrementUnread: false });
+      state = reduce(state, { type: 'UPDATE_MESSAGE', chatId: 'c', messageId: 'temp_1', changes: { id: 'm2', status: 'sent' } });
+      expect(state.chats.c.messageIds).toEqual(['m1', 'm2']);
+      expect(state.messages.c.temp_1).toBeUndefined();
+      expect(state.messages.c.m2).toMatchObject({ id: 'm2', content: 'hi', status: 'sent' });
+    });
+
+    it('drops the temporary message when the server ID is already loaded', () => {
+      let state = reduce(loaded(chat('c', [message('m1')])), { type: 'ADD_MESSAGE', chatId: 'c', message: message('temp_1', 'hi', alice), incrementUnread: false });
+      // The message arrived during a sync before the ack of its retry
+      state = reduce(state, { type: 'ADD_MESSAGE', chatId: 'c', message: message('m2', 'hi', alice), incrementUnread: false });
+      state = reduce(state, { type: 'UPDATE_MESSAGE', chatId: 'c', messageId: 'temp_1', changes: { id: 'm2' } });
+      expect(state.chats.c.messageIds).toEqual(['m1', 'm2']);
+      expect(Object.keys(state.messages.c)).toEqual(['m1', 'm2']);
+    });
+  });
+
+  describe('APPLY_SYNC', () => {
+    it('appends the missed messages and keeps unacked ones last', () => {
+      let state = reduce(loaded(chat('c', [message('m1')])), { type: 'ADD_MESSAGE', chatId: 'c', message: message('temp_1', 'pending', alice), incrementUnread: false });
+      state = reduce(state, sync(changes('c', [message('m2'), message('m3')])));
+      expect(state.chats.c.messageIds).toEqual(['m1', 'm2', 'm3', 'temp_1']);
+    });
+
+    it('does not duplicate missed messages that arrived live during the sync', () => {
+      let state = loaded(chat('c', [message('m1')]));
+      state = reduce(state, { type: 'ADD_MESSAGE', chatId: 'c', message: message('m3'), incrementUnread: true });
+      state = reduce(state, sync(changes('c', [message('m2'), message('m3')])));
+      expect(state.chats.c.messageIds).toEqual(['m1', 'm2', 'm3']);
+    });
+
+    it('replaces updated messages, and the quotes of their replies', () => {
+      const reply: Message = { ...message('m2', 'reply', alice), replyTo: { id: 'm1', sender: bob, type: 'text', content: 'm1' } };
+      let state = loaded(chat('c', [message('m1'), reply]));
+      state = reduce(state, sync(changes('c', [], { updatedMessages: [message('m1', 'edited')] })));
+      expect(contents(state, 'c')).toEqual(['edited', 'reply']);
+      expect(state.messages.c.m2.replyTo?.content).toBe('edited');
+    });
+
+    it('ignores updates to messages older than the loaded history', () => {
+      const state = reduce(loaded(chat('c', [message('m5')])), sync(changes('c', [], { updatedMessages: [message('m1', 'edited')] })));
+      expect(state.chats.c.messageIds).toEqual(['m5']);
+      expect(state.messages.c.m1).toBeUndefined();
+    });
+
+    it('removes messages deleted for the user on another device', () => {
+      const state = reduce(loaded(chat('c', [message('m1'), message('m2')])), sync(changes('c', [], { removedMessageIds: ['m1'] })));
+      expect(state.chats.c.messageIds).toEqual(['m2']);
+    });
+
+    it('replaces the history of a reset chat, keeping its unacked messages', () => {
+      let state = reduce(
+        loaded(chat('c', [message('m1'), message('m2')], { hasMoreMessages: false })),
+        { type: 'ADD_MESSAGE', chatId: 'c', message: message('temp_1', 'pending', alice), incrementUnread: false }
+      );
+      state = reduce(state, sync(changes('c', [message('m200')], { isReset: true, chat: chat('c', [message('m200')], { hasMoreMessages: true }) })));
+      expect(state.chats.c.messageIds).toEqual(['m200', 'temp_1']);
+      expect(state.chats.c.hasMoreMessages).toBe(true);
+    });
+
+    it('adds new chats and drops the ones the user left', () => {
+      let state = reduce(loaded(chat('left', [message('m1')]), chat('kept', [message('m2')])), { type: 'SELECT_CHAT', chatId: 'left' });
+      state = reduce(state, sync(changes('kept', []), changes('new', [message('m3', 'm3', bob, 9)], { isReset: true })));
+      expect(state.chatOrder).toEqual(['new', 'kept']);
+      expect(state.chats.left).toBeUndefined();
+      expect(state.selectedChatId).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,456 @@
+import type { User, Presence, Chat, Message, Call } from '@/types';
+import { DEFAULT_USER_SETTINGS, type ChatChanges, type MessagePolicy, type UserSettings } from '@/types/socket';
+import { toQuotedMessage } from '@/lib/messages';
+
+// Normalized client-side chat state. Chats and users are keyed by ID, messages are
+// keyed by chat ID and then message ID, with separate arrays holding the order.
+// Denormalized `Chat` objects for components are built by the selectors below.
+
+// syncing: reconnected, and catching up on what was missed while disconnected
+export type ConnectionStatus = 'idle' | 'connecting' | 'connected' | 'disconnected' | 'syncing';
+
+export interface ChatEntry {
+  id: string;
+  name?: string;
+  isGroup: boolean;
+  participantIds: string[];
+  messageIds: string[]; // Oldest first
+  hasMoreMessages: boolean; // Older messages exist on the server that aren't loaded yet
+  unreadCount: number;
+}
+
+export interface ChatState {
+  connectionStatus: ConnectionStatus;
+  isLoading: boolean; // True until the first initial_data arrives
+  currentUserId: string | null;
+  users: Record<string, User>;
+  userIds: string[];
+  chats: Record<string, ChatEntry>;
+  chatOrder: string[]; // Most recently active first
+  messages: Record<string, Record<string, Message>>; // chatId -> messageId -> message
+  calls: Record<string, Call>; // Call history
+  callIds: string[]; // Most recent first
+  policy: MessagePolicy; // What the server allows, e.g. how long messages can be edited
+  settings: UserSettings; // The current user's preferences
+  typing: Record<string, string[]>; // chatId -> the other participants typing in it, in the order they started
+  selectedChatId: string | null;
+}
+
+export const initialChatState: ChatState = {
+  connectionStatus: 'idle',
+  isLoading: false,
+  currentUserId: null,
+  users: {},
+  userIds: [],
+  chats: {},
+  chatOrder: [],
+  messages: {},
+  calls: {},
+  callIds: [],
+  policy: { editWindowMs: 0, deleteWindowMs: 0 }, // Nothing is editable until the server says otherwise
+  settings: DEFAULT_USER_SETTINGS,
+  typing: {},
+  selectedChatId: null,
+};
+
+export type ChatAction =
+  | { type: 'RESET'; currentUser: User | null }
+  | { type: 'SET_CONNECTION_STATUS'; status: ConnectionStatus }
+  | { type: 'SET_LOADING'; isLoading: boolean }
+  | { type: 'LOAD_INITIAL_DATA'; chats: Chat[]; users: User[]; calls: Call[]; policy: MessagePolicy; settings: UserSettings }
+  | { type: 'APPLY_SYNC'; changes: ChatChanges[]; users: User[]; calls: Call[]; settings: UserSettings }
+  | { type: 'UPSERT_CHAT'; chat: Chat; moveToTop: boolean }
+  | { type: 'ADD_MESSAGE'; chatId: string; message: Message; incrementUnread: boolean }
+  | { type: 'PREPEND_MESSAGES'; chatId: string; messages: Message[]; hasMore: boolean }
+  | { type: 'UPDATE_MESSAGE'; chatId: string; messageId: string; changes: Partial<Message> }
+  | { type: 'REPLACE_MESSAGE'; chatId: string; message: Message }
+  | { type: 'REMOVE_MESSAGE'; chatId: string; messageId: string }
+  | { type: 'SET_USER_PRESENCE'; userId: string; presence: Presence; lastSeen?: Date }
+  | { type: 'SET_TYPING'; chatId: string; userId: string; isTyping: boolean }
+  | { type: 'SET_SETTINGS'; settings: UserSettings }
+  | { type: 'SELECT_CHAT'; chatId: string | null }
+  | { type: 'CLEAR_UNREAD'; chatId: string };
+
+function indexUsers(users: Record<string, User>, userIds: string[], incoming: User[]) {
+  const nextUsers = { ...users };
+  const nextIds = userIds.slice();
+  for (const user of incoming) {
+    if (!nextUsers[user.id]) nextIds.push(user.id);
+    nextUsers[user.id] = { ...nextUsers[user.id], ...user };
+  }
+  return { users: nextUsers, userIds: nextIds };
+}
+
+function indexChat(chat: Chat, existing?: ChatEntry): { entry: ChatEntry; messages: Record<string, Message> } {
+  const messages: Record<string, Message> = {};
+  for (const message of chat.messages ?? []) {
+    messages[message.id] = message;
+  }
+  return {
+    entry: {
+      id: chat.id,
+      name: chat.name,
+      isGroup: chat.isGroup,
+      participantIds: chat.participants.map(p => p.id),
+      messageIds: (chat.messages ?? []).map(m => m.id),
+      hasMoreMessages: chat.hasMoreMessages ?? false,
+      unreadCount: chat.unreadCount ?? existing?.unreadCount ?? 0,
+    },
+    messages,
+  };
+}
+
+const lastTimestamp = (state: Pick<ChatState, 'chats' | 'messages'>, chatId: string) => {
+  const entry = state.chats[chatId];
+  const lastId = entry?.messageIds[entry.messageIds.length - 1];
+  const last = lastId ? state.messages[chatId]?.[lastId] : undefined;
+  return last ? new Date(last.timestamp).getTime() : 0;
+};
+
+const moveToTop = (order: string[], id: string) => [id, ...order.filter(other => other !== id)];
+
+const byLastActivity = (state: Pick<ChatState, 'chats' | 'messages'>, chatIds: string[]) =>
+  chatIds.slice().sort((a, b) => lastTimestamp(state, b) - lastTimestamp(state, a));
+
+const isTemporary = (messageId: string) => messageId.startsWith('temp_');
+
+// Brings one chat up to date with what the server says changed while disconnected
+function applyChatChanges(changes: ChatChanges, existing: ChatEntry | undefined, existingMessages: Record<string, Message>) {
+  const indexed = indexChat(changes.chat, existing);
+  const pendingIds = existing?.messageIds.filter(isTemporary) ?? [];
+  if (changes.isReset || !existing) {
+    // Messages the server hasn't acked yet stay last
+    indexed.entry.messageIds.push(...pendingIds);
+    for (const id of pendingIds) indexed.messages[id] = existingMessages[id];
+    return indexed;
+  }
+
+  const messages = { ...existingMessages };
+  const removed = new Set(changes.removedMessageIds);
+  for (const id of removed) delete messages[id];
+  const updatedIds = new Set<string>();
+  for (const message of changes.updatedMessages) {
+    if (!messages[message.id]) continue; // Older than the loaded history
+    messages[message.id] = message;
+    updatedIds.add(message.id);
+  }
+  // Missed messages go after the loaded ones, in the server's order, even those that arrived live while the sync was in flight
+  const missedIds = new Set(changes.chat.messages.map(message => message.id));
+  const serverIds = existing.messageIds.filter(id => !isTemporary(id) && !removed.has(id) && !missedIds.has(id));
+  for (const message of changes.chat.messages) {
+    serverIds.push(message.id);
+    messages[message.id] = message;
+  }
+  // Replies quote the message, so they show the edit or the deletion too
+  for (const message of Object.values(messages)) {
+    if (message.replyTo && updatedIds.has(message.replyTo.id)) {
+      messages[message.id] = { ...message, replyTo: toQuotedMessage(messages[message.replyTo.id]) };
+    }
+  }
+  return {
+    entry: { ...indexed.entry, messageIds: [...serverIds, ...pendingIds], hasMoreMessages: existing.hasMoreMessages },
+    messages,
+  };
+}
+
+export function chatReducer(state: ChatState, action: ChatAction): ChatState {
+  switch (action.type) {
+    case 'RESET': {
+      const base = { ...initialChatState };
+      if (!action.currentUser) return base;
+      return {
+        ...base,
+        currentUserId: action.currentUser.id,
+        users: { [action.currentUser.id]: action.currentUser },
+        userIds: [action.currentUser.id],
+      };
+    }
+
+    case 'SET_CONNECTION_STATUS':
+      return { ...state, connectionStatus: action.status };
+
+    case 'SET_LOADING':
+      return { ...state, isLoading: action.isLoading };
+
+    case 'LOAD_INITIAL_DATA': {
+      const participants = action.chats.flatMap(c => c.participants);
+      const { users, userIds } = indexUsers(state.users, state.userIds, [...action.users, ...participants]);
+      // The current user is always online from their own point of view
+      if (state.currentUserId && users[state.currentUserId]) {
+        users[state.currentUserId] = { ...users[state.currentUserId], presence: 'online' };
+      }
+
+      const chats: Record<string, ChatEntry> = {};
+      const messages: Record<string, Record<string, Message>> = {};
+      for (const chat of action.chats) {
+        const indexed = indexChat(chat, state.chats[chat.id]);
+        // Messages the server hasn't acked yet are only known here, e.g. those written while reconnecting
+        for (const id of state.chats[chat.id]?.messageIds ?? []) {
+          if (!isTemporary(id)) continue;
+          indexed.entry.messageIds.push(id);
+          indexed.messages[id] = state.messages[chat.id][id];
+        }
+        chats[chat.id] = indexed.entry;
+        messages[chat.id] = indexed.messages;
+      }
+      const chatOrder = byLastActivity({ chats, messages }, action.chats.map(c => c.id));
+
+      // Keep the selection if the chat still exists, otherwise select the most recent chat
+      const selectedChatId =
+        state.selectedChatId && chats[state.selectedChatId] ? state.selectedChatId : chatOrder[0] ?? null;
+
+      const calls = Object.fromEntries(action.calls.map(call => [call.id, call]));
+      const callIds = action.calls.map(call => call.id);
+
+      return { ...state, users, userIds, chats, chatOrder, messages, calls, callIds, policy: action.policy, settings: action.settings, selectedChatId, isLoading: false };
+    }
+
+    // Unlike LOAD_INITIAL_DATA, keeps the loaded history of every chat and adds only what changed
+    case 'APPLY_SYNC': {
+      const participants = action.changes.flatMap(c => c.chat.participants);
+      const { users, userIds } = indexUsers(state.users, state.userIds, [...action.users, ...participants]);
+      if (state.currentUserId && users[state.currentUserId]) {
+        users[state.currentUserId] = { ...users[state.currentUserId], presence: 'online' };
+      }
+
+      // Chats missing from the changes are ones the user is no longer in
+      const chats: Record<string, ChatEntry> = {};
+      const messages: Record<string, Record<string, Message>> = {};
+      for (const changes of action.changes) {
+        const id = changes.chat.id;
+        const applied = applyChatChanges(changes, state.chats[id], state.messages[id] ?? {});
+        chats[id] = applied.entry;
+        messages[id] = applied.messages;
+      }
+      const chatOrder = byLastActivity({ chats, messages }, action.changes.map(c => c.chat.id));
+      const selectedChatId = state.selectedChatId && chats[state.selectedChatId] ? state.selectedChatId : null;
+
+      const calls = Object.fromEntries(action.calls.map(call => [call.id, call]));
+      const callIds = action.calls.map(call => call.id);
+
+      return { ...state, users, userIds, chats, chatOrder, messages, calls, callIds, settings: action.settings, selectedChatId };
+    }
+
+    case 'UPSERT_CHAT': {
+      const { users, userIds } = indexUsers(state.users, state.userIds, action.chat.participants);
+      const indexed = indexChat(action.chat, state.chats[action.chat.id]);
+      const exists = state.chatOrder.includes(action.chat.id);
+      return {
+        ...state,
+        users,
+        userIds,
+        chats: { ...state.chats, [action.chat.id]: indexed.entry },
+        messages: { ...state.messages, [action.chat.id]: indexed.messages },
+        chatOrder: action.moveToTop || !exists ? moveToTop(state.chatOrder, action.chat.id) : state.chatOrder,
+      };
+    }
+
+    case 'ADD_MESSAGE': {
+      const entry = state.chats[action.chatId];
+      if (!entry) return state;
+      // Ignore duplicates (e.g. a message echoed back after the ack already arrived)
+      if (state.messages[action.chatId]?.[action.message.id]) return state;
+      const { users, userIds } = action.message.sender
+        ? indexUsers(state.users, state.userIds, [action.message.sender])
+        : state;
+      return {
+        ...state,
+        users,
+        userIds,
+        chats: {
+          ...state.chats,
+          [action.chatId]: {
+            ...entry,
+            messageIds: [...entry.messageIds, action.message.id],
+            unreadCount: action.incrementUnread ? entry.unreadCount + 1 : entry.unreadCount,
+          },
+        },
+        messages: {
+          ...state.messages,
+          [action.chatId]: { ...state.messages[action.chatId], [action.message.id]: action.message },
+        },
+        chatOrder: moveToTop(state.chatOrder, action.chatId),
+        // A call message arrives once its call ends, which makes it the latest in the history
+        ...(action.message.call && {
+          calls: { ...state.calls, [action.message.call.id]: action.message.call },
+          callIds: moveToTop(state.callIds, action.message.call.id),
+        }),
+      };
+    }
+
+    case 'PREPEND_MESSAGES': {
+      const entry = state.chats[action.chatId];
+      if (!entry) return state;
+      // Skip anything already loaded, e.g. a message that arrived live while the page was in flight
+      const chatMessages = { ...state.messages[action.chatId] };
+      const older = action.messages.filter(m => !chatMessages[m.id]);
+      for (const message of older) {
+        chatMessages[message.id] = message;
+      }
+      const { users, userIds } = indexUsers(
+        state.users,
+        state.userIds,
+        older.map(m => m.sender).filter((sender): sender is User => !!sender)
+      );
+      return {
+        ...state,
+        users,
+        userIds,
+        chats: {
+          ...state.chats,
+          [action.chatId]: {
+            ...entry,
+            messageIds: [...older.map(m => m.id), ...entry.messageIds],
+            hasMoreMessages: action.hasMore,
+          },
+        },
+        messages: { ...state.messages, [action.chatId]: chatMessages },
+      };
+    }
+
+    case 'UPDATE_MESSAGE': {
+      const entry = state.chats[action.chatId];
+      const message = state.messages[action.chatId]?.[action.messageId];
+      if (!entry || !message) return state;
+      const updated = { ...message, ...action.changes };
+      const chatMessages = { ...state.messages[action.chatId] };
+      let messageIds = entry.messageIds;
+      // Re-key the message when the server replaces a temporary ID
+      if (updated.id !== action.messageId) {
+        delete chatMessages[action.messageId];
+        // Already loaded under that ID, e.g. a retry of a message whose first ack was lost
+        messageIds = chatMessages[updated.id]
+          ? messageIds.filter(id => id !== action.messageId)
+          : messageIds.map(id => (id === action.messageId ? updated.id : id));
+      }
+      chatMessages[updated.id] = updated;
+      return {
+        ...state,
+        chats: messageIds === entry.messageIds ? state.chats : { ...state.chats, [action.chatId]: { ...entry, messageIds } },
+        messages: { ...state.messages, [action.chatId]: chatMessages },
+      };
+    }
+
+    // Unlike UPDATE_MESSAGE, fields missing from the new version are dropped, e.g. a deleted message's media
+    case 'REPLACE_MESSAGE': {
+      if (!state.messages[action.chatId]?.[action.message.id]) return state;
+      const chatMessages = { ...state.messages[action.chatId], [action.message.id]: action.message };
+      // Replies quote the message, so they show the edit or the deletion too
+      for (const message of Object.values(chatMessages)) {
+        if (message.replyTo?.id === action.message.id) {
+          chatMessages[message.id] = { ...message, replyTo: toQuotedMessage(action.message) };
+        }
+      }
+      return { ...state, messages: { ...state.messages, [action.chatId]: chatMessages } };
+    }
+
+    case 'REMOVE_MESSAGE': {
+      const entry = state.chats[action.chatId];
+      if (!entry || !state.messages[action.chatId]?.[action.messageId]) return state;
+      const { [action.messageId]: _removed, ...chatMessages } = state.messages[action.chatId];
+      return {
+        ...state,
+        chats: { ...state.chats, [action.chatId]: { ...entry, messageIds: entry.messageIds.filter(id => id !== action.messageId) } },
+        messages: { ...state.messages, [action.chatId]: chatMessages },
+      };
+    }
+
+    case 'SET_USER_PRESENCE': {
+      const user = state.users[action.userId];
+      if (!user || action.userId === state.currentUserId) return state;
+      return { ...state, users: { ...state.users, [action.userId]: { ...user, presence: action.presence, lastSeen: action.lastSeen } } };
+    }
+
+    case 'SET_TYPING': {
+      const typists = state.typing[action.chatId] ?? [];
+      if (typists.includes(action.userId) === action.isTyping) return state;
+      const next = action.isTyping ? [...typists, action.userId] : typists.filter(id => id !== action.userId);
+      return { ...state, typing: { ...state.typing, [action.chatId]: next } };
+    }
+
+    case 'SET_SETTINGS':
+      return { ...state, settings: action.settings };
+
+    case 'SELECT_CHAT':
+      return { ...state, selectedChatId: action.chatId };
+
+    case 'CLEAR_UNREAD': {
+      const entry = state.chats[action.chatId];
+      if (!entry || entry.unreadCount === 0) return state;
+      return { ...state, chats: { ...state.chats, [action.chatId]: { ...entry, unreadCount: 0 } } };
+    }
+  }
+}
+
+export type ChatStoreListener = (state: ChatState) => void;
+
+/** A minimal observable store around `chatReducer`, usable with or without React. */
+export class ChatStore {
+  private state: ChatState = initialChatState;
+  private listeners = new Set<ChatStoreListener>();
+
+  getState = (): ChatState => this.state;
+
+  dispatch = (action: ChatAction) => {
+    const next = chatReducer(this.state, action);
+    if (next === this.state) return;
+    this.state = next;
+    this.listeners.forEach(listener => listener(next));
+  };
+
+  subscribe = (listener: ChatStoreListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+}
+
+// --- Selectors ---
+
+export const selectCurrentUser = (state: ChatState): User | null =>
+  state.currentUserId ? state.users[state.currentUserId] ?? null : null;
+
+export const selectUsers = (state: ChatState): User[] => state.userIds.map(id => state.users[id]);
+
+// Denormalized chats are cached per entry so unchanged chats keep their identity between renders.
+const chatCache = new WeakMap<ChatEntry, { messages?: Record<string, Message>; users: Record<string, User>; chat: Chat }>();
+
+/** Builds the denormalized `Chat` shape used by components, resolving users to their latest info. */
+export function selectChat(state: ChatState, chatId: string): Chat | undefined {
+  const entry = state.chats[chatId];
+  if (!entry) return undefined;
+  const cached = chatCache.get(entry);
+  if (cached && cached.messages === state.messages[chatId] && cached.users === state.users) return cached.chat;
+
+  const chatMessages = state.messages[chatId] ?? {};
+  const messages = entry.messageIds.map(id => {
+    const message = chatMessages[id];
+    const sender = message.sender ? state.users[message.sender.id] ?? message.sender : message.sender;
+    return sender === message.sender ? message : { ...message, sender };
+  });
+  const chat: Chat = {
+    id: entry.id,
+    name: entry.name,
+    isGroup: entry.isGroup,
+    participants: entry.participantIds.map(id => state.users[id] ?? { id, name: 'Unknown User', presence: 'offline' }),
+    messages,
+    hasMoreMessages: entry.hasMoreMessages,
+    // Failed messages never reached the other participants, so don't preview them
+    lastMessage: [...messages].reverse().find(m => !m.error),
+    unreadCount: entry.unreadCount,
+  };
+  chatCache.set(entry, { messages: state.messages[chatId], users: state.users, chat });
+  return chat;
+}
+
+export const selectChats = (state: ChatState): Chat[] =>
+  state.chatOrder.map(id => selectChat(state, id)).filter((chat): chat is Chat => !!chat);
+
+export const selectCalls = (state: ChatState): Call[] => state.callIds.map(id => state.calls[id]);
+
+/** Chat ID -> the other participants typing in it, in the order they started. */
+export const selectTypingUsers = (state: ChatState): Record<string, User[]> =>
+  Object.fromEntries(
+    Object.entries(state.typing).map(([chatId, userIds]) => [chatId, userIds.map(id => state.users[id]).filter((user): user is User => !!user)])
+  );
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { User } from '@/types';
+import type { MessageAck, OutgoingMessage } from '@/types/socket';
+import type { ChatSocket } from '@/lib/socket';
+import { Outbox, type OutboxEntry } from './outbox';
+
+// There is no IndexedDB here; the outbox works from memory when saving fails, so it only has to answer
+vi.mock('@/lib/local-db', () => ({
+  withLocalStore: vi.fn(async () => []),
+}));
+
+const alice: User = { id: 'alice', name: 'Alice', presence: 'online' };
+
+const entry = (id: string): OutboxEntry => ({
+  id,
+  userId: alice.id,
+  chatId: 'c',
+  message: { id, sender: alice, content: id, type: 'text', timestamp: new Date(), status: 'sent' },
+  outgoing: { id, content: id, type: 'text' },
+  attempts: 0,
+});
+
+type Reply = MessageAck | 'timeout' | 'none';
+
+/** A connected socket that answers each send_message with the next reply; 'none' leaves it waiting. */
+function fakeSocket(replies: Reply[]) {
+  const sent: OutgoingMessage[] = [];
+  const socket = {
+    connected: true,
+    timeout: () => ({
+      emit: (_event: string, _chatId: string, outgoing: OutgoingMessage, callback: (err: Error | null, res?: unknown) => void) => {
+        sent.push(outgoing);
+        const reply = replies.shift() ?? 'none';
+        if (reply === 'timeout') callback(new Error('operation has timed out'));
+        else if (reply !== 'none') callback(null, reply);
+      },
+    }),
+  };
+  return { socket: socket as unknown as ChatSocket, sent };
+}
+
+function createOutbox(socket: ChatSocket | null) {
+  const onSent = vi.fn();
+  const onFailed = vi.fn();
+  const outbox = new Outbox({ getSocket: () => socket, onSent, onFailed });
+  return { outbox, onSent, onFailed };
+}
+
+describe('Outbox', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('sends messages one at a time, oldest first', () => {
+    const { socket, sent } = fakeSocket([{ success: true, messageId: 'm1' }, { success: true, messageId: 'm2' }]);
+    const { outbox, onSent } = createOutbox(socket);
+    outbox.add(entry('temp_1'));
+    outbox.add(entry('temp_2'));
+    expect(sent.map(m => m.id)).toEqual(['temp_1', 'temp_2']);
+    expect(onSent.mock.calls.map(([e, ack]) => [e.id, ack.messageId])).toEqual([['temp_1', 'm1'], ['temp_2', 'm2']]);
+    expect(outbox.pending).toEqual([]);
+  });
+
+  it('keeps messages while disconnected and sends them on flush', () => {
+    const { socket, sent } = fakeSocket([{ success: true, messageId: 'm1' }]);
+    let current: ChatSocket | null = null;
+    const outbox = new Outbox({ getSocket: () => current, onSent: vi.fn(), onFailed: vi.fn() });
+    outbox.add(entry('temp_1'));
+    expect(outbox.pending.map(e => e.id)).toEqual(['temp_1']);
+    current = socket;
+    outbox.flush();
+    expect(sent.map(m => m.id)).toEqual(['temp_1']);
+    expect(outbox.pending).toEqual([]);
+  });
+
+  it('retries an unanswered message with backoff, reusing its ID', () => {
+    const { socket, sent } = fakeSocket(['timeout', 'timeout', { success: true, messageId: 'm1' }]);
+    const { outbox, onSent } = createOutbox(socket);
+    outbox.add(entry('temp_1'));
+    expect(sent).toHaveLength(1);
+    vi.advanceTimersByTime(1000);
+    expect(sent).toHaveLength(2);
+    vi.advanceTimersByTime(1999);
+    expect(sent).toHaveLength(2);
+    vi.advanceTimersByTime(1);
+    expect(sent.map(m => m.id)).toEqual(['temp_1', 'temp_1', 'temp_1']);
+    expect(onSent).toHaveBeenCalledOnce();
+  });
+
+  it('fails a message after the last attempt, and sends the next one', () => {
+    const { socket, sent } = fakeSocket(['timeout', 'timeout', 'timeout', 'timeout', 'timeout', { success: true, messageId: 'm2' }]);
+    const { outbox, onFailed, onSent } = createOutbox(socket);
+    outbox.add(entry('temp_1'));
+    outbox.add(entry('temp_2'));
+    vi.runAllTimers();
+    expect(onFailed).toHaveBeenCalledWith(expect.objectContaining({ id: 'temp_1' }), 'The server did not respond.');
+    expect(sent.map(m => m.id)).toEqual(['temp_1', 'temp_1', 'temp_1', 'temp_1', 'temp_1', 'temp_2']);
+    expect(onSent).toHaveBeenCalledWith(expect.objectContaining({ id: 'temp_2' }), expect.anything());
+    expect(outbox.pending.map(e => [e.id, e.message.error])).toEqual([['temp_1', 'The server did not respond.']]);
+  });
+
+  it('fails a refused message right away, and sends it again on retry', () => {
+    const { socket, sent } = fakeSocket([{ success: false, error: 'Chat not found.' }, { success: true, messageId: 'm1' }]);
+    const { outbox, onFailed, onSent } = createOutbox(socket);
+    outbox.add(entry('temp_1'));
+    expect(onFailed).toHaveBeenCalledWith(expect.objectContaining({ id: 'temp_1' }), 'Chat not found.');
+    expect(outbox.retry('temp_1')).toBe(true);
+    expect(sent).toHaveLength(2);
+    expect(onSent).toHaveBeenCalledOnce();
+    expect(outbox.retry('temp_1')).toBe(false);
+  });
+});
@@ -0,0 +1,155 @@
+import type { Message } from '@/types';
+import { messageAckSchema, type MessageAck, type OutgoingMessage } from '@/types/socket';
+import { validatedAck, type ChatSocket } from '@/lib/socket';
+import { withLocalStore } from '@/lib/local-db';
+
+export interface OutboxEntry {
+  id: string; // The message's temporary ID, which the server also uses to recognize a retry
+  userId: string; // The sender; entries of other accounts used on this browser are left alone
+  chatId: string;
+  message: Message; // As shown until it's sent, e.g. after a reload
+  outgoing: OutgoingMessage;
+  attempts: number; // Sends that went unanswered, reset by a manual retry
+}
+
+export interface OutboxOptions {
+  getSocket: () => ChatSocket | null;
+  onSent: (entry: OutboxEntry, ack: MessageAck) => void; // A successful ack
+  onFailed: (entry: OutboxEntry, error: string) => void;
+}
+
+// How long the server has to ack a message, and how the retries of unanswered ones are spaced
+const ACK_TIMEOUT_MS = 10_000;
+const MAX_SEND_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30_000;
+
+/**
+ * Messages the user sent that the server hasn't acked yet, kept in IndexedDB so they survive a
+ * reload. They're sent one at a time, oldest first, whenever the socket is connected. A send that
+ * goes unanswered is retried with exponential backoff; one the server refuses fails for good and
+ * is only sent again by `retry`.
+ */
+export class Outbox {
+  private entries: OutboxEntry[] = []; // Oldest first
+  private userId: string | null = null;
+  private inFlight: string | null = null; // ID of the entry waiting for its ack
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly options: OutboxOptions) {}
+
+  /** Failed messages included, oldest first. */
+  get pending(): readonly OutboxEntry[] {
+    return this.entries;
+  }
+
+  /** Loads the user's unsent messages, e.g. those left from before a reload. Call `flush` to send them. */
+  async load(userId: string): Promise<void> {
+    this.userId = userId;
+    let stored: OutboxEntry[] = [];
+    try {
+      stored = await withLocalStore<OutboxEntry[]>('outbox', 'readonly', store => store.index('userId').getAll(userId));
+    } catch (error) {
+      console.warn('Could not load the unsent messages:', error);
+    }
+    if (this.userId !== userId) return; // Signed out in the meantime
+    const known = new Set(this.entries.map(entry => entry.id));
+    this.entries = [...stored.filter(entry => !known.has(entry.id)), ...this.entries].sort(
+      (a, b) => new Date(a.message.timestamp).getTime() - new Date(b.message.timestamp).getTime()
+    );
+  }
+
+  /** Queues a message, sending it right away if connected. */
+  add(entry: OutboxEntry) {
+    this.entries.push(entry);
+    this.save(entry);
+    this.flush();
+  }
+
+  /** Sends a failed message again; returns false if it isn't in the outbox. */
+  retry(id: string): boolean {
+    const entry = this.entries.find(e => e.id === id);
+    if (!entry) return false;
+    entry.message = { ...entry.message, status: 'sent', error: undefined };
+    entry.attempts = 0;
+    this.save(entry);
+    this.flush();
+    return true;
+  }
+
+  /** Drops a message without sending it. One already waiting for its ack may still arrive. */
+  remove(id: string) {
+    this.entries = this.entries.filter(e => e.id !== id);
+    void withLocalStore('outbox', 'readwrite', store => store.delete(id)).catch(error => {
+      console.warn(`Could not remove unsent message ${id}:`, error);
+    });
+  }
+
+  /** Sends the oldest message that hasn't failed, and then the next, unless one is already on its way or disconnected. */
+  flush() {
+    const socket = this.options.getSocket();
+    if (this.inFlight || this.retryTimer || !socket?.connected) return;
+    const entry = this.entries.find(e => !e.message.error);
+    if (!entry) return;
+
+    this.inFlight = entry.id;
+    socket.timeout(ACK_TIMEOUT_MS).emit('send_message', entry.chatId, entry.outgoing, (err, res) => {
+      if (this.inFlight !== entry.id) return; // Reset in the meantime
+      this.inFlight = null;
+      if (err) {
+        this.handleUnanswered(entry, socket.connected);
+        return;
+      }
+      validatedAck(messageAckSchema, 'send_message', ack => {
+        if (ack.success && ack.messageId) {
+          this.remove(entry.id);
+          this.options.onSent(entry, ack);
+        } else {
+          console.error(`Failed to send message with tempId ${entry.id}:`, ack.error);
+          this.fail(entry, ack.error || 'Failed to send');
+        }
+        this.flush();
+      })(res);
+    });
+  }
+
+  /** Forgets the queue without touching what is stored, e.g. on sign-out. */
+  reset() {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    this.inFlight = null;
+    this.entries = [];
+    this.userId = null;
+  }
+
+  // Backs off before trying again, unless the connection dropped, which the next connect retries anyway
+  private handleUnanswered(entry: OutboxEntry, isConnected: boolean) {
+    if (!isConnected) return;
+    entry.attempts++;
+    if (entry.attempts >= MAX_SEND_ATTEMPTS) {
+      console.error(`Gave up sending message with tempId ${entry.id} after ${entry.attempts} attempts`);
+      this.fail(entry, 'The server did not respond.');
+      this.flush();
+      return;
+    }
+    this.save(entry);
+    const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (entry.attempts - 1), RETRY_MAX_DELAY_MS);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  private fail(entry: OutboxEntry, error: string) {
+    entry.message = { ...entry.message, status: undefined, error };
+    this.save(entry);
+    this.options.onFailed(entry, error);
+  }
+
+  // Failing to persist only loses the message on reload; it's still sent from memory
+  private save(entry: OutboxEntry) {
+    void withLocalStore('outbox', 'readwrite', store => store.put(entry)).catch(error => {
+      console.warn(`Could not save unsent message ${entry.id}:`, error);
+    });
+  }
+}
@@ -0,0 +1,147 @@
+import type { CompactEmoji, ShortcodesDataset } from 'emojibase';
+
+const RECENT_EMOJIS_STORAGE_KEY = 'chatterbox.recentEmojis';
+const SKIN_TONE_STORAGE_KEY = 'chatterbox.skinTone';
+// How many recently used emojis are remembered
+const MAX_RECENT_EMOJIS = 24;
+
+export interface EmojiEntry {
+  emoji: string;
+  name: string;
+  shortcodes: string[]; // Without colons, e.g. `thumbsup`
+  tags: string[];
+  skins?: string[]; // Variants with skin tones 1-5, lightest first
+}
+
+export interface EmojiCategory {
+  key: string;
+  label: string;
+  emojis: EmojiEntry[];
+}
+
+export interface EmojiData {
+  categories: EmojiCategory[];
+  emojis: EmojiEntry[]; // Every emoji, in category order
+  byShortcode: Map<string, EmojiEntry>;
+}
+
+// Emojibase's groups, by their number; the `component` group (skin tones, hair styles) is left out
+const CATEGORIES: { group: number; key: string; label: string }[] = [
+  { group: 0, key: 'smileys-emotion', label: 'Smileys & Emotion' },
+  { group: 1, key: 'people-body', label: 'People & Body' },
+  { group: 3, key: 'animals-nature', label: 'Animals & Nature' },
+  { group: 4, key: 'food-drink', label: 'Food & Drink' },
+  { group: 5, key: 'travel-places', label: 'Travel & Places' },
+  { group: 6, key: 'activities', label: 'Activities' },
+  { group: 7, key: 'objects', label: 'Objects' },
+  { group: 8, key: 'symbols', label: 'Symbols' },
+  { group: 9, key: 'flags', label: 'Flags' },
+];
+
+// 0 is the default yellow; 1-5 are the Fitzpatrick skin tones, lightest first
+export const SKIN_TONES = ['✋', '✋🏻', '✋🏼', '✋🏽', '✋🏾', '✋🏿'];
+
+let dataPromise: Promise<EmojiData> | null = null;
+
+/**
+ * Loads the emoji dataset with GitHub-style shortcodes. It is a few hundred kilobytes,
+ * so it is only fetched the first time it is needed and then kept.
+ */
+export function loadEmojiData(): Promise<EmojiData> {
+  dataPromise ??= Promise.all([
+    import('emojibase-data/en/compact.json').then(module => module.default as CompactEmoji[]),
+    import('emojibase-data/en/shortcodes/github.json').then(module => module.default as ShortcodesDataset),
+  ])
+    .then(([compact, shortcodes]) => buildEmojiData(compact, shortcodes))
+    .catch(error => {
+      dataPromise = null; // Try again next time
+      throw error;
+    });
+  return dataPromise;
+}
+
+function buildEmojiData(compact: CompactEmoji[], shortcodes: ShortcodesDataset): EmojiData {
+  const byGroup = new Map<number, EmojiEntry[]>();
+  const byShortcode = new Map<string, EmojiEntry>();
+  const sorted = compact.filter(emoji => emoji.group !== undefined).sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+  for (const emoji of sorted) {
+    const codes = shortcodes[emoji.hexcode] ?? [];
+    const entry: EmojiEntry = {
+      emoji: emoji.unicode,
+      name: emoji.label,
+      shortcodes: Array.isArray(codes) ? codes : [codes],
+      tags: emoji.tags ?? [],
+      // One variant per tone; emojis of several people also come in every mix of tones, which aren't offered
+      skins: emoji.skins?.length === 5 ? emoji.skins.map(skin => skin.unicode) : undefined,
+    };
+    const group = byGroup.get(emoji.group!) ?? [];
+    group.push(entry);
+    byGroup.set(emoji.group!, group);
+    for (const code of entry.shortcodes) {
+      if (!byShortcode.has(code)) byShortcode.set(code, entry);
+    }
+  }
+  const categories = CATEGORIES.map(({ group, key, label }) => ({ key, label, emojis: byGroup.get(group) ?? [] }));
+  return { categories, emojis: categories.flatMap(category => category.emojis), byShortcode };
+}
+
+/** The emoji in the given skin tone, if it comes in skin tones. */
+export function withSkinTone(entry: EmojiEntry, tone: number): string {
+  return (tone > 0 && entry.skins?.[tone - 1]) || entry.emoji;
+}
+
+/**
+ * Emojis whose shortcode, name or tags match the query, best matches first: the exact shortcode,
+ * shortcodes starting with the query, names or tags starting with it, then shortcodes containing it.
+ */
+export function searchEmojis(data: EmojiData, query: string, limit = Infinity): EmojiEntry[] {
+  const needle = query.trim().toLowerCase().replace(/^:|:$/g, '');
+  if (!needle) return [];
+  const ranked: [EmojiEntry, number][] = [];
+  for (const entry of data.emojis) {
+    let rank = -1;
+    if (entry.shortcodes.includes(needle)) rank = 0;
+    else if (entry.shortcodes.some(code => code.startsWith(needle))) rank = 1;
+    else if (entry.name.split(/\s+/).some(word => word.startsWith(needle)) || entry.tags.some(tag => tag.startsWith(needle))) rank = 2;
+    else if (entry.shortcodes.some(code => code.includes(needle))) rank = 3;
+    if (rank >= 0) ranked.push([entry, rank]);
+  }
+  // Array sorting is stable, so category order breaks ties
+  return ranked.sort((a, b) => a[1] - b[1]).slice(0, limit).map(([entry]) => entry);
+}
+
+/**
+ * The `:shortcode` being typed just before the caret, if any: from a colon at the start of the
+ * text or after whitespace, followed by at least two shortcode characters.
+ */
+export function findShortcodeQuery(text: string, caret: number): { start: number; query: string } | null {
+  const match = /(?:^|\s):([\w+-]{2,})$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { start: caret - match[1].length - 1, query: match[1].toLowerCase() };
+}
+
+// --- Preferences, remembered per browser ---
+
+export function getRecentEmojis(): string[] {
+  try {
+    const recent: unknown = JSON.parse(localStorage.getItem(RECENT_EMOJIS_STORAGE_KEY) ?? '[]');
+    return Array.isArray(recent) ? recent.filter((emoji): emoji is string => typeof emoji === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Moves the emoji to the front of the recently used ones. */
+export function addRecentEmoji(emoji: string) {
+  const recent = [emoji, ...getRecentEmojis().filter(other => other !== emoji)].slice(0, MAX_RECENT_EMOJIS);
+  localStorage.setItem(RECENT_EMOJIS_STORAGE_KEY, JSON.stringify(recent));
+}
+
+export function getSkinTone(): number {
+  const tone = Number(localStorage.getItem(SKIN_TONE_STORAGE_KEY));
+  return Number.isInteger(tone) && tone >= 0 && tone < SKIN_TONES.length ? tone : 0;
+}
+
+export function setSkinTone(tone: number) {
+  localStorage.setItem(SKIN_TONE_STORAGE_KEY, String(tone));
+}
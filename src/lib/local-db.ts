@@ -0,0 +1,81 @@
+// The browser's IndexedDB database, for what has to outlive the tab: messages still to be sent, and
+// the chats and media cached so the app starts without waiting for the server.
+const DB_NAME = 'chatterbox';
+const DB_VERSION = 2;
+
+// Object stores, each created by the upgrade to the version at the same index
+export type LocalStoreName = 'outbox' | 'chats' | 'media';
+const STORE_NAMES: LocalStoreName[] = ['outbox', 'chats', 'media'];
+
+const upgrades: ((db: IDBDatabase) => void)[] = [
+  db => {
+    const outbox = db.createObjectStore('outbox', { keyPath: 'id' });
+    outbox.createIndex('userId', 'userId');
+  },
+  db => {
+    db.createObjectStore('chats', { keyPath: 'userId' });
+    const media = db.createObjectStore('media', { keyPath: 'url' });
+    media.createIndex('lastUsedAt', 'lastUsedAt');
+  },
+];
+
+let opening: Promise<IDBDatabase> | null = null;
+
+/** Opens (creating or upgrading if needed) the database; rejects where IndexedDB is unavailable, e.g. during server rendering. */
+export function openLocalDb(): Promise<IDBDatabase> {
+  opening ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = event => {
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        upgrades[version](request.result);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab wants a newer version: let it upgrade, and reopen on next use
+      db.onversionchange = () => {
+        db.close();
+        opening = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('The local database is in use by an older version of the app in another tab.'));
+  }).catch(error => {
+    opening = null;
+    throw error;
+  });
+  return opening;
+}
+
+/** Runs `work` in a transaction over the store, resolving with its request's result once the transaction commits. */
+export async function withLocalStore<T>(
+  name: LocalStoreName,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openLocalDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(name, mode);
+    const request = work(transaction.objectStore(name));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('The transaction was aborted.'));
+  });
+}
+
+/** Empties every store, e.g. when the user logs out of a shared computer. */
+export async function clearLocalDb(): Promise<void> {
+  const db = await openLocalDb();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAMES, 'readwrite');
+    for (const name of STORE_NAMES) transaction.objectStore(name).clear();
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('The transaction was aborted.'));
+  });
+}
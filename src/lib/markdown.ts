@@ -0,0 +1,334 @@
+/**
+ * The Markdown subset of chat messages: **bold**, *italic*, ~~strikethrough~~, `inline code`,
+ * ``` fenced code blocks, bulleted and numbered lists and > block quotes. Web addresses become links.
+ *
+ * Messages are parsed into a tree that `MarkdownContent` renders as React elements. There is no
+ * HTML step, so markup, links and images in a message always come out as plain text.
+ */
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'link'; url: string; text: string } // `url` is always http(s)
+  | { type: 'strong' | 'emphasis' | 'strikethrough'; children: InlineNode[] };
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] } // Keeps the line breaks of its text
+  | { type: 'code_block'; language: string | null; text: string }
+  | { type: 'list'; ordered: boolean; start: number; items: InlineNode[][] }
+  | { type: 'blockquote'; children: BlockNode[] };
+
+// Longer messages aren't parsed, since some inputs take quadratic time; they are shown as they are
+const MAX_MARKDOWN_LENGTH = 20_000;
+// Deeper nesting of quotes or of bold/italic/strikethrough is left as text
+const MAX_QUOTE_DEPTH = 4;
+const MAX_INLINE_DEPTH = 4;
+
+const FENCE_OPEN = /^ {0,3}```\s*([\w+#.-]*)\s*$/;
+const FENCE_CLOSE = /^ {0,3}```\s*$/;
+const QUOTE_LINE = /^ {0,3}>\s?(.*)$/;
+const BULLET_ITEM = /^ {0,3}[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^ {0,3}(\d{1,9})[.)]\s+(.*)$/;
+const ESCAPABLE = /[\\`*_~>#+\-.!()[\]]/;
+// A web address, up to whitespace or a character that can't be part of one
+const LINK = /(?:https?:\/\/|www\.)[^\s<>"'`]+/iy;
+// Punctuation that ends a sentence rather than the address
+const LINK_TRAILING_PUNCTUATION = /[.,:;!?'"*_~]+$/;
+
+// Longer markers first, so `**` isn't taken for two `*`
+const DELIMITERS: { marker: string; type: 'strong' | 'emphasis' | 'strikethrough' }[] = [
+  { marker: '**', type: 'strong' },
+  { marker: '__', type: 'strong' },
+  { marker: '~~', type: 'strikethrough' },
+  { marker: '*', type: 'emphasis' },
+  { marker: '_', type: 'emphasis' },
+];
+
+export function parseMarkdown(content: string): BlockNode[] {
+  if (content.length > MAX_MARKDOWN_LENGTH) return [{ type: 'paragraph', children: [{ type: 'text', text: content }] }];
+  return parseBlocks(content.replace(/\r\n?/g, '\n').split('\n'), 0);
+}
+
+function matchListItem(line: string): { ordered: boolean; start: number; text: string } | null {
+  const bullet = BULLET_ITEM.exec(line);
+  if (bullet) return { ordered: false, start: 1, text: bullet[1] };
+  const ordered = ORDERED_ITEM.exec(line);
+  return ordered ? { ordered: true, start: Number(ordered[1]), text: ordered[2] } : null;
+}
+
+function startsBlock(line: string, depth: number): boolean {
+  return FENCE_OPEN.test(line) || (depth < MAX_QUOTE_DEPTH && QUOTE_LINE.test(line)) || matchListItem(line) !== null;
+}
+
+function parseBlocks(lines: string[], depth: number): BlockNode[] {
+  const blocks: BlockNode[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    const fence = FENCE_OPEN.exec(line);
+    if (fence) {
+      // An unclosed fence runs to the end of the message
+      let end = index + 1;
+      while (end < lines.length && !FENCE_CLOSE.test(lines[end])) end++;
+      blocks.push({ type: 'code_block', language: fence[1].toLowerCase() || null, text: lines.slice(index + 1, end).join('\n') });
+      index = end + 1;
+      continue;
+    }
+
+    if (depth < MAX_QUOTE_DEPTH && QUOTE_LINE.test(line)) {
+      const quoted: string[] = [];
+      for (let match; index < lines.length && (match = QUOTE_LINE.exec(lines[index])); index++) quoted.push(match[1]);
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted, depth + 1) });
+      continue;
+    }
+
+    const first = matchListItem(line);
+    if (first) {
+      const items: InlineNode[][] = [];
+      for (let item; index < lines.length && (item = matchListItem(lines[index])) && item.ordered === first.ordered; index++) {
+        items.push(parseInline(item.text, 0));
+      }
+      blocks.push({ type: 'list', ordered: first.ordered, start: first.start, items });
+      continue;
+    }
+
+    // A paragraph runs until a blank line or the start of another block
+    const start = index++;
+    while (index < lines.length && lines[index].trim() && !startsBlock(lines[index], depth)) index++;
+    blocks.push({ type: 'paragraph', children: parseInline(lines.slice(start, index).join('\n'), 0) });
+  }
+  return blocks;
+}
+
+const isWhitespace = (char: string | undefined) => char === undefined || /\s/.test(char);
+const isWordChar = (char: string | undefined) => char !== undefined && /[\p{L}\p{N}]/u.test(char);
+
+/** Whether a marker at `index` can open formatting: it must hug its text, and `_` only counts outside of words (so snake_case stays as it is). */
+function canOpen(text: string, index: number, marker: string): boolean {
+  return !isWhitespace(text[index + marker.length]) && !(marker[0] === '_' && isWordChar(text[index - 1]));
+}
+
+/** Where the marker opened just before `from` closes, or -1. Escaped markers are skipped. */
+function findClosing(text: string, from: number, marker: string): number {
+  for (let index = from + 1; index < text.length; index++) {
+    if (text[index] === '\\') {
+      index++;
+      continue;
+    }
+    if (!text.startsWith(marker, index) || isWhitespace(text[index - 1])) continue;
+    // Close at the end of a run of markers, so `***both***` is bold and italic
+    if (text[index + marker.length] === marker[0]) continue;
+    // A single marker right after the same character is the end of a double one
+    if (marker.length === 1 && text[index - 1] === marker) continue;
+    if (marker[0] === '_' && isWordChar(text[index + marker.length])) continue;
+    return index;
+  }
+  return -1;
+}
+
+function matchLink(text: string, index: number): Extract<InlineNode, { type: 'link' }> | null {
+  LINK.lastIndex = index;
+  let link = LINK.exec(text)?.[0].replace(LINK_TRAILING_PUNCTUATION, '');
+  if (!link) return null;
+  // A closing parenthesis belongs to the address only if it opened one, as in Wikipedia links
+  while (link.endsWith(')') && link.split('(').length < link.split(')').length) link = link.slice(0, -1).replace(LINK_TRAILING_PUNCTUATION, '');
+  if (!/^(?:https?:\/\/|www\.)[^./]/i.test(link)) return null;
+  return { type: 'link', url: /^www\./i.test(link) ? `https://${link}` : link, text: link };
+}
+
+function parseInline(text: string, depth: number): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  // Markers that don't close anywhere further on, so unmatched ones aren't searched for again
+  const unclosed = new Set<string>();
+  let plain = '';
+  const flush = () => {
+    if (plain) nodes.push({ type: 'text', text: plain });
+    plain = '';
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+    if (char === '\\' && ESCAPABLE.test(text[index + 1] ?? '')) {
+      plain += text[index + 1];
+      index += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const ticks = /^`+/.exec(text.slice(index))![0];
+      const close = text.indexOf(ticks, index + ticks.length);
+      if (close === -1) {
+        plain += ticks;
+        index += ticks.length;
+        continue;
+      }
+      flush();
+      nodes.push({ type: 'code', text: text.slice(index + ticks.length, close) });
+      index = close + ticks.length;
+      continue;
+    }
+
+    const link = (char === 'h' || char === 'H' || char === 'w' || char === 'W') && !isWordChar(text[index - 1]) ? matchLink(text, index) : null;
+    if (link) {
+      flush();
+      nodes.push(link);
+      index += link.text.length;
+      continue;
+    }
+
+    const delimiter = depth < MAX_INLINE_DEPTH ? DELIMITERS.find(({ marker }) => text.startsWith(marker, index)) : undefined;
+    if (delimiter) {
+      const start = index + delimiter.marker.length;
+      let close = -1;
+      if (canOpen(text, index, delimiter.marker) && !unclosed.has(delimiter.marker)) {
+        close = findClosing(text, start, delimiter.marker);
+        if (close === -1) unclosed.add(delimiter.marker);
+      }
+      if (close !== -1) {
+        flush();
+        nodes.push({ type: delimiter.type, children: parseInline(text.slice(start, close), depth + 1) });
+        index = close + delimiter.marker.length;
+        continue;
+      }
+      // Not formatting, so take the whole run of markers as text
+      plain += delimiter.marker;
+      index = start;
+      continue;
+    }
+
+    plain += char;
+    index++;
+  }
+  flush();
+  return nodes;
+}
+
+const inlineToText = (nodes: InlineNode[]): string =>
+  nodes.map(node => ('children' in node ? inlineToText(node.children) : node.text)).join('');
+
+function findLink(nodes: InlineNode[]): string | undefined {
+  for (const node of nodes) {
+    const url = node.type === 'link' ? node.url : 'children' in node ? findLink(node.children) : undefined;
+    if (url) return url;
+  }
+  return undefined;
+}
+
+function findBlockLink(blocks: BlockNode[]): string | undefined {
+  for (const block of blocks) {
+    const url =
+      block.type === 'paragraph' ? findLink(block.children)
+      : block.type === 'list' ? block.items.map(findLink).find(Boolean)
+      : block.type === 'blockquote' ? findBlockLink(block.children)
+      : undefined; // Addresses in code aren't links
+    if (url) return url;
+  }
+  return undefined;
+}
+
+/** The first link in a message, which gets the preview. */
+export function getFirstLinkUrl(content: string): string | undefined {
+  return findBlockLink(parseMarkdown(content));
+}
+
+const blocksToText = (blocks: BlockNode[]): string =>
+  blocks
+    .map(block => {
+      switch (block.type) {
+        case 'paragraph':
+          return inlineToText(block.children);
+        case 'code_block':
+          return block.text;
+        case 'list':
+          return block.items.map(inlineToText).join('\n');
+        case 'blockquote':
+          return blocksToText(block.children);
+      }
+    })
+    .join('\n');
+
+/** The text of a message without its Markdown, for previews and quotes. */
+export function toPlainText(content: string): string {
+  return blocksToText(parseMarkdown(content));
+}
+
+// --- Formatting in the composer ---
+
+export type MarkdownFormat = 'bold' | 'italic' | 'strikethrough' | 'code' | 'code_block' | 'bulleted_list' | 'numbered_list' | 'quote';
+
+/** Text being edited, with its selection. */
+export interface TextSelection {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const INLINE_MARKERS: Partial<Record<MarkdownFormat, string>> = {
+  bold: '**',
+  italic: '*',
+  strikethrough: '~~',
+  code: '`',
+};
+
+const LINE_PREFIXES: Partial<Record<MarkdownFormat, { pattern: RegExp; prefix: (index: number) => string }>> = {
+  bulleted_list: { pattern: /^[-*+] /, prefix: () => '- ' },
+  numbered_list: { pattern: /^\d+[.)] /, prefix: index => `${index + 1}. ` },
+  quote: { pattern: /^> ?/, prefix: () => '> ' },
+};
+
+/**
+ * Applies a format to the selection, or takes it off when the selection already has it.
+ * Inline formats wrap the selection (or put the caret between the markers when nothing is
+ * selected); the others apply to every line the selection touches.
+ */
+export function applyFormat({ text, start, end }: TextSelection, format: MarkdownFormat): TextSelection {
+  const marker = INLINE_MARKERS[format];
+  if (marker) {
+    const selected = text.slice(start, end);
+    // The markers around the selection, or at its ends
+    if (text.slice(start - marker.length, start) === marker && text.slice(end, end + marker.length) === marker) {
+      return { text: text.slice(0, start - marker.length) + selected + text.slice(end + marker.length), start: start - marker.length, end: end - marker.length };
+    }
+    if (selected.length >= marker.length * 2 && selected.startsWith(marker) && selected.endsWith(marker)) {
+      const inner = selected.slice(marker.length, -marker.length);
+      return { text: text.slice(0, start) + inner + text.slice(end), start, end: start + inner.length };
+    }
+    return { text: text.slice(0, start) + marker + selected + marker + text.slice(end), start: start + marker.length, end: end + marker.length };
+  }
+
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const nextBreak = text.indexOf('\n', end);
+  const lineEnd = nextBreak === -1 ? text.length : nextBreak;
+  const lines = text.slice(lineStart, lineEnd).split('\n');
+
+  let replacement: string;
+  if (format === 'code_block') {
+    const isFenced = lines.length >= 2 && FENCE_OPEN.test(lines[0]) && FENCE_CLOSE.test(lines[lines.length - 1]);
+    if (!isFenced) {
+      // Select the code inside the new fences, or put the caret there
+      const code = lines.join('\n');
+      return { text: text.slice(0, lineStart) + '```\n' + code + '\n```' + text.slice(lineEnd), start: lineStart + 4, end: lineStart + 4 + code.length };
+    }
+    replacement = lines.slice(1, -1).join('\n');
+  } else {
+    const { pattern, prefix } = LINE_PREFIXES[format]!;
+    const filled = lines.filter(line => line.trim());
+    const isFormatted = filled.length > 0 && filled.every(line => pattern.test(line));
+    let count = 0;
+    replacement = lines
+      .map(line => (isFormatted ? line.replace(pattern, '') : line.trim() ? prefix(count++) + line.replace(pattern, '') : line))
+      .join('\n');
+  }
+  // Without a selection the caret goes to the end of the line, to go on typing
+  return {
+    text: text.slice(0, lineStart) + replacement + text.slice(lineEnd),
+    start: start === end ? lineStart + replacement.length : lineStart,
+    end: lineStart + replacement.length,
+  };
+}
@@ -0,0 +1,87 @@
+import { withLocalStore } from '@/lib/local-db';
+
+// Images shown in chats are kept in IndexedDB, so they show offline and aren't downloaded again.
+// A media URL always points to the same file, so cached files never go stale.
+
+interface CachedMedia {
+  url: string;
+  blob: Blob;
+  size: number; // Bytes
+  lastUsedAt: number; // Epoch ms; the least recently used files are evicted first
+}
+
+// The cache is kept under this size, or under this share of the site's storage quota if that is less
+const MEDIA_CACHE_MAX_BYTES = 200 * 1024 * 1024;
+const MEDIA_CACHE_MAX_QUOTA_SHARE = 0.5;
+// Marking a file as used rewrites it, so it's done at most this often; the order only has to be roughly right
+const TOUCH_INTERVAL_MS = 60 * 60 * 1000;
+
+const loading = new Map<string, Promise<Blob>>(); // URL -> the same file shown in several places loads once
+
+/** Only files from the media server are cached; local previews (blob: and data: URLs) are shown as they are. */
+export const isCacheableMediaUrl = (url: string) => url.startsWith('http://') || url.startsWith('https://');
+
+/** The file at `url`, from the cache or else downloaded and added to it. */
+export function getCachedMedia(url: string): Promise<Blob> {
+  let blob = loading.get(url);
+  if (!blob) {
+    blob = loadMedia(url).finally(() => loading.delete(url));
+    loading.set(url, blob);
+  }
+  return blob;
+}
+
+async function loadMedia(url: string): Promise<Blob> {
+  let cached: CachedMedia | undefined;
+  try {
+    cached = await withLocalStore<CachedMedia | undefined>('media', 'readonly', store => store.get(url));
+  } catch (error) {
+    console.warn(`Could not read ${url} from the media cache:`, error);
+  }
+  if (cached) {
+    if (Date.now() - cached.lastUsedAt > TOUCH_INTERVAL_MS) void saveMedia({ ...cached, lastUsedAt: Date.now() });
+    return cached.blob;
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not download ${url} (${response.status}).`);
+  const blob = await response.blob();
+  void saveMedia({ url, blob, size: blob.size, lastUsedAt: Date.now() }).then(evictMedia);
+  return blob;
+}
+
+// Failing to cache only means the file is downloaded again next time
+async function saveMedia(entry: CachedMedia) {
+  try {
+    await withLocalStore('media', 'readwrite', store => store.put(entry));
+  } catch (error) {
+    console.warn(`Could not cache ${entry.url}:`, error);
+  }
+}
+
+async function getMediaQuota(): Promise<number> {
+  const estimate = navigator.storage?.estimate ? await navigator.storage.estimate().catch(() => undefined) : undefined;
+  return Math.min(MEDIA_CACHE_MAX_BYTES, (estimate?.quota ?? Infinity) * MEDIA_CACHE_MAX_QUOTA_SHARE);
+}
+
+/** Deletes the least recently used files until the cache fits its quota. */
+async function evictMedia() {
+  const quota = await getMediaQuota();
+  let total = 0;
+  try {
+    await withLocalStore('media', 'readwrite', store => {
+      // Most recently used first: everything after the quota is used up goes
+      const request = store.index('lastUsedAt').openCursor(null, 'prev');
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        total += (cursor.value as CachedMedia).size;
+        if (total > quota) cursor.delete();
+        cursor.continue();
+      };
+      return request;
+    });
+  } catch (error) {
+    console.warn('Could not evict media from the cache:', error);
+  }
+}
@@ -0,0 +1,202 @@
+import { decode } from 'blurhash';
+import type { MediaRef } from '@/types';
+import { formatZodError } from '@/types/socket';
+import { uploadStatusSchema, type CreateUpload, type UploadStatus } from '@/types/media';
+import { authErrorSchema } from '@/types/auth';
+import { SERVER_URL } from '@/lib/socket';
+
+// Upload IDs of unfinished uploads, keyed by file fingerprint, so picking the same
+// file again after a reload resumes instead of starting over.
+const PENDING_UPLOADS_STORAGE_KEY = 'chatterbox.pendingUploads';
+const MAX_CHUNK_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 500;
+
+export interface UploadOptions {
+  token: string;
+  onProgress?: (fraction: number) => void; // 0-1, called after every stored chunk
+  signal?: AbortSignal;
+}
+
+class UploadError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+const fingerprint = (file: File) => `${file.name}:${file.size}:${file.lastModified}:${file.type}`;
+
+function readPendingUploads(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_UPLOADS_STORAGE_KEY) ?? '{}') ?? {};
+  } catch {
+    return {};
+  }
+}
+
+function setPendingUpload(key: string, uploadId: string | null) {
+  const pending = readPendingUploads();
+  if (uploadId) pending[key] = uploadId;
+  else delete pending[key];
+  localStorage.setItem(PENDING_UPLOADS_STORAGE_KEY, JSON.stringify(pending));
+}
+
+async function request(path: string, init: RequestInit & { token: string }): Promise<UploadStatus> {
+  const { token, headers, ...rest } = init;
+  const response = await fetch(`${SERVER_URL}${path}`, {
+    ...rest,
+    headers: { Authorization: `Bearer ${token}`, ...headers },
+  });
+  const body: unknown = await response.json().catch(() => null);
+  if (!response.ok) {
+    const error = authErrorSchema.safeParse(body);
+    throw new UploadError(response.status, error.success ? error.data.error : `Upload failed (${response.status}).`);
+  }
+  const status = uploadStatusSchema.safeParse(body);
+  if (!status.success) throw new UploadError(response.status, `Invalid upload status from server: ${formatZodError(status.error)}`);
+  return status.data;
+}
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+// Network failures and server errors are worth retrying; other client errors are not
+const isRetryable = (error: unknown) => !(error instanceof UploadError) || error.status >= 500;
+
+/** Reads the pixel size of an image or video file, if the browser can decode it. */
+export async function readMediaDimensions(file: File): Promise<{ width: number; height: number } | undefined> {
+  try {
+    if (file.type.startsWith('image/')) {
+      const bitmap = await createImageBitmap(file);
+      const size = { width: bitmap.width, height: bitmap.height };
+      bitmap.close();
+      return size;
+    }
+    if (file.type.startsWith('video/')) {
+      const url = URL.createObjectURL(file);
+      try {
+        return await new Promise((resolve, reject) => {
+          const video = document.createElement('video');
+          video.preload = 'metadata';
+          video.onloadedmetadata = () => resolve({ width: video.videoWidth, height: video.videoHeight });
+          video.onerror = () => reject(new Error('Could not read video metadata'));
+          video.src = url;
+        });
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    }
+  } catch (error) {
+    console.warn(`Could not read dimensions of ${file.name}:`, error);
+  }
+  return undefined;
+}
+
+/**
+ * Uploads a file to the server's media store in chunks and resolves with its media reference.
+ * Failed chunks are retried with exponential backoff, and an upload of the same file
+ * that was interrupted earlier (even before a reload) continues from the last stored byte.
+ */
+export async function uploadMedia(file: File, { token, onProgress, signal }: UploadOptions): Promise<MediaRef> {
+  const key = fingerprint(file);
+  let status: UploadStatus | null = null;
+
+  const pendingId = readPendingUploads()[key];
+  if (pendingId) {
+    status = await request(`/media/uploads/${encodeURIComponent(pendingId)}`, { token, signal }).catch(error => {
+      console.warn(`Could not resume upload ${pendingId}, starting over:`, error);
+      return null;
+    });
+  }
+  if (!status) {
+    const dimensions = await readMediaDimensions(file);
+    const upload: CreateUpload = {
+      fileName: file.name,
+      mimeType: file.type as CreateUpload['mimeType'], // Validated by the server
+      size: file.size,
+      ...dimensions,
+    };
+    status = await request('/media/uploads', {
+      method: 'POST',
+      token,
+      signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(upload),
+    });
+    setPendingUpload(key, status.uploadId);
+  }
+
+  const uploadPath = `/media/uploads/${encodeURIComponent(status.uploadId)}`;
+  let attempt = 0;
+  onProgress?.(status.received / status.size);
+  while (!status.media) {
+    const start: number = status.received;
+    const end = Math.min(start + status.chunkSize, status.size);
+    try {
+      status = await request(uploadPath, {
+        method: 'PUT',
+        token,
+        signal,
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'Content-Range': `bytes ${start}-${end - 1}/${status.size}`,
+        },
+        body: file.slice(start, end),
+      });
+      attempt = 0;
+      onProgress?.(status.received / status.size);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      if (error instanceof UploadError && error.status === 409) {
+        // Out of sync with the server (e.g. a chunk stored but its response lost); ask where to continue
+        status = await request(uploadPath, { token, signal });
+        continue;
+      }
+      attempt++;
+      if (!isRetryable(error) || attempt >= MAX_CHUNK_ATTEMPTS) {
+        // Keep the pending upload so a later attempt can resume, unless the server rejected it outright
+        if (!isRetryable(error)) setPendingUpload(key, null);
+        throw error;
+      }
+      console.warn(`Upload chunk at byte ${start} failed (attempt ${attempt}), retrying:`, error);
+      await wait(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), signal);
+    }
+  }
+
+  setPendingUpload(key, null);
+  return status.media;
+}
+
+const blurhashDataUrls = new Map<string, string>();
+
+/**
+ * Decodes a blurhash into a tiny PNG data URL, to use as a placeholder background.
+ * Blurhashes are smooth gradients, so a 32×32 decode can be stretched to any size.
+ */
+export function blurhashToDataUrl(blurhash: string): string | undefined {
+  const cached = blurhashDataUrls.get(blurhash);
+  if (cached || typeof document === 'undefined') return cached;
+  try {
+    const size = 32;
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const context = canvas.getContext('2d');
+    if (!context) return undefined;
+    const imageData = context.createImageData(size, size);
+    imageData.data.set(decode(blurhash, size, size));
+    context.putImageData(imageData, 0, 0);
+    const dataUrl = canvas.toDataURL('image/png');
+    blurhashDataUrls.set(blurhash, dataUrl);
+    return dataUrl;
+  } catch (error) {
+    console.warn('Invalid blurhash:', error);
+    return undefined;
+  }
+}
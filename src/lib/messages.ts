@@ -0,0 +1,64 @@
+import type { Message, QuotedMessage } from '@/types';
+import type { MessagePolicy } from '@/types/socket';
+import { isCallEvent } from './calls';
+import { toPlainText } from './markdown';
+
+// Sent by the user and acknowledged by the server, so the server knows it
+const isOwnSentMessage = (message: Message, userId: string | null | undefined) =>
+  message.sender.id === userId && !message.id.startsWith('temp_') && !message.error && !message.deletedAt;
+
+const isWithin = (message: Message, windowMs: number, now: number) =>
+  now - new Date(message.timestamp).getTime() <= windowMs;
+
+/** Whether the user may still edit the message: their own text, sent, and within the edit window. */
+export function canEditMessage(message: Message, userId: string | null | undefined, policy: MessagePolicy, now = Date.now()): boolean {
+  return message.type === 'text' && isOwnSentMessage(message, userId) && isWithin(message, policy.editWindowMs, now);
+}
+
+/** Whether the user may still delete the message for everyone, rather than only for themselves. */
+export function canDeleteForEveryone(message: Message, userId: string | null | undefined, policy: MessagePolicy, now = Date.now()): boolean {
+  return !isCallEvent(message) && isOwnSentMessage(message, userId) && isWithin(message, policy.deleteWindowMs, now);
+}
+
+/** Whether the user may reply to the message: anything acknowledged by the server, except call events and tombstones. */
+export function canReplyToMessage(message: Message): boolean {
+  return !isCallEvent(message) && !message.id.startsWith('temp_') && !message.error && !message.deletedAt;
+}
+
+/** Whether the user may react to the message: anything acknowledged by the server that wasn't deleted. */
+export function canReactToMessage(message: Message): boolean {
+  return !message.id.startsWith('temp_') && !message.error && !message.deletedAt;
+}
+
+/** What is left of a message deleted for everyone, from the user's point of view. */
+export function getDeletedLabel(message: Pick<Message, 'sender'>, userId: string | null | undefined): string {
+  return message.sender.id === userId ? 'You deleted this message' : 'This message was deleted';
+}
+
+/** The quote of a message shown inside replies to it, as the server builds it. */
+export function toQuotedMessage(message: Message): QuotedMessage {
+  return {
+    id: message.id,
+    sender: message.sender,
+    type: message.type,
+    content: message.type === 'text' ? message.content : '',
+    deletedAt: message.deletedAt,
+  };
+}
+
+/** One-line summary of a quoted message. */
+export function getQuoteSnippet(quote: QuotedMessage, userId: string | null | undefined): string {
+  if (quote.deletedAt) return getDeletedLabel(quote, userId);
+  switch (quote.type) {
+    case 'text':
+      return toPlainText(quote.content);
+    case 'image':
+      return '📷 Image';
+    case 'video':
+      return '📹 Video';
+    case 'call':
+      return '📞 Call';
+    case 'screen_share':
+      return '🖥️ Screen share';
+  }
+}
@@ -0,0 +1,23 @@
+import { formatDistanceToNow } from 'date-fns';
+import type { User } from '@/types';
+
+/** Who is typing, e.g. "Bob is typing…", "Bob and Carol are typing…" or "Bob, Carol and 2 others are typing…". */
+export function getTypingLabel(users: User[]): string {
+  const names = users.map(user => user.name || 'Someone');
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length <= 3) return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]} are typing…`;
+  return `${names.slice(0, 2).join(', ')} and ${names.length - 2} others are typing…`;
+}
+
+/** The user's status line, e.g. "Online", "Away" or "Last seen 5 minutes ago". */
+export function getPresenceLabel(user: User): string {
+  const lastSeen = user.lastSeen && formatDistanceToNow(new Date(user.lastSeen), { addSuffix: true });
+  switch (user.presence) {
+    case 'online':
+      return 'Online';
+    case 'away':
+      return lastSeen ? `Away · last seen ${lastSeen}` : 'Away';
+    case 'offline':
+      return lastSeen ? `Last seen ${lastSeen}` : 'Offline';
+  }
+}
@@ -0,0 +1,28 @@
+import type { MessageReaction, User } from '@/types';
+
+// Offered first when reacting to a message
+export const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+export function hasReacted(reactions: MessageReaction[] | undefined, emoji: string, userId: string): boolean {
+  return !!reactions?.some(reaction => reaction.emoji === emoji && reaction.userIds.includes(userId));
+}
+
+/** The reactions after the user adds their reaction with the emoji, or takes it back if they already reacted with it. */
+export function toggleReaction(reactions: MessageReaction[] | undefined, emoji: string, userId: string): MessageReaction[] {
+  const current = reactions ?? [];
+  if (hasReacted(current, emoji, userId)) {
+    return current
+      .map(reaction => (reaction.emoji === emoji ? { ...reaction, userIds: reaction.userIds.filter(id => id !== userId) } : reaction))
+      .filter(reaction => reaction.userIds.length > 0);
+  }
+  if (current.some(reaction => reaction.emoji === emoji)) {
+    return current.map(reaction => (reaction.emoji === emoji ? { ...reaction, userIds: [...reaction.userIds, userId] } : reaction));
+  }
+  return [...current, { emoji, userIds: [userId] }];
+}
+
+/** Who reacted, e.g. "You, Alice and Bob". */
+export function getReactorsLabel(reaction: MessageReaction, currentUserId: string, resolveUser: (userId: string) => User | undefined): string {
+  const names = reaction.userIds.map(id => (id === currentUserId ? 'You' : resolveUser(id)?.name ?? 'Unknown User'));
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0] ?? '';
+}
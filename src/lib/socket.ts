@@ -0,0 +1,54 @@
+import type { Socket } from 'socket.io-client';
+import type { z } from 'zod';
+import {
+  parsePayload,
+  parseServerEvent,
+  type ClientToServerEvents,
+  type ServerToClientEvents,
+} from '@/types/socket';
+
+export type ChatSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// The chat server serves both the socket and the REST endpoints (auth, media).
+export const SERVER_URL = process.env.NEXT_PUBLIC_SOCKET_URL || 'http://localhost:3001';
+
+/**
+ * Subscribes to a server event, validating its arguments against the shared contract first.
+ * Payloads that don't match are reported through `onInvalid` and never reach the handler.
+ * Returns a function that removes the listener.
+ */
+export function onValidated<E extends keyof ServerToClientEvents>(
+  socket: ChatSocket,
+  event: E,
+  handler: ServerToClientEvents[E],
+  onInvalid: (error: string) => void
+): () => void {
+  const listener = (...args: unknown[]) => {
+    const parsed = parseServerEvent(event, args);
+    if (!parsed.success) {
+      onInvalid(parsed.error);
+      return;
+    }
+    (handler as (...args: unknown[]) => void)(...parsed.data);
+  };
+  // socket.io's typed `on` can't be called with a generic event name, hence the casts.
+  (socket as unknown as Socket).on(event as string, listener);
+  return () => {
+    (socket as unknown as Socket).off(event as string, listener);
+  };
+}
+
+/**
+ * Wraps an ack callback so the server's response is validated before it is used.
+ * An invalid response is turned into `{ success: false, error }`.
+ */
+export function validatedAck<S extends z.ZodTypeAny>(
+  schema: S,
+  label: string,
+  callback: (res: z.output<S> | { success: false; error: string }) => void
+) {
+  return (res: unknown) => {
+    const parsed = parsePayload(schema, res, `${label} ack`);
+    callback(parsed.success ? parsed.data : { success: false, error: parsed.error });
+  };
+}
@@ -0,0 +1,54 @@
+import { credentialsSchema, type AuthSession } from '@/types/auth';
+import type { User } from '@/types';
+import type { Account, AuthStore } from './auth';
+import type { ChatStore } from './store';
+import { HttpError, Router, getBearerToken, readJson, sendJson } from './http';
+
+const toUser = (account: Account, store: ChatStore): User => ({
+  id: account.userId,
+  name: account.username,
+  avatarUrl: account.avatarUrl,
+  presence: store.getUser(account.userId)?.presence ?? 'offline',
+  lastSeen: store.getUser(account.userId)?.lastSeen,
+});
+
+/**
+ * POST /auth/register, POST /auth/login -> AuthSession
+ * GET /auth/session -> AuthSession for the bearer token (used to restore a session)
+ * POST /auth/logout -> revokes the bearer token
+ */
+export function registerAuthRoutes(router: Router, auth: AuthStore, store: ChatStore) {
+  const startSession = async (account: Account): Promise<AuthSession> => {
+    const { token, expiresAt } = await auth.createSession(account.userId);
+    return { token, expiresAt, user: toUser(account, store) };
+  };
+
+  router.add('POST', '/auth/register', async ({ req, res }) => {
+    const { username, password } = await readJson(req, credentialsSchema);
+    const account = await auth.register(username, password);
+    store.upsertUser(account.userId, account.username, account.avatarUrl);
+    console.log(`Registered user ${account.username} (${account.userId})`);
+    sendJson(res, 201, await startSession(account));
+  });
+
+  router.add('POST', '/auth/login', async ({ req, res }) => {
+    const { username, password } = await readJson(req, credentialsSchema);
+    const account = await auth.verifyPassword(username, password);
+    sendJson(res, 200, await startSession(account));
+  });
+
+  router.add('GET', '/auth/session', ({ req, res }) => {
+    const token = getBearerToken(req);
+    const account = auth.verifySession(token);
+    if (!token || !account) throw new HttpError(401, 'Session expired. Please log in again.');
+    const session: AuthSession = { token, expiresAt: auth.getSessionExpiry(token)!, user: toUser(account, store) };
+    sendJson(res, 200, session);
+  });
+
+  router.add('POST', '/auth/logout', async ({ req, res }) => {
+    const token = getBearerToken(req);
+    if (token) await auth.revokeSession(token);
+    res.writeHead(204);
+    res.end();
+  });
+}
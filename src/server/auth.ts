@@ -0,0 +1,153 @@
+import { randomBytes, randomUUID, scrypt, timingSafeEqual, createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { promisify } from 'node:util';
+import { HttpError } from './http';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+export interface Account {
+  userId: string;
+  username: string;
+  avatarUrl: string;
+  salt: string; // hex
+  passwordHash: string; // hex, scrypt(password, salt)
+  createdAt: string;
+}
+
+interface StoredSession {
+  userId: string;
+  expiresAt: string;
+}
+
+interface AuthFile {
+  accounts: Account[];
+  sessions: Record<string, StoredSession>; // sha256(token) -> session
+}
+
+// Only a hash of each token is persisted, so a leaked auth file can't be used to log in.
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const normalizeUsername = (username: string) => username.trim().toLowerCase();
+
+/**
+ * File-backed credential and session store.
+ * Passwords are hashed with scrypt and a per-account salt; the file is rewritten
+ * atomically (write to a temp file, then rename) after every change.
+ */
+export class AuthStore {
+  private accounts = new Map<string, Account>(); // userId -> account
+  private accountIdsByUsername = new Map<string, string>(); // normalized username -> userId
+  private sessions = new Map<string, StoredSession>();
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    this.load();
+  }
+
+  private load() {
+    if (!existsSync(this.filePath)) return;
+    const data = JSON.parse(readFileSync(this.filePath, 'utf8')) as AuthFile;
+    for (const account of data.accounts ?? []) {
+      this.accounts.set(account.userId, account);
+      this.accountIdsByUsername.set(normalizeUsername(account.username), account.userId);
+    }
+    const now = Date.now();
+    for (const [tokenHash, session] of Object.entries(data.sessions ?? {})) {
+      if (new Date(session.expiresAt).getTime() > now) this.sessions.set(tokenHash, session);
+    }
+  }
+
+  // Writes are chained so concurrent changes never interleave on disk.
+  private persist(): Promise<void> {
+    const data: AuthFile = {
+      accounts: Array.from(this.accounts.values()),
+      sessions: Object.fromEntries(this.sessions),
+    };
+    this.pendingWrite = this.pendingWrite
+      .catch(() => {})
+      .then(async () => {
+        mkdirSync(dirname(this.filePath), { recursive: true });
+        const tempPath = `${this.filePath}.tmp`;
+        await writeFile(tempPath, JSON.stringify(data, null, 2), { mode: 0o600 });
+        await rename(tempPath, this.filePath);
+      });
+    return this.pendingWrite;
+  }
+
+  getAccounts(): Account[] {
+    return Array.from(this.accounts.values());
+  }
+
+  async register(username: string, password: string): Promise<Account> {
+    const key = normalizeUsername(username);
+    if (this.accountIdsByUsername.has(key)) {
+      throw new HttpError(409, 'That username is already taken.');
+    }
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(password, salt, KEY_LENGTH);
+    // Re-check after the async hash in case of a concurrent registration
+    if (this.accountIdsByUsername.has(key)) {
+      throw new HttpError(409, 'That username is already taken.');
+    }
+    const account: Account = {
+      userId: `user_${randomUUID()}`,
+      username: username.trim(),
+      avatarUrl: `https://picsum.photos/seed/${encodeURIComponent(key)}/100/100`,
+      salt: salt.toString('hex'),
+      passwordHash: hash.toString('hex'),
+      createdAt: new Date().toISOString(),
+    };
+    this.accounts.set(account.userId, account);
+    this.accountIdsByUsername.set(key, account.userId);
+    await this.persist();
+    return account;
+  }
+
+  async verifyPassword(username: string, password: string): Promise<Account> {
+    const userId = this.accountIdsByUsername.get(normalizeUsername(username));
+    const account = userId ? this.accounts.get(userId) : undefined;
+    // Hash even for unknown users so response timing doesn't reveal which usernames exist
+    const salt = account ? Buffer.from(account.salt, 'hex') : randomBytes(16);
+    const hash = await scryptAsync(password, salt, KEY_LENGTH);
+    if (!account || !timingSafeEqual(hash, Buffer.from(account.passwordHash, 'hex'))) {
+      throw new HttpError(401, 'Invalid username or password.');
+    }
+    return account;
+  }
+
+  async createSession(userId: string): Promise<{ token: string; expiresAt: string }> {
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + SESSION_TTL_MS).toISOString();
+    this.sessions.set(hashToken(token), { userId, expiresAt });
+    await this.persist();
+    return { token, expiresAt };
+  }
+
+  /** Returns the account for a valid, unexpired token, or undefined. */
+  verifySession(token: unknown): Account | undefined {
+    if (typeof token !== 'string' || !token) return undefined;
+    const tokenHash = hashToken(token);
+    const session = this.sessions.get(tokenHash);
+    if (!session) return undefined;
+    if (new Date(session.expiresAt).getTime() <= Date.now()) {
+      this.sessions.delete(tokenHash);
+      // Nothing waits for this: an expired session is refused either way, and the next write drops it from disk
+      void this.persist().catch(error => console.error('Could not save the removal of an expired session:', error));
+      return undefined;
+    }
+    return this.accounts.get(session.userId);
+  }
+
+  getSessionExpiry(token: string): string | undefined {
+    return this.sessions.get(hashToken(token))?.expiresAt;
+  }
+
+  async revokeSession(token: string): Promise<void> {
+    if (this.sessions.delete(hashToken(token))) await this.persist();
+  }
+}
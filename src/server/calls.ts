@@ -0,0 +1,210 @@
+import type { CallOutcome } from '@/types';
+import type { CallEndReason, CallInfo, CallType } from '@/types/call';
+import type { ChatStore } from './store';
+import { userRoom, type ChatServer } from './handlers';
+
+// How long a call rings before the invitees who haven't answered stop ringing
+const RING_TIMEOUT_MS = 45_000;
+
+export interface ActiveCall {
+  id: string;
+  chatId: string;
+  type: CallType;
+  callerId: string;
+  isGroup: boolean;
+  participantIds: string[];
+  // The socket (tab) each participant takes part from; invitees are added when they join
+  sockets: Map<string, string>;
+  ringing: Set<string>;
+  answered: boolean; // Someone besides the caller has joined at some point
+  screenShare?: { userId: string; streamId: string; startedAt: Date };
+  ringTimer?: ReturnType<typeof setTimeout>;
+}
+
+// Why a call ended, as kept in the history; leaving an answered call completes it
+const OUTCOMES: Record<CallEndReason, CallOutcome> = {
+  hangup: 'completed',
+  declined: 'declined',
+  missed: 'missed',
+  cancelled: 'cancelled',
+};
+
+/**
+ * Calls in progress. Their signaling state only matters while they last, so it is kept in
+ * memory; the store keeps each call's history entry, and a `call` message referencing it is
+ * added to the chat once the call ends.
+ *
+ * A direct call ends as soon as either side leaves. A group call goes on while anyone is
+ * in it, and members who weren't rung (or came online later) can join at any time.
+ * Every change is broadcast to the chat's participants as `call_updated`.
+ */
+export class CallRegistry {
+  private calls = new Map<string, ActiveCall>();
+
+  constructor(private readonly io: ChatServer, private readonly store: ChatStore) {}
+
+  get(callId: string): ActiveCall | undefined {
+    return this.calls.get(callId);
+  }
+
+  /** The call the user is taking part in, if any. */
+  findJoined(userId: string): ActiveCall | undefined {
+    for (const call of this.calls.values()) {
+      if (call.sockets.has(userId)) return call;
+    }
+    return undefined;
+  }
+
+  findByChat(chatId: string): ActiveCall | undefined {
+    for (const call of this.calls.values()) {
+      if (call.chatId === chatId) return call;
+    }
+    return undefined;
+  }
+
+  /** Starts a call and rings `inviteeIds` on all of their tabs. */
+  start(chatId: string, type: CallType, callerId: string, socketId: string, inviteeIds: string[]): CallInfo {
+    const call: ActiveCall = {
+      id: this.store.createCall(chatId, type, callerId).id,
+      chatId,
+      type,
+      callerId,
+      isGroup: this.store.isGroup(chatId),
+      participantIds: this.store.getParticipantIds(chatId),
+      sockets: new Map([[callerId, socketId]]),
+      ringing: new Set(inviteeIds),
+      answered: false,
+    };
+    call.ringTimer = setTimeout(() => this.stopRinging(call), RING_TIMEOUT_MS);
+    this.calls.set(call.id, call);
+    console.log(`User ${callerId} started ${type} call ${call.id} in chat ${chatId}`);
+    this.broadcast(call);
+    return this.toInfo(call);
+  }
+
+  /** Adds the user to the call. Whoever is already in it then sends them an offer. */
+  join(call: ActiveCall, userId: string, socketId: string) {
+    call.ringing.delete(userId);
+    call.sockets.set(userId, socketId);
+    call.answered = true;
+    this.store.addCallParticipant(call.id, userId);
+    for (const [otherId, otherSocketId] of call.sockets) {
+      if (otherId !== userId) this.io.to(otherSocketId).emit('call_accepted', call.id, userId);
+    }
+    this.broadcast(call);
+  }
+
+  decline(call: ActiveCall, userId: string) {
+    call.ringing.delete(userId);
+    // Nobody left to answer
+    if (!call.answered && call.ringing.size === 0) this.end(call.id, 'declined');
+    else this.broadcast(call);
+  }
+
+  leave(call: ActiveCall, userId: string) {
+    if (call.screenShare?.userId === userId) this.finishScreenShare(call);
+    call.sockets.delete(userId);
+    if (call.sockets.size === 0 || !call.isGroup) {
+      this.end(call.id, call.answered ? 'hangup' : 'cancelled');
+      return;
+    }
+    for (const otherSocketId of call.sockets.values()) {
+      this.io.to(otherSocketId).emit('call_participant_left', call.id, userId);
+    }
+    this.broadcast(call);
+  }
+
+  /** Shows the participant's screen to the others, in place of whoever was presenting. */
+  startScreenShare(call: ActiveCall, userId: string, streamId: string) {
+    if (call.screenShare) this.finishScreenShare(call);
+    call.screenShare = { userId, streamId, startedAt: new Date() };
+    this.broadcast(call);
+  }
+
+  stopScreenShare(call: ActiveCall) {
+    this.finishScreenShare(call);
+    this.broadcast(call);
+  }
+
+  /** Ends the call for everyone and adds it to the chat with its outcome. */
+  end(callId: string, reason: CallEndReason) {
+    const call = this.calls.get(callId);
+    if (!call) return;
+    clearTimeout(call.ringTimer);
+    this.finishScreenShare(call);
+    this.calls.delete(callId);
+    this.io.to(call.participantIds.map(userRoom)).emit('call_ended', callId, reason);
+    this.record(call, OUTCOMES[reason]);
+    console.log(`Call ${callId} ended: ${OUTCOMES[reason]}`);
+  }
+
+  /**
+   * Tells a newly connected socket about calls going on in its chats. A group member who
+   * just came online is also rung, so they can join a call that started without them.
+   */
+  handleConnect(userId: string, socketId: string, cameOnline: boolean) {
+    for (const call of this.calls.values()) {
+      if (!call.participantIds.includes(userId) || call.sockets.has(userId)) continue;
+      if (cameOnline && call.isGroup && !this.findJoined(userId)) {
+        call.ringing.add(userId);
+        this.broadcast(call);
+      } else {
+        this.io.to(socketId).emit('call_updated', this.toInfo(call));
+      }
+    }
+  }
+
+  /** Leaves calls taken part in from a socket that went away. */
+  handleDisconnect(userId: string, socketId: string) {
+    for (const call of Array.from(this.calls.values())) {
+      if (call.sockets.get(userId) === socketId) this.leave(call, userId);
+      // Their last tab is gone, so nobody can answer on their behalf
+      else if (!this.store.isOnline(userId) && call.ringing.delete(userId)) this.decline(call, userId);
+    }
+  }
+
+  private stopRinging(call: ActiveCall) {
+    call.ringTimer = undefined;
+    if (!call.answered) {
+      this.end(call.id, 'missed');
+      return;
+    }
+    call.ringing.clear();
+    this.broadcast(call);
+  }
+
+  // Announces in the chat who shared their screen and for how long
+  private finishScreenShare(call: ActiveCall) {
+    const { screenShare } = call;
+    if (!screenShare) return;
+    call.screenShare = undefined;
+    const share = this.store.addScreenShare(call.id, screenShare.userId, screenShare.startedAt);
+    if (!this.store.hasChat(call.chatId)) return;
+    const message = this.store.addMessage(call.chatId, share.userId, '', 'screen_share', { screenShareId: share.id });
+    this.io.to(call.participantIds.map(userRoom)).emit('receive_message', message, call.chatId);
+  }
+
+  private broadcast(call: ActiveCall) {
+    this.io.to(call.participantIds.map(userRoom)).emit('call_updated', this.toInfo(call));
+  }
+
+  private toInfo(call: ActiveCall): CallInfo {
+    return {
+      id: call.id,
+      chatId: call.chatId,
+      type: call.type,
+      callerId: call.callerId,
+      isGroup: call.isGroup,
+      participantIds: call.participantIds,
+      joinedIds: Array.from(call.sockets.keys()),
+      ringingIds: Array.from(call.ringing),
+      screenShare: call.screenShare && { userId: call.screenShare.userId, streamId: call.screenShare.streamId },
+    };
+  }
+
+  private record(call: ActiveCall, outcome: CallOutcome) {
+    if (!this.store.finishCall(call.id, outcome) || !this.store.hasChat(call.chatId)) return;
+    const message = this.store.addMessage(call.chatId, call.callerId, '', 'call', { callId: call.id });
+    this.io.to(call.participantIds.map(userRoom)).emit('receive_message', message, call.chatId);
+  }
+}
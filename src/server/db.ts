@@ -0,0 +1,279 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+export type Db = Database.Database;
+
+// Schema migrations, applied in order. `PRAGMA user_version` records how many have run,
+// so new tables or columns are added by appending a migration, never by editing one.
+const migrations: string[] = [
+  `
+  CREATE TABLE chats (
+    id TEXT PRIMARY KEY,
+    name TEXT,
+    is_group INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE chat_participants (
+    chat_id TEXT NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL,
+    unread_count INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (chat_id, user_id)
+  );
+  CREATE INDEX chat_participants_user ON chat_participants(user_id);
+
+  -- seq gives messages a stable total order and is the pagination cursor
+  CREATE TABLE messages (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    chat_id TEXT NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+    sender_id TEXT NOT NULL,
+    content TEXT NOT NULL,
+    type TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'sent',
+    timestamp TEXT NOT NULL
+  );
+  CREATE INDEX messages_chat_seq ON messages(chat_id, seq);
+  `,
+  `
+  -- Uploaded files; the bytes live in the media directory, named by id
+  CREATE TABLE media (
+    id TEXT PRIMARY KEY,
+    owner_id TEXT NOT NULL,
+    file_name TEXT NOT NULL,
+    mime_type TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    width INTEGER,
+    height INTEGER,
+    received INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL,
+    completed_at TEXT
+  );
+
+  ALTER TABLE messages ADD COLUMN media_id TEXT REFERENCES media(id);
+  `,
+  `
+  -- Video metadata extracted once an upload completes; the poster is stored as <id>.poster.jpg
+  ALTER TABLE media ADD COLUMN duration_ms INTEGER;
+  ALTER TABLE media ADD COLUMN has_poster INTEGER NOT NULL DEFAULT 0;
+  `,
+  `
+  -- Image metadata computed once an upload completes; thumbnails is a JSON array of
+  -- { width, height }, each stored as <id>.<width>w.webp
+  ALTER TABLE media ADD COLUMN blurhash TEXT;
+  ALTER TABLE media ADD COLUMN thumbnails TEXT;
+  `,
+  `
+  -- Call history. A chat's call messages reference their call instead of encoding its type,
+  -- duration or outcome in their content.
+  CREATE TABLE calls (
+    id TEXT PRIMARY KEY,
+    chat_id TEXT NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+    type TEXT NOT NULL,
+    initiator_id TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    answered_at TEXT,
+    ended_at TEXT,
+    outcome TEXT
+  );
+  CREATE INDEX calls_chat_started ON calls(chat_id, started_at);
+
+  -- Who took part, in the order they joined
+  CREATE TABLE call_participants (
+    call_id TEXT NOT NULL REFERENCES calls(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL,
+    PRIMARY KEY (call_id, user_id)
+  );
+
+  ALTER TABLE messages ADD COLUMN call_id TEXT REFERENCES calls(id);
+
+  -- Earlier calls were only recorded as call_end messages, holding the duration ("mm:ss") of
+  -- calls that connected and the reason otherwise, preceded by a call_start message holding
+  -- the type once connected. Rebuild what can be recovered from them.
+  WITH legacy AS (
+    SELECT m.*, CASE WHEN m.content GLOB '*[0-9]:[0-9][0-9]' THEN strftime('%Y-%m-%dT%H:%M:%fZ', m.timestamp,
+      '-' || (CAST(substr(m.content, 1, instr(m.content, ':') - 1) AS INTEGER) * 60
+        + CAST(substr(m.content, instr(m.content, ':') + 1) AS INTEGER)) || ' seconds') END AS answered_at
+    FROM messages m WHERE m.type = 'call_end'
+  )
+  INSERT INTO calls (id, chat_id, type, initiator_id, started_at, answered_at, ended_at, outcome)
+  SELECT
+    'call_' || id,
+    chat_id,
+    CASE WHEN answered_at IS NULL THEN 'audio' ELSE COALESCE((
+      SELECT s.content FROM messages s
+      WHERE s.chat_id = legacy.chat_id AND s.type = 'call_start' AND s.seq < legacy.seq
+        AND NOT EXISTS (
+          SELECT 1 FROM messages e
+          WHERE e.chat_id = s.chat_id AND e.type = 'call_end' AND e.seq > s.seq AND e.seq < legacy.seq
+        )
+      ORDER BY s.seq DESC LIMIT 1
+    ), 'audio') END,
+    sender_id,
+    COALESCE(answered_at, timestamp),
+    answered_at,
+    timestamp,
+    CASE WHEN content IN ('missed', 'declined', 'cancelled') THEN content ELSE 'completed' END
+  FROM legacy;
+
+  INSERT INTO call_participants (call_id, user_id) SELECT id, initiator_id FROM calls;
+  INSERT OR IGNORE INTO call_participants (call_id, user_id)
+  SELECT c.id, p.user_id FROM calls c JOIN chat_participants p ON p.chat_id = c.chat_id
+  WHERE c.outcome = 'completed';
+
+  UPDATE messages SET type = 'call', content = '', call_id = 'call_' || id WHERE type = 'call_end';
+  DELETE FROM messages WHERE type = 'call_start';
+  `,
+  `
+  -- Screen shares during calls, stored once they stop and announced by a screen_share message
+  CREATE TABLE screen_shares (
+    id TEXT PRIMARY KEY,
+    call_id TEXT NOT NULL REFERENCES calls(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    ended_at TEXT NOT NULL
+  );
+
+  ALTER TABLE messages ADD COLUMN screen_share_id TEXT REFERENCES screen_shares(id);
+  `,
+  `
+  -- Earlier versions of edited messages, kept so the history can be shown
+  CREATE TABLE message_revisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    message_id TEXT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+    content TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX message_revisions_message ON message_revisions(message_id, id);
+
+  ALTER TABLE messages ADD COLUMN edited_at TEXT;
+  `,
+  `
+  -- Deleted for everyone: the row stays as a tombstone, with its content and media removed
+  ALTER TABLE messages ADD COLUMN deleted_at TEXT;
+
+  -- Deleted for one user only, who no longer receives the message
+  CREATE TABLE hidden_messages (
+    user_id TEXT NOT NULL,
+    message_id TEXT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+    PRIMARY KEY (user_id, message_id)
+  );
+  `,
+  `
+  -- The message a reply answers, quoted inside the reply
+  ALTER TABLE messages ADD COLUMN reply_to_id TEXT REFERENCES messages(id) ON DELETE SET NULL;
+  `,
+  `
+  CREATE TABLE message_reactions (
+    message_id TEXT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL,
+    emoji TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (message_id, user_id, emoji)
+  );
+  `,
+  `
+  -- Previews of linked pages, shared by every message with the same link. Pages that couldn't be
+  -- previewed are kept without a title, so they aren't fetched again right away.
+  CREATE TABLE link_previews (
+    url TEXT PRIMARY KEY,
+    title TEXT,
+    description TEXT,
+    image_url TEXT,
+    site_name TEXT,
+    fetched_at TEXT NOT NULL
+  );
+
+  -- Only users who changed a setting have a row; the others get the defaults
+  CREATE TABLE user_settings (
+    user_id TEXT PRIMARY KEY,
+    link_previews INTEGER NOT NULL
+  );
+  `,
+  `
+  -- When each user was last active, shown once they are away or offline
+  CREATE TABLE user_presence (
+    user_id TEXT PRIMARY KEY,
+    last_seen TEXT NOT NULL
+  );
+  `,
+  `
+  -- Read cursors: the seq of the latest message each participant has received and read in the
+  -- chat. A message is delivered to or read by everyone once all the other participants' cursors
+  -- reach it, and its status records that for its sender.
+  ALTER TABLE chat_participants ADD COLUMN delivered_seq INTEGER NOT NULL DEFAULT 0;
+  ALTER TABLE chat_participants ADD COLUMN read_seq INTEGER NOT NULL DEFAULT 0;
+
+  -- Statuses used to be kept per message only, so start the cursors at the latest message they cover
+  UPDATE chat_participants SET
+    delivered_seq = COALESCE((
+      SELECT MAX(seq) FROM messages m
+      WHERE m.chat_id = chat_participants.chat_id AND m.sender_id != chat_participants.user_id AND m.status != 'sent'
+    ), 0),
+    read_seq = COALESCE((
+      SELECT MAX(seq) FROM messages m
+      WHERE m.chat_id = chat_participants.chat_id AND m.sender_id != chat_participants.user_id AND m.status = 'read'
+    ), 0);
+
+  -- Every time a cursor moved forward, so a message's receipts can tell when it reached each participant
+  CREATE TABLE receipt_events (
+    chat_id TEXT NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL,
+    kind TEXT NOT NULL, -- 'delivered' or 'read'
+    seq INTEGER NOT NULL,
+    at TEXT NOT NULL
+  );
+  CREATE INDEX receipt_events_cursor ON receipt_events(chat_id, user_id, kind, seq);
+  `,
+  `
+  -- The ID the sender's client gave the message before sending it, reused when it retries, so a
+  -- message whose ack was lost is stored only once
+  ALTER TABLE messages ADD COLUMN client_id TEXT;
+  CREATE UNIQUE INDEX messages_client_id ON messages(sender_id, client_id) WHERE client_id IS NOT NULL;
+  `,
+  `
+  -- When a message last changed after it was sent, so a client that reconnects can fetch only the
+  -- messages that changed while it was away. Triggers keep it current, whatever changes the message.
+  ALTER TABLE messages ADD COLUMN updated_at TEXT;
+  UPDATE messages SET updated_at = COALESCE(deleted_at, edited_at);
+  CREATE INDEX messages_updated ON messages(chat_id, updated_at);
+
+  CREATE TRIGGER messages_changed AFTER UPDATE OF content, media_id, status, edited_at, deleted_at ON messages
+  BEGIN
+    UPDATE messages SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE seq = NEW.seq;
+  END;
+  CREATE TRIGGER reaction_added AFTER INSERT ON message_reactions
+  BEGIN
+    UPDATE messages SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.message_id;
+  END;
+  CREATE TRIGGER reaction_removed AFTER DELETE ON message_reactions
+  BEGIN
+    UPDATE messages SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = OLD.message_id;
+  END;
+
+  -- When the user deleted the message for themselves, so their other devices can catch up
+  ALTER TABLE hidden_messages ADD COLUMN hidden_at TEXT;
+  `,
+];
+
+/** Opens (creating if needed) the SQLite database and brings its schema up to date. */
+export function openDatabase(filePath: string): Db {
+  if (filePath !== ':memory:') mkdirSync(dirname(filePath), { recursive: true });
+  const db = new Database(filePath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+
+  const currentVersion = db.pragma('user_version', { simple: true }) as number;
+  const migrate = db.transaction(() => {
+    for (let version = currentVersion; version < migrations.length; version++) {
+      db.exec(migrations[version]);
+    }
+    db.pragma(`user_version = ${migrations.length}`);
+  });
+  if (currentVersion < migrations.length) {
+    migrate();
+    console.log(`Migrated database ${filePath} from version ${currentVersion} to ${migrations.length}`);
+  }
+  return db;
+}
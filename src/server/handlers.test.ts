@@ -0,0 +1,103 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { MessageAck, OutgoingMessage } from '@/types/socket';
+import type { AuthStore } from './auth';
+import type { CallRegistry } from './calls';
+import { openDatabase } from './db';
+import { registerHandlers, type ChatServer, type ChatSocket } from './handlers';
+import { LinkPreviewStore } from './link-previews';
+import { MediaStore } from './media';
+import { ChatStore } from './store';
+import type { Fetcher } from './unfurl';
+
+const mediaDir = mkdtempSync(join(tmpdir(), 'chatterbox-handlers-'));
+
+beforeAll(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  rmSync(mediaDir, { recursive: true, force: true });
+  vi.restoreAllMocks();
+});
+
+let store: ChatStore;
+let chatId: string;
+let listeners: Map<string, (...args: unknown[]) => void>;
+let relayed: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  const db = openDatabase(':memory:');
+  // Every link is a page with a title
+  const fetch: Fetcher = async () => new Response('<title>A page</title>', { headers: { 'Content-Type': 'text/html' } });
+  const linkPreviews = new LinkPreviewStore(db, { fetch });
+  const media = new MediaStore(db, mediaDir, 'http://localhost:3001');
+  store = new ChatStore(db, media, linkPreviews);
+  store.upsertUser('alice', 'Alice');
+  store.upsertUser('bob', 'Bob');
+  chatId = store.findOrCreateDirectChat('alice', 'bob');
+
+  // Only what the send_message handler touches; events to other sockets are recorded in `relayed`
+  listeners = new Map();
+  relayed = vi.fn();
+  const socket = {
+    id: 'socket_1',
+    data: { userId: 'alice', token: 'token' },
+    on: (event: string, listener: (...args: unknown[]) => void) => listeners.set(event, listener),
+    emit: vi.fn(),
+    to: () => ({ emit: relayed }),
+  };
+  const io = { to: () => ({ emit: relayed }), emit: vi.fn() };
+  registerHandlers(
+    io as unknown as ChatServer,
+    socket as unknown as ChatSocket,
+    store,
+    {} as AuthStore,
+    media,
+    linkPreviews,
+    {} as CallRegistry,
+    { editWindowMs: 60_000, deleteWindowMs: 60_000 }
+  );
+});
+
+const send = (message: OutgoingMessage) =>
+  new Promise<MessageAck>(resolve => listeners.get('send_message')!(chatId, message, resolve));
+
+describe('send_message', () => {
+  it('answers a retry with the stored message instead of storing it again', async () => {
+    const first = await send({ id: 'temp_1', content: 'Hello', type: 'text' });
+    expect(first).toMatchObject({ success: true, message: { content: 'Hello' } });
+    expect(relayed).toHaveBeenCalledWith('receive_message', first.message, chatId);
+
+    relayed.mockClear();
+    const retry = await send({ id: 'temp_1', content: 'Hello', type: 'text' });
+    expect(retry).toEqual({ success: true, messageId: first.messageId, message: first.message });
+    expect(relayed).not.toHaveBeenCalled();
+    expect(store.getMessagesPage(chatId, 'bob', null, 10)?.messages.map(message => message.id)).toEqual([first.messageId]);
+  });
+
+  it('stores messages with different IDs, or none, separately', async () => {
+    await send({ id: 'temp_1', content: 'Hello', type: 'text' });
+    await send({ id: 'temp_2', content: 'Hello', type: 'text' });
+    await send({ content: 'Hello', type: 'text' });
+    await send({ content: 'Hello', type: 'text' });
+    expect(store.getMessagesPage(chatId, 'bob', null, 10)?.messages).toHaveLength(4);
+  });
+});
+
+describe('link previews', () => {
+  it('sends the preview with the message to those who resync after it arrived', async () => {
+    // Bob synced, got the message live, then disconnected before its preview arrived
+    const since = new Date();
+    const sent = await send({ content: 'Look at http://93.184.215.14/page', type: 'text' });
+    await vi.waitFor(() =>
+      expect(relayed).toHaveBeenCalledWith('link_preview_updated', chatId, sent.messageId, expect.objectContaining({ title: 'A page' }))
+    );
+
+    const [changes] = store.getChangesForUser('bob', { [chatId]: sent.messageId! }, since);
+    expect(changes.chat.messages).toEqual([]);
+    expect(changes.updatedMessages).toMatchObject([{ id: sent.messageId, linkPreview: { title: 'A page' } }]);
+  });
+});
@@ -0,0 +1,539 @@
+import type { Server, Socket } from 'socket.io';
+import type { z } from 'zod';
+import type { Message } from '@/types';
+import {
+  parseClientEvent,
+  type ClientToServerEvents,
+  type ServerToClientEvents,
+  type MessageAck,
+  type MessagePolicy,
+  type OutgoingMessage,
+  type ReactionsAck,
+  type clientToServerSchemas,
+} from '@/types/socket';
+import { MAX_CALL_PARTICIPANTS } from '@/types/call';
+import { isCallEvent } from '@/lib/calls';
+import { getFirstLinkUrl } from '@/lib/markdown';
+import type { ChatStore, MessageStatusChange } from './store';
+import type { AuthStore } from './auth';
+import type { MediaStore } from './media';
+import type { LinkPreviewStore } from './link-previews';
+import type { CallRegistry } from './calls';
+
+// Set by the auth middleware in index.ts once the handshake token is verified.
+export interface SocketData {
+  userId: string;
+  token: string;
+}
+
+export type ChatServer = Server<ClientToServerEvents, ServerToClientEvents, {}, SocketData>;
+export type ChatSocket = Socket<ClientToServerEvents, ServerToClientEvents, {}, SocketData>;
+
+// The ack callback of an event (its last parameter), or never for events without one.
+type AckOf<E extends keyof ClientToServerEvents> =
+  Parameters<ClientToServerEvents[E]> extends [...unknown[], infer Last]
+    ? Last extends (res: infer R) => void ? (res: R) => void : never
+    : never;
+
+type ParsedArgs<E extends keyof ClientToServerEvents> = z.output<(typeof clientToServerSchemas)[E]>;
+
+// Every socket joins a per-user room so events can target all of a user's tabs.
+export const userRoom = (userId: string) => `user:${userId}`;
+
+/** Tells the senders of messages whose status changed, in all of their tabs. */
+export function notifyStatusChanges(io: ChatServer, changes: MessageStatusChange[]) {
+  for (const { chatId, messageId, senderId, status } of changes) {
+    io.to(userRoom(senderId)).emit('message_status_update', chatId, messageId, status);
+  }
+}
+
+/**
+ * Runs a change to the user's sockets, e.g. one connecting or going idle, and tells everyone
+ * if it changed the user's presence. Returns what the change returned.
+ */
+export function updatePresence<T>(io: ChatServer, store: ChatStore, userId: string, change: () => T): T {
+  const previous = store.getUser(userId)?.presence;
+  const result = change();
+  const user = store.getUser(userId);
+  if (user && user.presence !== previous) {
+    io.emit('user_status_update', userId, user.presence, user.lastSeen ?? null);
+  }
+  return result;
+}
+
+/**
+ * Registers a listener whose arguments are validated against the shared contract.
+ * Invalid payloads are rejected through the ack callback when there is one,
+ * otherwise through a `server_error` event, and the handler is not called.
+ * Errors the handler throws, or rejects with if it is async, are logged and reported
+ * as a `server_error`, so they can never take the server down.
+ */
+function onValidated<E extends keyof ClientToServerEvents>(
+  socket: ChatSocket,
+  event: E,
+  handler: (args: ParsedArgs<E>, ack: AckOf<E>) => void | Promise<void>
+) {
+  const reportFailure = (error: unknown) => {
+    console.error(`Failed to handle ${event} from socket ${socket.id}:`, error);
+    socket.emit('server_error', `Something went wrong handling ${event}.`);
+  };
+  const listener = (...raw: unknown[]) => {
+    const ack = typeof raw[raw.length - 1] === 'function' ? (raw.pop() as (res: unknown) => void) : undefined;
+    const parsed = parseClientEvent(event, raw);
+    if (!parsed.success) {
+      console.warn(`Rejected ${event} from socket ${socket.id}: ${parsed.error}`);
+      if (ack) ack({ success: false, error: parsed.error });
+      else socket.emit('server_error', parsed.error);
+      return;
+    }
+    // Clients may omit the ack; fall back to a no-op so handlers can always call it.
+    try {
+      void handler(parsed.data, (ack ?? (() => {})) as AckOf<E>)?.catch(reportFailure);
+    } catch (error) {
+      reportFailure(error);
+    }
+  };
+  // socket.io's typed `on` can't be called with a generic event name, hence the cast.
+  (socket as unknown as Socket).on(event as string, listener);
+}
+
+/**
+ * Wires every chat event for a single authenticated socket.
+ * The acting user is always the one from the verified session, never a client-supplied ID.
+ */
+export function registerHandlers(
+  io: ChatServer,
+  socket: ChatSocket,
+  store: ChatStore,
+  auth: AuthStore,
+  media: MediaStore,
+  linkPreviews: LinkPreviewStore,
+  calls: CallRegistry,
+  policy: MessagePolicy
+) {
+  const { userId } = socket.data;
+  const emitError = (message: string) => socket.emit('server_error', message);
+
+  // Rooms of every participant of the chat. Emitting through `socket.to` skips
+  // this socket, while the sender's other tabs still receive the event.
+  const participantRooms = (chatId: string) => store.getParticipantIds(chatId).map(userRoom);
+  // Rooms of the other participants, for events the user's own tabs have no use for
+  const otherParticipantRooms = (chatId: string) =>
+    store.getParticipantIds(chatId).filter(id => id !== userId).map(userRoom);
+
+  // Chats this socket is typing in, so the others can be told it stopped if it disconnects
+  const typingIn = new Set<string>();
+  const stopTyping = (chatId: string) => {
+    if (typingIn.delete(chatId)) io.to(otherParticipantRooms(chatId)).emit('typing_stop', chatId, userId);
+  };
+
+  // Fetches the preview of a text message's first link in the background and sends it to the chat,
+  // unless the message already carries that preview
+  const previewLink = (chatId: string, message: Message) => {
+    const url = message.type === 'text' ? getFirstLinkUrl(message.content) : undefined;
+    if (!url) return;
+    void linkPreviews.fetch(url).then(preview => {
+      if (!preview || JSON.stringify(preview) === JSON.stringify(message.linkPreview)) return;
+      // The message may have been edited or deleted in the meantime
+      if (getFirstLinkUrl(store.getMessage(chatId, message.id)?.content ?? '') !== url) return;
+      // Those who miss the event get the preview with the message when they resync
+      store.touchMessage(chatId, message.id);
+      io.to(participantRooms(chatId)).emit('link_preview_updated', chatId, message.id, preview);
+    }).catch(error => {
+      console.error(`Failed to preview ${url} in message ${message.id}:`, error);
+    });
+  };
+
+  // Stores a message sent by this user and relays it to the other participants.
+  const relayMessage = (chatId: string, message: OutgoingMessage, type: Message['type'], ack: (res: MessageAck) => void) => {
+    if (!store.hasChat(chatId)) {
+      ack({ success: false, error: 'Chat not found.' });
+      return;
+    }
+    if (!store.isParticipant(chatId, userId)) {
+      ack({ success: false, error: 'You are not a participant of this chat.' });
+      return;
+    }
+    // A retry of a message whose ack was lost: answer as before, without storing or relaying it again
+    const sent = message.id ? store.findSentMessage(chatId, userId, message.id) : undefined;
+    if (sent) {
+      ack({ success: true, messageId: sent.id, message: sent });
+      return;
+    }
+
+    let content = message.content;
+    let mediaId: string | undefined;
+    if (type === 'image' || type === 'video') {
+      // Media is uploaded over HTTP first; the message only references the finished upload
+      const ref = message.mediaId ? media.getMedia(message.mediaId) : undefined;
+      if (!ref || media.getOwnerId(ref.id) !== userId) {
+        ack({ success: false, error: 'Upload the file before sending it.' });
+        return;
+      }
+      if (!ref.mimeType.startsWith(`${type}/`)) {
+        ack({ success: false, error: `The uploaded file is not ${type === 'image' ? 'an image' : 'a video'}.` });
+        return;
+      }
+      content = ref.url;
+      mediaId = ref.id;
+    }
+
+    if (message.replyToId) {
+      const original = store.getMessage(chatId, message.replyToId);
+      if (!original) {
+        ack({ success: false, error: 'The message you replied to was not found.' });
+        return;
+      }
+      if (original.deletedAt) {
+        ack({ success: false, error: 'You cannot reply to a deleted message.' });
+        return;
+      }
+    }
+
+    const saved = store.addMessage(chatId, userId, content, type, { mediaId, replyToId: message.replyToId, clientId: message.id });
+    ack({ success: true, messageId: saved.id, message: saved });
+    // Receiving the message clears the sender's typing indicator, so there's no need for a typing_stop
+    typingIn.delete(chatId);
+    socket.to(participantRooms(chatId)).emit('receive_message', saved, chatId);
+    previewLink(chatId, saved);
+
+    // The message reaches those online immediately; the others get it once they connect.
+    const onlineRecipientIds = store.getParticipantIds(chatId).filter(id => id !== userId && store.isOnline(id));
+    notifyStatusChanges(io, store.markDelivered(chatId, saved.id, onlineRecipientIds));
+  };
+
+  onValidated(socket, 'request_initial_data', () => {
+    // Taken first, so that whatever changes while the data is gathered is caught by the next sync
+    const syncedAt = new Date();
+    socket.emit('initial_data', {
+      chats: store.getChatsForUser(userId),
+      onlineUsers: store.getOnlineUsers(),
+      allUsers: store.getAllUsers(),
+      calls: store.getRecentCalls(userId),
+      policy,
+      settings: store.getSettings(userId),
+      syncedAt,
+    });
+  });
+
+  onValidated(socket, 'sync', ([since, lastMessageIds], ack) => {
+    const syncedAt = new Date();
+    ack({
+      success: true,
+      data: {
+        chats: store.getChangesForUser(userId, lastMessageIds, since),
+        allUsers: store.getAllUsers(),
+        calls: store.getRecentCalls(userId),
+        settings: store.getSettings(userId),
+        syncedAt,
+      },
+    });
+  });
+
+  onValidated(socket, 'send_message', ([chatId, message], ack) => {
+    relayMessage(chatId, message, message.type, ack);
+  });
+
+  onValidated(socket, 'mark_as_read', ([chatId, messageId]) => {
+    if (!store.isParticipant(chatId, userId)) return;
+    notifyStatusChanges(io, store.markRead(chatId, userId, messageId));
+  });
+
+  onValidated(socket, 'load_message_receipts', ([chatId, messageId], ack) => {
+    const message = store.isParticipant(chatId, userId) ? store.getMessage(chatId, messageId) : undefined;
+    if (!message) {
+      ack({ success: false, error: 'Message not found.' });
+      return;
+    }
+    if (message.sender.id !== userId) {
+      ack({ success: false, error: 'Only the sender can see who received a message.' });
+      return;
+    }
+    ack({ success: true, receipts: store.getReceipts(chatId, messageId) ?? [] });
+  });
+
+  onValidated(socket, 'typing_start', ([chatId]) => {
+    if (!store.isParticipant(chatId, userId)) return;
+    typingIn.add(chatId);
+    io.to(otherParticipantRooms(chatId)).emit('typing_start', chatId, userId);
+  });
+
+  onValidated(socket, 'typing_stop', ([chatId]) => {
+    stopTyping(chatId);
+  });
+
+  socket.on('disconnect', () => {
+    typingIn.forEach(stopTyping);
+  });
+
+  onValidated(socket, 'update_presence', ([presence]) => {
+    updatePresence(io, store, userId, () => store.setAway(userId, socket.id, presence === 'away'));
+  });
+
+  onValidated(socket, 'update_settings', ([changes], ack) => {
+    const settings = store.updateSettings(userId, changes);
+    ack({ success: true, settings });
+    socket.to(userRoom(userId)).emit('settings_updated', settings);
+  });
+
+  onValidated(socket, 'start_direct_chat', ([requesterId, otherUserId]) => {
+    if (requesterId !== userId) {
+      emitError('Invalid direct chat request.');
+      return;
+    }
+    if (otherUserId === userId) {
+      emitError('You cannot start a chat with yourself.');
+      return;
+    }
+    if (!store.getUser(otherUserId)) {
+      emitError('User not found.');
+      return;
+    }
+    const chatId = store.findOrCreateDirectChat(userId, otherUserId);
+    const chat = store.getChatForUser(chatId, userId);
+    // Only the requester switches to the chat; the other user picks it up with the first message.
+    if (chat) socket.emit('direct_chat_started', chat);
+  });
+
+  onValidated(socket, 'create_group', ([groupName, participantIds], ack) => {
+    const members = Array.from(new Set<string>([userId, ...participantIds]));
+    const unknownMember = members.find(id => !store.getUser(id));
+    if (unknownMember) {
+      ack({ success: false, error: `User ${unknownMember} not found.` });
+      return;
+    }
+    if (members.length < 2) {
+      ack({ success: false, error: 'A group needs at least one other member.' });
+      return;
+    }
+
+    const chatId = store.createGroup(groupName, members);
+    ack({ success: true, newChat: store.getChatForUser(chatId, userId) });
+    // Notify the other members, each with their own view of the chat.
+    for (const memberId of members) {
+      const memberChat = memberId !== userId && store.getChatForUser(chatId, memberId);
+      if (memberChat) io.to(userRoom(memberId)).emit('group_created', memberChat);
+    }
+  });
+
+  onValidated(socket, 'load_messages', ([chatId, beforeId, limit], ack) => {
+    if (!store.isParticipant(chatId, userId)) {
+      ack({ success: false, error: 'Chat not found.' });
+      return;
+    }
+    const page = store.getMessagesPage(chatId, userId, beforeId, limit);
+    if (!page) {
+      ack({ success: false, error: 'Message not found.' });
+      return;
+    }
+    ack({ success: true, messages: page.messages, hasMore: page.hasMore });
+  });
+
+  onValidated(socket, 'edit_message', ([chatId, messageId, content], ack) => {
+    const message = store.isParticipant(chatId, userId) ? store.getMessage(chatId, messageId) : undefined;
+    if (!message) {
+      ack({ success: false, error: 'Message not found.' });
+      return;
+    }
+    if (message.deletedAt) {
+      ack({ success: false, error: 'This message was deleted.' });
+      return;
+    }
+    if (message.sender.id !== userId || message.type !== 'text') {
+      ack({ success: false, error: 'Only your own text messages can be edited.' });
+      return;
+    }
+    if (Date.now() - message.timestamp.getTime() > policy.editWindowMs) {
+      ack({ success: false, error: 'This message can no longer be edited.' });
+      return;
+    }
+    if (content === message.content) {
+      ack({ success: true, messageId, message });
+      return;
+    }
+    const edited = store.editMessage(chatId, messageId, content)!;
+    ack({ success: true, messageId, message: edited });
+    socket.to(participantRooms(chatId)).emit('message_updated', edited, chatId);
+    previewLink(chatId, edited);
+  });
+
+  onValidated(socket, 'load_message_revisions', ([chatId, messageId], ack) => {
+    if (!store.isParticipant(chatId, userId) || !store.getMessage(chatId, messageId)) {
+      ack({ success: false, error: 'Message not found.' });
+      return;
+    }
+    ack({ success: true, revisions: store.getMessageRevisions(messageId) });
+  });
+
+  onValidated(socket, 'delete_message', ([chatId, messageId, scope], ack) => {
+    const message = store.isParticipant(chatId, userId) ? store.getMessage(chatId, messageId) : undefined;
+    if (!message) {
+      ack({ success: false, error: 'Message not found.' });
+      return;
+    }
+    if (scope === 'me') {
+      store.hideMessage(userId, messageId);
+      ack({ success: true });
+      socket.to(userRoom(userId)).emit('message_removed', chatId, messageId);
+      return;
+    }
+
+    if (message.sender.id !== userId || isCallEvent(message)) {
+      ack({ success: false, error: 'Only your own messages can be deleted for everyone.' });
+      return;
+    }
+    if (!message.deletedAt && Date.now() - message.timestamp.getTime() > policy.deleteWindowMs) {
+      ack({ success: false, error: 'This message can no longer be deleted for everyone.' });
+      return;
+    }
+    const { message: tombstone, mediaId } = store.deleteMessageForEveryone(chatId, messageId)!;
+    ack({ success: true, message: tombstone });
+    socket.to(participantRooms(chatId)).emit('message_updated', tombstone, chatId);
+    if (mediaId) {
+      media.deleteIfUnreferenced(mediaId).catch(error => console.error(`Failed to delete media ${mediaId}:`, error));
+    }
+  });
+
+  // Adds or removes one of the user's reactions and syncs the message's reactions to everyone in the chat
+  const updateReaction = (chatId: string, messageId: string, update: () => void, ack: (res: ReactionsAck) => void) => {
+    const message = store.isParticipant(chatId, userId) ? store.getMessage(chatId, messageId) : undefined;
+    if (!message) {
+      ack({ success: false, error: 'Message not found.' });
+      return;
+    }
+    if (message.deletedAt) {
+      ack({ success: false, error: 'You cannot react to a deleted message.' });
+      return;
+    }
+    update();
+    const reactions = store.getReactions(messageId);
+    ack({ success: true, reactions });
+    socket.to(participantRooms(chatId)).emit('reactions_updated', chatId, messageId, reactions);
+  };
+
+  onValidated(socket, 'add_reaction', ([chatId, messageId, emoji], ack) => {
+    updateReaction(chatId, messageId, () => store.addReaction(messageId, userId, emoji), ack);
+  });
+
+  onValidated(socket, 'remove_reaction', ([chatId, messageId, emoji], ack) => {
+    updateReaction(chatId, messageId, () => store.removeReaction(messageId, userId, emoji), ack);
+  });
+
+  // --- Calls ---
+
+  // The call this socket takes part in; other tabs of the same user can't act on it
+  const joinedCall = (callId: string) => {
+    const call = calls.get(callId);
+    return call?.sockets.get(userId) === socket.id ? call : undefined;
+  };
+
+  onValidated(socket, 'start_call', ([chatId, type], ack) => {
+    if (!store.isParticipant(chatId, userId)) {
+      ack({ success: false, error: 'Chat not found.' });
+      return;
+    }
+    if (calls.findJoined(userId)) {
+      ack({ success: false, error: 'You are already in a call.' });
+      return;
+    }
+    if (calls.findByChat(chatId)) {
+      ack({ success: false, error: 'A call is already going on in this chat.' });
+      return;
+    }
+    // Everyone in the chat is invited; those offline are rung once they come online
+    const otherIds = store.getParticipantIds(chatId).filter(id => id !== userId);
+    const inviteeIds = otherIds.filter(id => store.isOnline(id) && !calls.findJoined(id));
+    if (inviteeIds.length === 0) {
+      const other = otherIds.length === 1 ? store.getUser(otherIds[0]) : undefined;
+      const error = store.isGroup(chatId)
+        ? 'Nobody else in the group is available.'
+        : otherIds.some(id => store.isOnline(id))
+          ? `${other?.name ?? 'The other user'} is on another call.`
+          : `${other?.name ?? 'The other user'} is offline.`;
+      ack({ success: false, error });
+      return;
+    }
+    ack({ success: true, call: calls.start(chatId, type, userId, socket.id, inviteeIds) });
+  });
+
+  onValidated(socket, 'accept_call', ([callId], ack) => {
+    const call = calls.get(callId);
+    if (!call || !call.participantIds.includes(userId)) {
+      ack({ success: false, error: 'The call has ended.' });
+      return;
+    }
+    if (call.sockets.has(userId)) {
+      ack({ success: false, error: 'You joined this call on another device.' });
+      return;
+    }
+    // Group members can join whenever they like; a direct call can only be answered while it rings
+    if (!call.isGroup && !call.ringing.has(userId)) {
+      ack({ success: false, error: 'The call has ended.' });
+      return;
+    }
+    if (calls.findJoined(userId)) {
+      ack({ success: false, error: 'You are already in a call.' });
+      return;
+    }
+    if (call.sockets.size >= MAX_CALL_PARTICIPANTS) {
+      ack({ success: false, error: `Calls are limited to ${MAX_CALL_PARTICIPANTS} participants.` });
+      return;
+    }
+    calls.join(call, userId, socket.id);
+    ack({ success: true });
+  });
+
+  onValidated(socket, 'decline_call', ([callId]) => {
+    const call = calls.get(callId);
+    if (call?.ringing.has(userId)) calls.decline(call, userId);
+  });
+
+  onValidated(socket, 'end_call', ([callId]) => {
+    const call = joinedCall(callId);
+    if (call) calls.leave(call, userId);
+  });
+
+  onValidated(socket, 'call_signal', ([callId, toUserId, signal]) => {
+    const targetSocketId = joinedCall(callId)?.sockets.get(toUserId);
+    if (!targetSocketId || toUserId === userId) return;
+    io.to(targetSocketId).emit('call_signal', callId, userId, signal);
+  });
+
+  onValidated(socket, 'call_media_state', ([callId, state]) => {
+    const call = joinedCall(callId);
+    if (!call) return;
+    for (const [otherId, otherSocketId] of call.sockets) {
+      if (otherId !== userId) io.to(otherSocketId).emit('call_media_state', callId, userId, state);
+    }
+  });
+
+  onValidated(socket, 'start_screen_share', ([callId, streamId], ack) => {
+    const call = joinedCall(callId);
+    if (!call) {
+      ack({ success: false, error: 'The call has ended.' });
+      return;
+    }
+    const presenterId = call.screenShare?.userId;
+    if (presenterId && presenterId !== userId) {
+      ack({ success: false, error: `${store.getUser(presenterId)?.name ?? 'Someone'} is already presenting.` });
+      return;
+    }
+    calls.startScreenShare(call, userId, streamId);
+    ack({ success: true });
+  });
+
+  onValidated(socket, 'stop_screen_share', ([callId]) => {
+    const call = joinedCall(callId);
+    if (call?.screenShare?.userId === userId) calls.stopScreenShare(call);
+  });
+
+  onValidated(socket, 'logout', async ([logoutUserId]) => {
+    if (logoutUserId !== userId) return;
+    try {
+      await auth.revokeSession(socket.data.token);
+    } finally {
+      // Disconnecting triggers the offline broadcast. The session is revoked in memory even if saving that failed.
+      socket.disconnect(true);
+    }
+  });
+}
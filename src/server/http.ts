@@ -0,0 +1,128 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { z } from 'zod';
+import { formatZodError } from '@/types/socket';
+
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export interface RouteContext {
+  req: IncomingMessage;
+  res: ServerResponse;
+  url: URL;
+  params: Record<string, string>;
+}
+
+type RouteHandler = (ctx: RouteContext) => Promise<void> | void;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+}
+
+const MAX_JSON_BODY_BYTES = 64 * 1024;
+
+export function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+export async function readBody(req: IncomingMessage, maxBytes: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > maxBytes) throw new HttpError(413, 'Request body too large.');
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/** Reads a JSON body and validates it, throwing a 400 with the zod issues on mismatch. */
+export async function readJson<S extends z.ZodTypeAny>(req: IncomingMessage, schema: S): Promise<z.output<S>> {
+  let value: unknown;
+  try {
+    value = JSON.parse((await readBody(req, MAX_JSON_BODY_BYTES)).toString('utf8') || '{}');
+  } catch (error) {
+    if (error instanceof HttpError) throw error;
+    throw new HttpError(400, 'Request body must be valid JSON.');
+  }
+  const result = schema.safeParse(value);
+  if (!result.success) throw new HttpError(400, formatZodError(result.error));
+  return result.data;
+}
+
+// A malformed escape in the path, e.g. `%E0%A4%A`, is the client's mistake
+function decodeParams(keys: string[], match: RegExpExecArray): Record<string, string> {
+  try {
+    return Object.fromEntries(keys.map((key, i) => [key, decodeURIComponent(match[i + 1])]));
+  } catch (error) {
+    if (error instanceof URIError) throw new HttpError(400, 'Malformed path.');
+    throw error;
+  }
+}
+
+export function getBearerToken(req: IncomingMessage): string | undefined {
+  const header = req.headers.authorization;
+  return header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : undefined;
+}
+
+/**
+ * Tiny method + path router for the REST endpoints that share the Socket.IO HTTP server.
+ * Paths may contain `:name` segments, exposed through `params`.
+ */
+export class Router {
+  private routes: Route[] = [];
+
+  constructor(private readonly allowedOrigin: string) {}
+
+  add(method: string, path: string, handler: RouteHandler) {
+    const keys: string[] = [];
+    const source = path.replace(/:(\w+)/g, (_, key: string) => {
+      keys.push(key);
+      return '([^/]+)';
+    });
+    this.routes.push({ method, pattern: new RegExp(`^${source}$`), keys, handler });
+    return this;
+  }
+
+  /** Handles the request if a route matches its path; returns false otherwise. */
+  handle(req: IncomingMessage, res: ServerResponse): boolean {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const matching = this.routes.filter(route => route.pattern.test(url.pathname));
+    if (matching.length === 0) return false;
+
+    res.setHeader('Access-Control-Allow-Origin', this.allowedOrigin);
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, Content-Range');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return true;
+    }
+
+    const route = matching.find(r => r.method === req.method);
+    if (!route) {
+      sendJson(res, 405, { error: 'Method not allowed.' });
+      return true;
+    }
+    const match = route.pattern.exec(url.pathname)!;
+
+    // Decode and run the handler inside the promise, so synchronous throws are handled like rejections
+    Promise.resolve().then(() => route.handler({ req, res, url, params: decodeParams(route.keys, match) })).catch((error: unknown) => {
+      if (!(error instanceof HttpError)) console.error(`Unhandled error in ${req.method} ${url.pathname}:`, error);
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      const status = error instanceof HttpError ? error.status : 500;
+      sendJson(res, status, { error: error instanceof HttpError ? error.message : 'Internal server error.' });
+    });
+    return true;
+  }
+}
@@ -0,0 +1,86 @@
+import sharp from 'sharp';
+import { encode } from 'blurhash';
+import { isAllowedMediaType } from '@/types/media';
+
+// Widths (in px) of the WebP renditions generated for each image; sizes at or above
+// an image's own width are skipped, since the original serves those.
+export const THUMBNAIL_WIDTHS = [320, 640, 1280] as const;
+
+export interface ImageInfo {
+  mimeType: string; // Of the actual content, which may differ from what the client declared
+  width: number;
+  height: number;
+  size: number; // Bytes, after re-encoding
+  animated: boolean;
+}
+
+export interface Thumbnail {
+  width: number;
+  height: number;
+}
+
+/**
+ * Re-encodes an image in its own format, dropping all metadata (EXIF, including GPS
+ * position and camera details, XMP, comments) except the color profile.
+ * EXIF orientation is applied to the pixels first, so the image still displays upright.
+ * Rejects if the file is not an image in one of the allowed formats.
+ */
+export async function sanitizeImage(inputPath: string, outputPath: string): Promise<ImageInfo> {
+  const metadata = await sharp(inputPath).metadata();
+  const mimeType = `image/${metadata.format}`;
+  if (!isAllowedMediaType(mimeType)) throw new Error(`Unsupported image format: ${metadata.format}`);
+  const animated = (metadata.pages ?? 1) > 1;
+
+  let image = sharp(inputPath, { animated }).keepIccProfile();
+  // Orientation is a still-photo concept; animations are never rotated
+  if (!animated) image = image.rotate();
+  switch (metadata.format) {
+    case 'jpeg':
+      image = image.jpeg({ quality: 90, mozjpeg: true });
+      break;
+    case 'webp':
+      image = image.webp({ quality: 90 });
+      break;
+    case 'png':
+      image = image.png();
+      break;
+    case 'gif':
+      image = image.gif();
+      break;
+  }
+  const info = await image.toFile(outputPath);
+  return {
+    mimeType,
+    width: info.width,
+    // For animations sharp reports the height of all frames stacked
+    height: animated ? (metadata.pageHeight ?? info.height) : info.height,
+    size: info.size,
+    animated,
+  };
+}
+
+/** Writes a WebP rendition for each thumbnail width narrower than the image, narrowest first. */
+export async function createThumbnails(
+  inputPath: string,
+  imageWidth: number,
+  outputPathFor: (width: number) => string
+): Promise<Thumbnail[]> {
+  const thumbnails: Thumbnail[] = [];
+  for (const width of THUMBNAIL_WIDTHS) {
+    if (width >= imageWidth) break;
+    const info = await sharp(inputPath).resize({ width }).webp({ quality: 75 }).toFile(outputPathFor(width));
+    thumbnails.push({ width: info.width, height: info.height });
+  }
+  return thumbnails;
+}
+
+/** A blurhash of the image: a ~30 character string clients decode into a blurred placeholder. */
+export async function computeBlurhash(inputPath: string): Promise<string> {
+  // Blurhash only keeps a handful of color components, so a tiny copy loses nothing
+  const { data, info } = await sharp(inputPath)
+    .resize(32, 32, { fit: 'inside' })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return encode(new Uint8ClampedArray(data), info.width, info.height, 4, 3);
+}
@@ -0,0 +1,125 @@
+import { createServer } from 'node:http';
+import { join } from 'node:path';
+import { Server } from 'socket.io';
+import { ChatStore } from './store';
+import { openDatabase } from './db';
+import { MediaStore } from './media';
+import { LinkPreviewStore } from './link-previews';
+import { registerMediaRoutes } from './media-routes';
+import { AuthStore } from './auth';
+import { registerAuthRoutes } from './auth-routes';
+import { Router, sendJson } from './http';
+import { notifyStatusChanges, registerHandlers, updatePresence, userRoom, type ChatServer } from './handlers';
+import { CallRegistry } from './calls';
+import type { MessagePolicy } from '@/types/socket';
+
+/**
+ * A window given in minutes by the environment variable, in ms. A value that isn't a number of minutes
+ * stops the server: as NaN, every check against the window would fail open.
+ */
+function readWindowMs(name: string, defaultMinutes: number): number {
+  const value = process.env[name]?.trim();
+  if (!value) return defaultMinutes * 60_000;
+  const minutes = Number(value);
+  if (!Number.isFinite(minutes) || minutes < 0) {
+    throw new Error(`${name} must be a number of minutes, 0 or more, not "${value}".`);
+  }
+  return Math.round(minutes * 60_000);
+}
+
+// Port and allowed origin default to the values used by `npm run dev` and next.config.ts.
+const PORT = Number(process.env.SOCKET_PORT || process.env.PORT || 3001);
+const CLIENT_ORIGIN = process.env.CLIENT_ORIGIN || 'http://localhost:9002';
+// Credentials, the chat database and other server data are kept on the local filesystem.
+const DATA_DIR = process.env.DATA_DIR || join(process.cwd(), 'data');
+// Base URL clients use to reach this server, for building media URLs.
+const PUBLIC_URL = (process.env.PUBLIC_URL || `http://localhost:${PORT}`).replace(/\/$/, '');
+// How long after sending a message its sender may still edit it, or delete it for everyone; 0 turns that off.
+const EDIT_WINDOW_MS = readWindowMs('MESSAGE_EDIT_WINDOW_MINUTES', 15);
+const DELETE_WINDOW_MS = readWindowMs('MESSAGE_DELETE_WINDOW_MINUTES', 60);
+// Uploads no message references are deleted once this old; sent ones go when their message is deleted.
+const UNUSED_UPLOAD_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const MEDIA_GC_INTERVAL_MS = 60 * 60 * 1000;
+
+const policy: MessagePolicy = {
+  editWindowMs: EDIT_WINDOW_MS,
+  deleteWindowMs: DELETE_WINDOW_MS,
+};
+
+const db = openDatabase(join(DATA_DIR, 'chat.db'));
+const media = new MediaStore(db, join(DATA_DIR, 'media'), PUBLIC_URL);
+const linkPreviews = new LinkPreviewStore(db);
+const store = new ChatStore(db, media, linkPreviews);
+const auth = new AuthStore(join(DATA_DIR, 'auth.json'));
+for (const account of auth.getAccounts()) {
+  store.upsertUser(account.userId, account.username, account.avatarUrl);
+}
+
+const collectUnusedMedia = () => {
+  media.collectGarbage(UNUSED_UPLOAD_MAX_AGE_MS).catch(error => console.error('Media garbage collection failed:', error));
+};
+collectUnusedMedia();
+setInterval(collectUnusedMedia, MEDIA_GC_INTERVAL_MS).unref();
+
+const router = new Router(CLIENT_ORIGIN);
+registerAuthRoutes(router, auth, store);
+registerMediaRoutes(router, auth, media);
+
+// Socket.IO handles its own path (/socket.io); everything else goes through the router.
+const httpServer = createServer((req, res) => {
+  if (!router.handle(req, res)) sendJson(res, 404, { error: 'Not found.' });
+});
+const io: ChatServer = new Server(httpServer, {
+  cors: { origin: CLIENT_ORIGIN, credentials: true },
+});
+const calls = new CallRegistry(io, store);
+
+// Only sockets presenting a valid session token in the handshake `auth` may connect.
+io.use((socket, next) => {
+  const token: unknown = socket.handshake.auth?.token;
+  const account = auth.verifySession(token);
+  if (!account || typeof token !== 'string') {
+    next(new Error('Unauthorized'));
+    return;
+  }
+  socket.data.userId = account.userId;
+  socket.data.token = token;
+  next();
+});
+
+io.on('connection', (socket) => {
+  const { userId } = socket.data;
+  const user = store.getUser(userId);
+  socket.join(userRoom(userId));
+  console.log(`User ${user?.name} (${userId}) connected on socket ${socket.id}`);
+
+  // Re-check the session on every event, so a revoked or expired token stops working immediately.
+  socket.use((_packet, next) => {
+    if (auth.verifySession(socket.data.token)?.userId === userId) next();
+    else next(new Error('Unauthorized'));
+  });
+  socket.on('error', (err) => {
+    console.warn(`Closing socket ${socket.id} for user ${userId}: ${err.message}`);
+    socket.emit('server_error', 'Your session has expired. Please log in again.');
+    socket.disconnect(true);
+  });
+
+  const cameOnline = updatePresence(io, store, userId, () => store.addSocket(userId, socket.id));
+  if (cameOnline) {
+    // Messages sent while the user was offline are now delivered.
+    notifyStatusChanges(io, store.markDeliveredFor(userId));
+  }
+
+  registerHandlers(io, socket, store, auth, media, linkPreviews, calls, policy);
+  calls.handleConnect(userId, socket.id, cameOnline);
+
+  socket.on('disconnect', (reason) => {
+    console.log(`Socket ${socket.id} for user ${userId} disconnected: ${reason}`);
+    updatePresence(io, store, userId, () => store.removeSocket(userId, socket.id));
+    calls.handleDisconnect(userId, socket.id);
+  });
+});
+
+httpServer.listen(PORT, () => {
+  console.log(`ChatterBox server listening on port ${PORT} (client origin: ${CLIENT_ORIGIN})`);
+});
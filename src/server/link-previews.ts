@@ -0,0 +1,93 @@
+import type { LinkPreview } from '@/types';
+import type { Db } from './db';
+import { unfurl, type UnfurlOptions } from './unfurl';
+
+interface LinkPreviewRow {
+  url: string;
+  title: string | null; // Null when the page couldn't be previewed
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+  fetched_at: string;
+}
+
+// Pages are fetched again once their preview is this old; failures are retried sooner
+const PREVIEW_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const FAILURE_MAX_AGE_MS = 60 * 60 * 1000;
+
+/**
+ * Previews of links found in messages, fetched once per URL and cached in the `link_previews`
+ * table, so a link shared in many messages is only fetched again once its preview is stale.
+ */
+export class LinkPreviewStore {
+  private readonly statements;
+  // Concurrent requests for the same URL share one fetch
+  private inFlight = new Map<string, Promise<LinkPreview | undefined>>();
+
+  constructor(db: Db, private readonly options: UnfurlOptions = {}) {
+    this.statements = {
+      get: db.prepare('SELECT * FROM link_previews WHERE url = ?'),
+      upsert: db.prepare(`
+        INSERT INTO link_previews (url, title, description, image_url, site_name, fetched_at)
+        VALUES (@url, @title, @description, @image_url, @site_name, @fetched_at)
+        ON CONFLICT (url) DO UPDATE SET
+          title = excluded.title, description = excluded.description, image_url = excluded.image_url,
+          site_name = excluded.site_name, fetched_at = excluded.fetched_at`),
+    };
+  }
+
+  /** The cached preview of the URL, however old, without fetching anything. */
+  get(url: string): LinkPreview | undefined {
+    const row = this.statements.get.get(url) as LinkPreviewRow | undefined;
+    return row ? this.serialize(row) : undefined;
+  }
+
+  /**
+   * The preview of the URL, fetched unless a recent one is cached. Resolves to undefined when
+   * the page can't be previewed; it never rejects.
+   */
+  fetch(url: string): Promise<LinkPreview | undefined> {
+    const row = this.statements.get.get(url) as LinkPreviewRow | undefined;
+    const maxAge = row?.title ? PREVIEW_MAX_AGE_MS : FAILURE_MAX_AGE_MS;
+    if (row && Date.now() - new Date(row.fetched_at).getTime() < maxAge) return Promise.resolve(this.serialize(row));
+
+    let pending = this.inFlight.get(url);
+    if (!pending) {
+      pending = unfurl(url, this.options)
+        .catch(error => {
+          console.warn(`Could not preview ${url}:`, error instanceof Error ? error.message : error);
+          return null;
+        })
+        .then(preview => {
+          // A preview that can't be cached is still worth showing; it's just fetched again next time
+          try {
+            this.statements.upsert.run({
+              url,
+              title: preview?.title ?? null,
+              description: preview?.description ?? null,
+              image_url: preview?.imageUrl ?? null,
+              site_name: preview?.siteName ?? null,
+              fetched_at: new Date().toISOString(),
+            });
+          } catch (error) {
+            console.error(`Could not store the preview of ${url}:`, error);
+          }
+          return preview ?? undefined;
+        })
+        .finally(() => this.inFlight.delete(url));
+      this.inFlight.set(url, pending);
+    }
+    return pending;
+  }
+
+  private serialize(row: LinkPreviewRow): LinkPreview | undefined {
+    if (!row.title) return undefined;
+    return {
+      url: row.url,
+      title: row.title,
+      description: row.description ?? undefined,
+      imageUrl: row.image_url ?? undefined,
+      siteName: row.site_name ?? undefined,
+    };
+  }
+}
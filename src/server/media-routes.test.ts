@@ -0,0 +1,91 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { unlink } from 'node:fs/promises';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import sharp from 'sharp';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { UploadStatus } from '@/types/media';
+import { AuthStore } from './auth';
+import { openDatabase } from './db';
+import { Router } from './http';
+import { MediaStore } from './media';
+import { registerMediaRoutes } from './media-routes';
+
+let dir: string;
+let server: Server;
+let origin: string;
+let token: string;
+
+beforeAll(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  dir = mkdtempSync(join(tmpdir(), 'chatterbox-media-'));
+  const auth = new AuthStore(join(dir, 'auth.json'));
+  const account = await auth.register('alice', 'correct horse battery');
+  token = (await auth.createSession(account.userId)).token;
+
+  const router = new Router('http://localhost:3000');
+  registerMediaRoutes(router, auth, new MediaStore(openDatabase(':memory:'), join(dir, 'media'), 'http://localhost:3001'));
+  server = createServer((req, res) => {
+    if (router.handle(req, res)) return;
+    res.writeHead(404);
+    res.end();
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+  rmSync(dir, { recursive: true, force: true });
+  vi.restoreAllMocks();
+});
+
+/** Uploads a PNG in one chunk. */
+async function uploadImage(width: number, height: number): Promise<UploadStatus> {
+  const png = await sharp({ create: { width, height, channels: 3, background: '#3366cc' } }).png().toBuffer();
+  const authorization = `Bearer ${token}`;
+  const created = await fetch(`${origin}/media/uploads`, {
+    method: 'POST',
+    headers: { Authorization: authorization, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ fileName: 'blue.png', mimeType: 'image/png', size: png.length }),
+  });
+  const { uploadId } = (await created.json()) as UploadStatus;
+  const chunk = await fetch(`${origin}/media/uploads/${uploadId}`, {
+    method: 'PUT',
+    headers: { Authorization: authorization, 'Content-Range': `bytes 0-${png.length - 1}/${png.length}` },
+    body: png,
+  });
+  expect(chunk.status).toBe(200);
+  return (await chunk.json()) as UploadStatus;
+}
+
+describe('media routes', () => {
+  it('answers 400 to a malformed path, without a token, and keeps serving', async () => {
+    for (const path of ['/media/%E0%A4%A', '/media/%E0%A4%A/poster', '/media/uploads/%ZZ']) {
+      const res = await fetch(`${origin}${path}`);
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({ error: 'Malformed path.' });
+    }
+    expect((await fetch(`${origin}/media/media_unknown`)).status).toBe(404);
+  });
+
+  it('serves the thumbnails of a completed image', async () => {
+    const status = await uploadImage(800, 600);
+    expect(status.received).toBe(status.size);
+    expect(status.media?.thumbnails?.map(thumbnail => thumbnail.width)).toEqual([320, 640]);
+
+    const thumbnail = await fetch(status.media!.thumbnails![0].url.replace('http://localhost:3001', origin));
+    expect(thumbnail.status).toBe(200);
+    expect(thumbnail.headers.get('Content-Type')).toBe('image/webp');
+  });
+
+  it('answers 404 when a thumbnail is missing on disk', async () => {
+    const status = await uploadImage(800, 600);
+    const mediaId = status.media!.id;
+    await unlink(join(dir, 'media', `${mediaId}.320w.webp`));
+    expect((await fetch(`${origin}/media/${mediaId}/thumbnails/320`)).status).toBe(404);
+    expect((await fetch(`${origin}/media/${mediaId}/thumbnails/640`)).status).toBe(200);
+  });
+});
@@ -0,0 +1,121 @@
+import { createReadStream } from 'node:fs';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { createUploadSchema, UPLOAD_CHUNK_BYTES } from '@/types/media';
+import type { Account, AuthStore } from './auth';
+import type { MediaFile, MediaStore } from './media';
+import { HttpError, Router, getBearerToken, readBody, readJson, sendJson } from './http';
+
+const requireAccount = (req: IncomingMessage, auth: AuthStore): Account => {
+  const account = auth.verifySession(getBearerToken(req));
+  if (!account) throw new HttpError(401, 'Session expired. Please log in again.');
+  return account;
+};
+
+// `bytes <start>-<end>/<total>`, as sent with each upload chunk
+function parseContentRange(header: string | undefined) {
+  const match = /^bytes (\d+)-(\d+)\/(\d+)$/.exec(header ?? '');
+  if (!match) throw new HttpError(400, 'A Content-Range header of the form "bytes start-end/total" is required.');
+  const [start, end, total] = match.slice(1).map(Number);
+  if (end < start) throw new HttpError(400, 'Invalid Content-Range.');
+  return { start, end, total };
+}
+
+// Single `bytes=<start>-<end>` range of a GET, as browsers send when seeking in a video
+function parseRange(header: string | undefined, size: number): { start: number; end: number } | null | 'invalid' {
+  if (!header) return null;
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header);
+  if (!match || (!match[1] && !match[2])) return 'invalid';
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    start = Math.max(size - Number(match[2]), 0);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  }
+  return start > end || start >= size ? 'invalid' : { start, end };
+}
+
+/** Streams a stored file, honoring a `Range` header so videos can seek. */
+function sendFile(req: IncomingMessage, res: ServerResponse, file: MediaFile, mediaId: string) {
+  const headers = {
+    'Content-Type': file.mimeType,
+    'Accept-Ranges': 'bytes',
+    // Media never changes once uploaded
+    'Cache-Control': 'private, max-age=31536000, immutable',
+    // Never let a browser treat an upload as a page or script
+    'X-Content-Type-Options': 'nosniff',
+    'Content-Security-Policy': "default-src 'none'; sandbox",
+    'Cross-Origin-Resource-Policy': 'cross-origin',
+  };
+  const range = parseRange(req.headers.range, file.size);
+  if (range === 'invalid') {
+    res.writeHead(416, { 'Content-Range': `bytes */${file.size}` });
+    res.end();
+    return;
+  }
+  if (range) {
+    res.writeHead(206, {
+      ...headers,
+      'Content-Range': `bytes ${range.start}-${range.end}/${file.size}`,
+      'Content-Length': range.end - range.start + 1,
+    });
+  } else {
+    res.writeHead(200, { ...headers, 'Content-Length': file.size });
+  }
+  createReadStream(file.path, range ?? undefined)
+    .on('error', error => {
+      console.error(`Failed to stream media ${mediaId}:`, error);
+      res.destroy(error);
+    })
+    .pipe(res);
+}
+
+/**
+ * POST /media/uploads -> UploadStatus for a new upload
+ * GET /media/uploads/:id -> UploadStatus, to resume an interrupted upload
+ * PUT /media/uploads/:id -> UploadStatus after storing the chunk given by Content-Range
+ * GET /media/:id -> the file (with Range support); IDs are unguessable, so no token is needed
+ * GET /media/:id/poster -> JPEG poster frame of a video
+ * GET /media/:id/thumbnails/:width -> WebP thumbnail of an image, at one of the widths listed in its MediaRef
+ */
+export function registerMediaRoutes(router: Router, auth: AuthStore, media: MediaStore) {
+  router.add('POST', '/media/uploads', async ({ req, res }) => {
+    const account = requireAccount(req, auth);
+    const upload = await readJson(req, createUploadSchema);
+    sendJson(res, 201, media.createUpload(account.userId, upload));
+  });
+
+  router.add('GET', '/media/uploads/:id', ({ req, res, params }) => {
+    const account = requireAccount(req, auth);
+    sendJson(res, 200, media.getUploadStatus(params.id, account.userId));
+  });
+
+  router.add('PUT', '/media/uploads/:id', async ({ req, res, params }) => {
+    const account = requireAccount(req, auth);
+    const { start, end, total } = parseContentRange(req.headers['content-range']);
+    const chunk = await readBody(req, UPLOAD_CHUNK_BYTES);
+    if (chunk.length !== end - start + 1) throw new HttpError(400, 'Chunk length does not match Content-Range.');
+    sendJson(res, 200, await media.appendChunk(params.id, account.userId, start, total, chunk));
+  });
+
+  router.add('GET', '/media/:id', ({ req, res, params }) => {
+    const file = media.getFile(params.id);
+    if (!file) throw new HttpError(404, 'Media not found.');
+    sendFile(req, res, file, params.id);
+  });
+
+  router.add('GET', '/media/:id/poster', ({ req, res, params }) => {
+    const file = media.getPosterFile(params.id);
+    if (!file) throw new HttpError(404, 'Poster not found.');
+    sendFile(req, res, file, params.id);
+  });
+
+  router.add('GET', '/media/:id/thumbnails/:width', ({ req, res, params }) => {
+    const file = media.getThumbnailFile(params.id, Number(params.width));
+    if (!file) throw new HttpError(404, 'Thumbnail not found.');
+    sendFile(req, res, file, params.id);
+  });
+}
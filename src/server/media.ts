@@ -0,0 +1,352 @@
+import { randomUUID } from 'node:crypto';
+import { mkdirSync, statSync } from 'node:fs';
+import { open, rename, unlink } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { MediaRef, MediaThumbnail } from '@/types';
+import { UPLOAD_CHUNK_BYTES, type CreateUpload, type UploadStatus } from '@/types/media';
+import type { Db } from './db';
+import { HttpError } from './http';
+import { computeBlurhash, createThumbnails, sanitizeImage, type Thumbnail } from './images';
+import { extractPosterFrame, probeVideo } from './video';
+
+interface MediaRow {
+  id: string;
+  owner_id: string;
+  file_name: string;
+  mime_type: string;
+  size: number;
+  width: number | null;
+  height: number | null;
+  received: number;
+  created_at: string;
+  completed_at: string | null;
+  duration_ms: number | null;
+  has_poster: number;
+  blurhash: string | null;
+  thumbnails: string | null; // JSON Thumbnail[]
+}
+
+export interface MediaFile {
+  path: string;
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * Uploaded media: metadata in the `media` table, bytes in `dir`.
+ * An upload is written to `<id>.part` chunk by chunk and renamed to `<id>` once complete,
+ * so only fully received files are ever served.
+ */
+export class MediaStore {
+  private readonly statements;
+  // Chunks of the same upload are written one at a time, in arrival order.
+  private chunkWrites = new Map<string, Promise<unknown>>();
+
+  constructor(db: Db, private readonly dir: string, private readonly publicUrl: string) {
+    mkdirSync(dir, { recursive: true });
+    this.statements = {
+      get: db.prepare('SELECT * FROM media WHERE id = ?'),
+      insert: db.prepare(`
+        INSERT INTO media (id, owner_id, file_name, mime_type, size, width, height, created_at)
+        VALUES (@id, @owner_id, @file_name, @mime_type, @size, @width, @height, @created_at)`),
+      setReceived: db.prepare('UPDATE media SET received = ? WHERE id = ?'),
+      complete: db.prepare(`
+        UPDATE media SET mime_type = @mime_type, size = @size, received = @size, width = @width, height = @height,
+          duration_ms = @duration_ms, has_poster = @has_poster, blurhash = @blurhash, thumbnails = @thumbnails,
+          completed_at = @completed_at
+        WHERE id = @id`),
+      delete: db.prepare('DELETE FROM media WHERE id = ?'),
+      isReferenced: db.prepare('SELECT 1 FROM messages WHERE media_id = ? LIMIT 1').pluck(),
+      // Uploads no message references, e.g. never sent or left behind by a crash
+      unreferenced: db.prepare(`
+        SELECT * FROM media m
+        WHERE created_at < ? AND NOT EXISTS (SELECT 1 FROM messages WHERE media_id = m.id)`),
+    };
+  }
+
+  createUpload(ownerId: string, upload: CreateUpload): UploadStatus {
+    const row: Omit<MediaRow, 'received' | 'completed_at' | 'duration_ms' | 'has_poster' | 'blurhash' | 'thumbnails'> = {
+      id: `media_${randomUUID()}`,
+      owner_id: ownerId,
+      file_name: upload.fileName,
+      mime_type: upload.mimeType,
+      size: upload.size,
+      width: upload.width ?? null,
+      height: upload.height ?? null,
+      created_at: new Date().toISOString(),
+    };
+    this.statements.insert.run(row);
+    return this.toStatus({
+      ...row,
+      received: 0,
+      completed_at: null,
+      duration_ms: null,
+      has_poster: 0,
+      blurhash: null,
+      thumbnails: null,
+    });
+  }
+
+  /** Status of one of the user's uploads, used by clients to resume. */
+  getUploadStatus(uploadId: string, ownerId: string): UploadStatus {
+    return this.toStatus(this.requireUpload(uploadId, ownerId));
+  }
+
+  /**
+   * Stores the chunk that starts at byte `start` of the file.
+   * Chunks must arrive in order; a chunk that doesn't start where the previous one
+   * ended is rejected with 409 so the client can re-sync from the upload status.
+   */
+  appendChunk(uploadId: string, ownerId: string, start: number, total: number, data: Buffer): Promise<UploadStatus> {
+    const previous = this.chunkWrites.get(uploadId) ?? Promise.resolve();
+    const write = previous
+      .catch(() => {}) // A failed chunk must not block the retry
+      .then(() => this.writeChunk(uploadId, ownerId, start, total, data));
+    this.chunkWrites.set(uploadId, write);
+    const cleanup = () => {
+      if (this.chunkWrites.get(uploadId) === write) this.chunkWrites.delete(uploadId);
+    };
+    write.then(cleanup, cleanup);
+    return write;
+  }
+
+  private async writeChunk(uploadId: string, ownerId: string, start: number, total: number, data: Buffer): Promise<UploadStatus> {
+    const row = this.requireUpload(uploadId, ownerId);
+    // A retried final chunk whose response was lost; the upload is already done
+    if (row.completed_at) return this.toStatus(row);
+    if (total !== row.size) throw new HttpError(400, `Content-Range total must be the declared size (${row.size} bytes).`);
+    if (start !== row.received) throw new HttpError(409, `Expected a chunk starting at byte ${row.received}.`);
+    if (data.length === 0) throw new HttpError(400, 'Chunk is empty.');
+    if (start + data.length > row.size) throw new HttpError(400, 'Chunk exceeds the declared file size.');
+
+    // Positional writes make a chunk retried after a crash overwrite, rather than duplicate, its bytes
+    const file = await open(this.partPath(uploadId), start === 0 ? 'w' : 'r+');
+    try {
+      await file.write(data, 0, data.length, start);
+    } finally {
+      await file.close();
+    }
+
+    const received = start + data.length;
+    if (received < row.size) {
+      this.statements.setReceived.run(received, uploadId);
+      return this.getUploadStatus(uploadId, ownerId);
+    }
+
+    // The last chunk is only recorded together with the processing results: if processing fails
+    // or the server stops midway, the upload still expects that chunk, and resending it runs processing again.
+    // Processing leaves the part file as it is, so that chunk can be written over it.
+    let processed = row;
+    let source = this.partPath(uploadId);
+    if (row.mime_type.startsWith('video/')) processed = await this.processVideo(row);
+    if (row.mime_type.startsWith('image/')) {
+      processed = await this.processImage(row);
+      source = this.sanitizedPath(uploadId);
+    }
+    await rename(source, this.filePath(uploadId));
+    this.statements.complete.run({ ...processed, completed_at: new Date().toISOString() });
+    if (source !== this.partPath(uploadId)) await unlink(this.partPath(uploadId)).catch(() => {});
+    console.log(`Upload ${uploadId} (${row.file_name}, ${row.size} bytes) completed`);
+    return this.getUploadStatus(uploadId, ownerId);
+  }
+
+  /**
+   * Reads the duration and real dimensions of an uploaded video and extracts its poster frame.
+   * A file ffprobe can't read as video is discarded, so it can never be sent as a video message.
+   */
+  private async processVideo(row: MediaRow): Promise<MediaRow> {
+    const partPath = this.partPath(row.id);
+    let info;
+    try {
+      info = await probeVideo(partPath);
+    } catch (error) {
+      await this.discardUpload(row, error);
+      throw new HttpError(422, 'The file is not a playable video.');
+    }
+
+    // A frame one second in is usually past any fade-in; very short clips use their midpoint
+    let hasPoster = true;
+    try {
+      await extractPosterFrame(partPath, this.posterPath(row.id), Math.min(1000, info.durationMs / 2));
+    } catch (error) {
+      console.warn(`Could not extract a poster frame for ${row.id}:`, error);
+      hasPoster = false;
+    }
+    return { ...row, width: info.width, height: info.height, duration_ms: info.durationMs, has_poster: hasPoster ? 1 : 0 };
+  }
+
+  /**
+   * Makes a copy of an uploaded image stripped of its metadata (notably EXIF GPS positions), which is
+   * what gets served, then generates its thumbnails and blurhash placeholder.
+   * A file that doesn't decode as an image is discarded.
+   */
+  private async processImage(row: MediaRow): Promise<MediaRow> {
+    const partPath = this.partPath(row.id);
+    const sanitizedPath = this.sanitizedPath(row.id);
+    let info;
+    try {
+      info = await sanitizeImage(partPath, sanitizedPath);
+    } catch (error) {
+      await unlink(sanitizedPath).catch(() => {});
+      await this.discardUpload(row, error);
+      throw new HttpError(422, 'The file is not a readable image.');
+    }
+
+    // Animations keep playing only in the original, so they get a placeholder but no thumbnails
+    let thumbnails: Thumbnail[] = [];
+    let blurhash: string | null = null;
+    try {
+      if (!info.animated) thumbnails = await createThumbnails(sanitizedPath, info.width, width => this.thumbnailPath(row.id, width));
+      blurhash = await computeBlurhash(sanitizedPath);
+    } catch (error) {
+      console.warn(`Could not create thumbnails for ${row.id}:`, error);
+    }
+    return {
+      ...row,
+      mime_type: info.mimeType,
+      size: info.size,
+      width: info.width,
+      height: info.height,
+      blurhash,
+      thumbnails: JSON.stringify(thumbnails),
+    };
+  }
+
+  private async discardUpload(row: MediaRow, reason: unknown) {
+    console.warn(`Rejected upload ${row.id} (${row.file_name}, ${row.mime_type}):`, reason);
+    this.statements.delete.run(row.id);
+    await unlink(this.partPath(row.id)).catch(() => {});
+  }
+
+  /** Deletes the upload and its files unless a message still references it, e.g. once its message was deleted. */
+  async deleteIfUnreferenced(mediaId: string): Promise<boolean> {
+    const row = this.statements.get.get(mediaId) as MediaRow | undefined;
+    if (!row || this.statements.isReferenced.get(mediaId)) return false;
+    await this.remove(row);
+    return true;
+  }
+
+  /**
+   * Deletes uploads older than `maxAgeMs` that no message references. The age gives a client
+   * time to send a finished upload, or to resume an interrupted one.
+   */
+  async collectGarbage(maxAgeMs: number): Promise<number> {
+    const cutoff = new Date(Date.now() - maxAgeMs).toISOString();
+    const rows = this.statements.unreferenced.all(cutoff) as MediaRow[];
+    for (const row of rows) {
+      await this.remove(row);
+    }
+    if (rows.length > 0) console.log(`Deleted ${rows.length} unused uploads`);
+    return rows.length;
+  }
+
+  private async remove(row: MediaRow) {
+    this.statements.delete.run(row.id);
+    const paths = [
+      this.filePath(row.id),
+      this.partPath(row.id),
+      this.sanitizedPath(row.id),
+      this.posterPath(row.id),
+      ...this.parseThumbnails(row).map(thumbnail => this.thumbnailPath(row.id, thumbnail.width)),
+    ];
+    // Files that were never written (e.g. no poster) are fine to miss
+    await Promise.all(paths.map(path => unlink(path).catch(() => {})));
+  }
+
+  /** A completed upload, or undefined if unknown or still in progress. */
+  getMedia(mediaId: string): MediaRef | undefined {
+    const row = this.statements.get.get(mediaId) as MediaRow | undefined;
+    return row?.completed_at ? this.toRef(row) : undefined;
+  }
+
+  getOwnerId(mediaId: string): string | undefined {
+    return (this.statements.get.get(mediaId) as MediaRow | undefined)?.owner_id;
+  }
+
+  /** Location of a completed upload on disk, for serving it. */
+  getFile(mediaId: string): MediaFile | undefined {
+    const row = this.statements.get.get(mediaId) as MediaRow | undefined;
+    if (!row?.completed_at) return undefined;
+    return { path: this.filePath(row.id), mimeType: row.mime_type, size: row.size };
+  }
+
+  /** Location of a video's poster frame, if one was extracted. */
+  getPosterFile(mediaId: string): MediaFile | undefined {
+    const row = this.statements.get.get(mediaId) as MediaRow | undefined;
+    if (!row?.completed_at || !row.has_poster) return undefined;
+    return this.derivedFile(this.posterPath(row.id), 'image/jpeg');
+  }
+
+  /** Location of one of an image's thumbnails, by its width. */
+  getThumbnailFile(mediaId: string, width: number): MediaFile | undefined {
+    const row = this.statements.get.get(mediaId) as MediaRow | undefined;
+    if (!row?.completed_at || !this.parseThumbnails(row).some(thumbnail => thumbnail.width === width)) return undefined;
+    return this.derivedFile(this.thumbnailPath(row.id, width), 'image/webp');
+  }
+
+  // Posters and thumbnails can go missing on disk, e.g. after a restore without them; that's a 404, not a 500
+  private derivedFile(path: string, mimeType: string): MediaFile | undefined {
+    const stats = statSync(path, { throwIfNoEntry: false });
+    return stats ? { path, mimeType, size: stats.size } : undefined;
+  }
+
+  private requireUpload(uploadId: string, ownerId: string): MediaRow {
+    const row = this.statements.get.get(uploadId) as MediaRow | undefined;
+    // Someone else's upload is reported as missing rather than forbidden
+    if (!row || row.owner_id !== ownerId) throw new HttpError(404, 'Upload not found.');
+    return row;
+  }
+
+  private partPath(mediaId: string) {
+    return join(this.dir, `${mediaId}.part`);
+  }
+
+  private sanitizedPath(mediaId: string) {
+    return join(this.dir, `${mediaId}.part.sanitized`);
+  }
+
+  private filePath(mediaId: string) {
+    return join(this.dir, mediaId);
+  }
+
+  private posterPath(mediaId: string) {
+    return join(this.dir, `${mediaId}.poster.jpg`);
+  }
+
+  private thumbnailPath(mediaId: string, width: number) {
+    return join(this.dir, `${mediaId}.${width}w.webp`);
+  }
+
+  private parseThumbnails(row: MediaRow): Thumbnail[] {
+    return row.thumbnails ? (JSON.parse(row.thumbnails) as Thumbnail[]) : [];
+  }
+
+  private toStatus(row: MediaRow): UploadStatus {
+    return {
+      uploadId: row.id,
+      size: row.size,
+      received: row.received,
+      chunkSize: UPLOAD_CHUNK_BYTES,
+      media: row.completed_at ? this.toRef(row) : undefined,
+    };
+  }
+
+  private toRef(row: MediaRow): MediaRef {
+    const url = `${this.publicUrl}/media/${encodeURIComponent(row.id)}`;
+    const thumbnails = this.parseThumbnails(row);
+    return {
+      id: row.id,
+      mimeType: row.mime_type,
+      size: row.size,
+      width: row.width ?? undefined,
+      height: row.height ?? undefined,
+      url,
+      durationMs: row.duration_ms ?? undefined,
+      posterUrl: row.has_poster ? `${url}/poster` : undefined,
+      blurhash: row.blurhash ?? undefined,
+      thumbnails: thumbnails.length > 0
+        ? thumbnails.map((thumbnail): MediaThumbnail => ({ ...thumbnail, url: `${url}/thumbnails/${thumbnail.width}` }))
+        : undefined,
+    };
+  }
+}
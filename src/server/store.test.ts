@@ -0,0 +1,185 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Message } from '@/types';
+import { openDatabase } from './db';
+import { LinkPreviewStore } from './link-previews';
+import { MediaStore } from './media';
+import { ChatStore, INITIAL_PAGE_SIZE, MAX_PAGE_SIZE } from './store';
+
+const mediaDir = mkdtempSync(join(tmpdir(), 'chatterbox-store-'));
+
+// Each test opens a fresh database, which logs its migration
+beforeAll(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  rmSync(mediaDir, { recursive: true, force: true });
+  vi.restoreAllMocks();
+});
+
+let store: ChatStore;
+
+beforeEach(() => {
+  const db = openDatabase(':memory:');
+  store = new ChatStore(db, new MediaStore(db, mediaDir, 'http://localhost:3001'), new LinkPreviewStore(db));
+  for (const name of ['Alice', 'Bob', 'Carol', 'Dave']) store.upsertUser(name.toLowerCase(), name);
+});
+
+const statusOf = (chatId: string, messageId: string) => store.getMessage(chatId, messageId)?.status;
+
+const ids = (messages: Message[]) => messages.map(message => message.id);
+
+// Sends `count` text messages to the chat, numbered from 1
+const sendMessages = (chatId: string, senderId: string, count: number) =>
+  Array.from({ length: count }, (_, i) => store.addMessage(chatId, senderId, `Message ${i + 1}`, 'text'));
+
+const EPOCH = new Date(0);
+const LATER = new Date(Date.now() + 60 * 60 * 1000);
+
+describe('ChatStore', () => {
+  describe('findSentMessage', () => {
+    it("finds a message by its client's ID, in that chat and from that sender only", () => {
+      const chat = store.findOrCreateDirectChat('alice', 'bob');
+      const other = store.findOrCreateDirectChat('alice', 'carol');
+      const message = store.addMessage(chat, 'alice', 'Hello', 'text', { clientId: 'temp_1' });
+      expect(store.findSentMessage(chat, 'alice', 'temp_1')).toEqual(message);
+      expect(store.findSentMessage(other, 'alice', 'temp_1')).toBeUndefined();
+      expect(store.findSentMessage(chat, 'bob', 'temp_1')).toBeUndefined();
+      // The same client ID is another message when someone else sends it
+      expect(() => store.addMessage(chat, 'bob', 'Hi', 'text', { clientId: 'temp_1' })).not.toThrow();
+      expect(() => store.addMessage(chat, 'alice', 'Hello', 'text', { clientId: 'temp_1' })).toThrow(/UNIQUE/);
+    });
+  });
+
+  describe('receipts', () => {
+    it('marks a group message delivered only once every other member got it', () => {
+      const group = store.createGroup('Team', ['alice', 'bob', 'carol', 'dave']);
+      const message = store.addMessage(group, 'alice', 'Hi all', 'text');
+      expect(store.markDelivered(group, message.id, ['bob'])).toEqual([]);
+      expect(store.markDelivered(group, message.id, ['carol'])).toEqual([]);
+      expect(statusOf(group, message.id)).toBe('sent');
+      expect(store.markDelivered(group, message.id, ['dave'])).toEqual([
+        { chatId: group, messageId: message.id, senderId: 'alice', status: 'delivered' },
+      ]);
+      expect(statusOf(group, message.id)).toBe('delivered');
+    });
+
+    it('marks a group message read only once everyone read it, in one change for the last reader', () => {
+      const group = store.createGroup('Team', ['alice', 'bob', 'carol', 'dave']);
+      const message = store.addMessage(group, 'alice', 'Hi all', 'text');
+      store.markDelivered(group, message.id, ['bob', 'carol']);
+      expect(store.markRead(group, 'bob', message.id)).toEqual([]);
+      expect(store.markRead(group, 'carol', message.id)).toEqual([]);
+      expect(statusOf(group, message.id)).toBe('sent');
+      // Dave reads it without having been online: delivered and read at once, reported as read only
+      expect(store.markRead(group, 'dave', message.id)).toEqual([
+        { chatId: group, messageId: message.id, senderId: 'alice', status: 'read' },
+      ]);
+      expect(statusOf(group, message.id)).toBe('read');
+    });
+
+    it('reports how far a message got with each of the other members', () => {
+      const group = store.createGroup('Team', ['alice', 'bob', 'carol', 'dave']);
+      const message = store.addMessage(group, 'alice', 'Hi all', 'text');
+      store.markRead(group, 'bob', message.id);
+      store.markDelivered(group, message.id, ['carol']);
+      const receipts = store.getReceipts(group, message.id);
+      expect(receipts?.map(receipt => [receipt.userId, receipt.status])).toEqual([['bob', 'read'], ['carol', 'delivered'], ['dave', 'sent']]);
+      expect(receipts?.[0]).toMatchObject({ deliveredAt: expect.any(Date), readAt: expect.any(Date) });
+      expect(receipts?.[1].readAt).toBeUndefined();
+      expect(receipts?.[2].deliveredAt).toBeUndefined();
+      expect(store.getReceipts(group, 'msg_unknown')).toBeUndefined();
+    });
+
+    it('moves cursors past every earlier message, never backwards, and only for messages from others', () => {
+      const group = store.createGroup('Team', ['alice', 'bob', 'carol']);
+      const first = store.addMessage(group, 'alice', 'One', 'text');
+      const own = store.addMessage(group, 'bob', 'Two', 'text');
+      const last = store.addMessage(group, 'alice', 'Three', 'text');
+      store.markRead(group, 'carol', last.id);
+      const changes = store.markRead(group, 'bob', last.id);
+      expect(changes.map(change => [change.messageId, change.status])).toEqual([[first.id, 'read'], [last.id, 'read']]);
+      // Carol read past Bob's message, but Alice hasn't
+      expect(statusOf(group, own.id)).toBe('sent');
+      expect(store.markRead(group, 'bob', first.id)).toEqual([]);
+      expect(store.getReceipts(group, last.id)?.map(receipt => receipt.status)).toEqual(['read', 'read']);
+    });
+  });
+
+  describe('getChangesForUser', () => {
+    it('sends the latest page of a chat the client does not have', () => {
+      const chat = store.findOrCreateDirectChat('alice', 'bob');
+      const messages = sendMessages(chat, 'bob', 3);
+      const [changes] = store.getChangesForUser('alice', {}, EPOCH);
+      expect(changes).toMatchObject({ isReset: true, updatedMessages: [], removedMessageIds: [] });
+      expect(ids(changes.chat.messages)).toEqual(ids(messages));
+      expect(changes.chat.hasMoreMessages).toBe(false);
+    });
+
+    it('sends the messages after the last one the client has', () => {
+      const chat = store.findOrCreateDirectChat('alice', 'bob');
+      const [first, ...missed] = sendMessages(chat, 'bob', 3);
+      const [changes] = store.getChangesForUser('alice', { [chat]: first.id }, LATER);
+      expect(changes).toMatchObject({ isReset: false, updatedMessages: [], removedMessageIds: [] });
+      expect(ids(changes.chat.messages)).toEqual(ids(missed));
+      expect(changes.chat.hasMoreMessages).toBe(false);
+      // A client with none of the chat's messages gets them all
+      expect(ids(store.getChangesForUser('alice', { [chat]: null }, LATER)[0].chat.messages)).toEqual([first.id, ...ids(missed)]);
+    });
+
+    it("starts over when the client's last message is gone", () => {
+      const chat = store.findOrCreateDirectChat('alice', 'bob');
+      const messages = sendMessages(chat, 'bob', 2);
+      const [changes] = store.getChangesForUser('alice', { [chat]: 'msg_unknown' }, LATER);
+      expect(changes.isReset).toBe(true);
+      expect(ids(changes.chat.messages)).toEqual(ids(messages));
+    });
+
+    it('starts over when more than a page of messages was sent', () => {
+      const chat = store.findOrCreateDirectChat('alice', 'bob');
+      const [first] = sendMessages(chat, 'bob', MAX_PAGE_SIZE + 2);
+      const [changes] = store.getChangesForUser('alice', { [chat]: first.id }, LATER);
+      expect(changes.isReset).toBe(true);
+      expect(changes.chat.messages).toHaveLength(INITIAL_PAGE_SIZE);
+      expect(changes.chat.hasMoreMessages).toBe(true);
+    });
+
+    it('starts over when more than a page of messages changed', () => {
+      const chat = store.findOrCreateDirectChat('alice', 'bob');
+      const messages = sendMessages(chat, 'bob', MAX_PAGE_SIZE + 1);
+      const last = messages[messages.length - 1];
+      // Reading them changes the status of every one
+      store.markRead(chat, 'alice', last.id);
+      expect(store.getChangesForUser('alice', { [chat]: last.id }, EPOCH)[0].isReset).toBe(true);
+    });
+
+    it('sends the older messages that changed since, but not those sent after', () => {
+      const chat = store.findOrCreateDirectChat('alice', 'bob');
+      const [edited, reacted, unchanged, missed] = sendMessages(chat, 'bob', 4);
+      store.editMessage(chat, edited.id, 'Edited');
+      store.addReaction(reacted.id, 'bob', '👍');
+      const [changes] = store.getChangesForUser('alice', { [chat]: unchanged.id }, EPOCH);
+      expect(changes.isReset).toBe(false);
+      expect(changes.updatedMessages.map(message => [message.id, message.content])).toEqual([[edited.id, 'Edited'], [reacted.id, 'Message 2']]);
+      expect(changes.updatedMessages[1].reactions).toEqual([{ emoji: '👍', userIds: ['bob'] }]);
+      expect(ids(changes.chat.messages)).toEqual([missed.id]);
+      expect(store.getChangesForUser('alice', { [chat]: unchanged.id }, LATER)[0].updatedMessages).toEqual([]);
+    });
+
+    it('reports the messages the user deleted for themselves since', () => {
+      const chat = store.findOrCreateDirectChat('alice', 'bob');
+      const [hidden, kept] = sendMessages(chat, 'bob', 2);
+      store.hideMessage('alice', hidden.id);
+      store.editMessage(chat, hidden.id, 'Edited');
+      const [changes] = store.getChangesForUser('alice', { [chat]: kept.id }, EPOCH);
+      expect(changes.removedMessageIds).toEqual([hidden.id]);
+      // Nor is it sent as updated
+      expect(changes.updatedMessages).toEqual([]);
+      expect(store.getChangesForUser('alice', { [chat]: kept.id }, LATER)[0].removedMessageIds).toEqual([]);
+      expect(store.getChangesForUser('bob', { [chat]: kept.id }, EPOCH)[0].removedMessageIds).toEqual([]);
+    });
+  });
+});
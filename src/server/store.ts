@@ -0,0 +1,772 @@
+import type { User, Presence, Chat, Message, MessageStatus, MessageReceipt, MessageRevision, MessageReaction, QuotedMessage, Call, CallOutcome, ScreenShare, LinkPreview } from '@/types';
+import { DEFAULT_USER_SETTINGS, type ChatChanges, type UserSettings } from '@/types/socket';
+import { getFirstLinkUrl } from '@/lib/markdown';
+import type { Db } from './db';
+import type { MediaStore } from './media';
+import type { LinkPreviewStore } from './link-previews';
+
+// Number of most recent messages sent per chat in initial_data; older ones are fetched with load_messages.
+export const INITIAL_PAGE_SIZE = 30;
+export const MAX_PAGE_SIZE = 100;
+// Number of most recent calls sent in initial_data for the call history
+export const RECENT_CALLS_LIMIT = 50;
+
+// Row shapes as stored in SQLite. Participants and senders are stored by ID so that
+// user details (name, avatar, presence) are always resolved fresh when a chat
+// is serialized for a client.
+interface MessageRow {
+  seq: number;
+  id: string;
+  chat_id: string;
+  sender_id: string;
+  content: string;
+  type: Message['type'];
+  status: MessageStatus;
+  timestamp: string;
+  media_id: string | null;
+  call_id: string | null;
+  screen_share_id: string | null;
+  edited_at: string | null;
+  deleted_at: string | null;
+  reply_to_id: string | null;
+  client_id: string | null; // Idempotency key of the sender's client
+}
+
+interface CallRow {
+  id: string;
+  chat_id: string;
+  type: Call['type'];
+  initiator_id: string;
+  started_at: string;
+  answered_at: string | null;
+  ended_at: string | null;
+  outcome: CallOutcome | null;
+}
+
+interface ScreenShareRow {
+  id: string;
+  call_id: string;
+  user_id: string;
+  started_at: string;
+  ended_at: string;
+}
+
+interface ChatRow {
+  id: string;
+  name: string | null;
+  is_group: number;
+  unread_count: number;
+}
+
+interface CursorRow {
+  user_id: string;
+  delivered_seq: number;
+  read_seq: number;
+}
+
+interface ReceiptRow {
+  user_id: string;
+  delivered: number;
+  read: number;
+  delivered_at: string | null;
+  read_at: string | null;
+}
+
+// A message whose status changed, for notifying its sender
+export interface MessageStatusChange {
+  chatId: string;
+  messageId: string;
+  senderId: string;
+  status: MessageStatus;
+}
+
+let idCounter = 0;
+
+export function generateId(prefix: string): string {
+  idCounter = (idCounter + 1) % Number.MAX_SAFE_INTEGER;
+  return `${prefix}_${Date.now().toString(36)}${idCounter.toString(36)}`;
+}
+
+/**
+ * Chat and message storage backed by SQLite, plus in-memory users and socket presence.
+ * Users are loaded from the auth store on startup.
+ */
+export class ChatStore {
+  private users = new Map<string, User>();
+  // A user can be connected from several tabs, so track every socket per user.
+  private socketsByUser = new Map<string, Set<string>>();
+  // Sockets whose tab reported being idle
+  private awaySockets = new Set<string>();
+
+  private readonly statements;
+
+  constructor(private readonly db: Db, private readonly media: MediaStore, private readonly linkPreviews: LinkPreviewStore) {
+    this.statements = {
+      chatExists: db.prepare('SELECT 1 FROM chats WHERE id = ?').pluck(),
+      isGroup: db.prepare('SELECT is_group FROM chats WHERE id = ?').pluck(),
+      isParticipant: db.prepare('SELECT 1 FROM chat_participants WHERE chat_id = ? AND user_id = ?').pluck(),
+      participantIds: db.prepare('SELECT user_id FROM chat_participants WHERE chat_id = ? ORDER BY rowid').pluck(),
+      chatsForUser: db.prepare(`
+        SELECT c.id, c.name, c.is_group, p.unread_count
+        FROM chats c JOIN chat_participants p ON p.chat_id = c.id
+        WHERE p.user_id = ?`),
+      chatForUser: db.prepare(`
+        SELECT c.id, c.name, c.is_group, COALESCE(p.unread_count, 0) AS unread_count
+        FROM chats c LEFT JOIN chat_participants p ON p.chat_id = c.id AND p.user_id = ?
+        WHERE c.id = ?`),
+      findDirectChat: db.prepare(`
+        SELECT c.id FROM chats c
+        JOIN chat_participants a ON a.chat_id = c.id AND a.user_id = ?
+        JOIN chat_participants b ON b.chat_id = c.id AND b.user_id = ?
+        WHERE c.is_group = 0 AND (SELECT COUNT(*) FROM chat_participants WHERE chat_id = c.id) = 2`).pluck(),
+      insertChat: db.prepare('INSERT INTO chats (id, name, is_group, created_at) VALUES (?, ?, ?, ?)'),
+      insertParticipant: db.prepare('INSERT OR IGNORE INTO chat_participants (chat_id, user_id) VALUES (?, ?)'),
+      insertMessage: db.prepare(`
+        INSERT INTO messages (id, chat_id, sender_id, content, type, status, timestamp, media_id, call_id, screen_share_id, reply_to_id, client_id)
+        VALUES (@id, @chat_id, @sender_id, @content, @type, @status, @timestamp, @media_id, @call_id, @screen_share_id, @reply_to_id, @client_id)`),
+      incrementUnread: db.prepare('UPDATE chat_participants SET unread_count = unread_count + 1 WHERE chat_id = ? AND user_id != ?'),
+      // Counts the messages from others after the user's read cursor
+      recountUnread: db.prepare(`
+        UPDATE chat_participants AS p SET unread_count = (
+          SELECT COUNT(*) FROM messages m WHERE m.chat_id = p.chat_id AND m.seq > p.read_seq AND m.sender_id != p.user_id
+        )
+        WHERE chat_id = ? AND user_id = ?`),
+      messageSeq: db.prepare('SELECT seq FROM messages WHERE chat_id = ? AND id = ?').pluck(),
+      message: db.prepare('SELECT * FROM messages WHERE chat_id = ? AND id = ?'),
+      messageByClientId: db.prepare('SELECT * FROM messages WHERE sender_id = ? AND client_id = ?'),
+      quotedMessage: db.prepare('SELECT id, sender_id, type, content, deleted_at FROM messages WHERE id = ?'),
+      updateMessageContent: db.prepare('UPDATE messages SET content = ?, edited_at = ? WHERE id = ?'),
+      // Like the messages_changed trigger, for changes the row itself doesn't show
+      touchMessage: db.prepare(`UPDATE messages SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE chat_id = ? AND id = ?`),
+      insertRevision: db.prepare('INSERT INTO message_revisions (message_id, content, created_at) VALUES (?, ?, ?)'),
+      revisions: db.prepare('SELECT content, created_at FROM message_revisions WHERE message_id = ? ORDER BY id'),
+      deleteRevisions: db.prepare('DELETE FROM message_revisions WHERE message_id = ?'),
+      tombstoneMessage: db.prepare(`UPDATE messages SET content = '', media_id = NULL, edited_at = NULL, deleted_at = ? WHERE id = ?`),
+      hideMessage: db.prepare('INSERT OR IGNORE INTO hidden_messages (user_id, message_id, hidden_at) VALUES (?, ?, ?)'),
+      insertReaction: db.prepare('INSERT OR IGNORE INTO message_reactions (message_id, user_id, emoji, created_at) VALUES (?, ?, ?, ?)'),
+      deleteReaction: db.prepare('DELETE FROM message_reactions WHERE message_id = ? AND user_id = ? AND emoji = ?'),
+      deleteReactions: db.prepare('DELETE FROM message_reactions WHERE message_id = ?'),
+      reactions: db.prepare('SELECT emoji, user_id FROM message_reactions WHERE message_id = ? ORDER BY created_at, rowid'),
+      // Newest first, leaving out messages the user deleted for themselves; callers reverse to chronological order
+      latestMessages: db.prepare(`
+        SELECT * FROM messages m
+        WHERE chat_id = @chatId AND NOT EXISTS (SELECT 1 FROM hidden_messages h WHERE h.user_id = @userId AND h.message_id = m.id)
+        ORDER BY seq DESC LIMIT @limit`),
+      messagesBefore: db.prepare(`
+        SELECT * FROM messages m
+        WHERE chat_id = @chatId AND seq < @seq
+          AND NOT EXISTS (SELECT 1 FROM hidden_messages h WHERE h.user_id = @userId AND h.message_id = m.id)
+        ORDER BY seq DESC LIMIT @limit`),
+      // Sync: messages sent after the client's last one, older ones changed since, and those hidden since
+      messagesAfter: db.prepare(`
+        SELECT * FROM messages m
+        WHERE chat_id = @chatId AND seq > @seq
+          AND NOT EXISTS (SELECT 1 FROM hidden_messages h WHERE h.user_id = @userId AND h.message_id = m.id)
+        ORDER BY seq LIMIT @limit`),
+      messagesUpdated: db.prepare(`
+        SELECT * FROM messages m
+        WHERE chat_id = @chatId AND seq <= @seq AND updated_at >= @since
+          AND NOT EXISTS (SELECT 1 FROM hidden_messages h WHERE h.user_id = @userId AND h.message_id = m.id)
+        ORDER BY seq LIMIT @limit`),
+      hiddenSince: db.prepare(`
+        SELECT h.message_id FROM hidden_messages h JOIN messages m ON m.id = h.message_id
+        WHERE h.user_id = @userId AND m.chat_id = @chatId AND m.seq <= @seq AND h.hidden_at >= @since`).pluck(),
+      chatIdsForUser: db.prepare('SELECT chat_id FROM chat_participants WHERE user_id = ?').pluck(),
+      latestSeq: db.prepare('SELECT MAX(seq) FROM messages WHERE chat_id = ?').pluck(),
+      cursors: db.prepare('SELECT user_id, delivered_seq, read_seq FROM chat_participants WHERE chat_id = ?'),
+      setDeliveredSeq: db.prepare('UPDATE chat_participants SET delivered_seq = ? WHERE chat_id = ? AND user_id = ?'),
+      setReadSeq: db.prepare('UPDATE chat_participants SET read_seq = ? WHERE chat_id = ? AND user_id = ?'),
+      insertReceiptEvent: db.prepare('INSERT INTO receipt_events (chat_id, user_id, kind, seq, at) VALUES (?, ?, ?, ?, ?)'),
+      // Messages from others that a cursor moving from `from` to `to` passes
+      messagesPassed: db.prepare(`
+        SELECT id, seq, sender_id, status FROM messages
+        WHERE chat_id = @chatId AND sender_id != @userId AND seq > @from AND seq <= @to`),
+      setStatus: db.prepare('UPDATE messages SET status = ? WHERE id = ?'),
+      // A cursor first reached the message with the earliest event at or past its seq
+      receipts: db.prepare(`
+        SELECT p.user_id, p.delivered_seq >= @seq AS delivered, p.read_seq >= @seq AS read,
+          (SELECT MIN(at) FROM receipt_events e
+           WHERE e.chat_id = p.chat_id AND e.user_id = p.user_id AND e.kind = 'delivered' AND e.seq >= @seq) AS delivered_at,
+          (SELECT MIN(at) FROM receipt_events e
+           WHERE e.chat_id = p.chat_id AND e.user_id = p.user_id AND e.kind = 'read' AND e.seq >= @seq) AS read_at
+        FROM chat_participants p
+        WHERE p.chat_id = @chatId AND p.user_id != @senderId
+        ORDER BY p.rowid`),
+      insertCall: db.prepare(`
+        INSERT INTO calls (id, chat_id, type, initiator_id, started_at)
+        VALUES (@id, @chat_id, @type, @initiator_id, @started_at)`),
+      insertCallParticipant: db.prepare('INSERT OR IGNORE INTO call_participants (call_id, user_id) VALUES (?, ?)'),
+      // The call counts as answered once anyone besides the initiator joins
+      markCallAnswered: db.prepare('UPDATE calls SET answered_at = ? WHERE id = ? AND answered_at IS NULL AND initiator_id != ?'),
+      finishCall: db.prepare('UPDATE calls SET ended_at = ?, outcome = ? WHERE id = ?'),
+      call: db.prepare('SELECT * FROM calls WHERE id = ?'),
+      callParticipantIds: db.prepare('SELECT user_id FROM call_participants WHERE call_id = ? ORDER BY rowid').pluck(),
+      recentCalls: db.prepare(`
+        SELECT c.* FROM calls c JOIN chat_participants p ON p.chat_id = c.chat_id AND p.user_id = ?
+        ORDER BY c.started_at DESC LIMIT ?`),
+      insertScreenShare: db.prepare(`
+        INSERT INTO screen_shares (id, call_id, user_id, started_at, ended_at)
+        VALUES (@id, @call_id, @user_id, @started_at, @ended_at)`),
+      screenShare: db.prepare('SELECT * FROM screen_shares WHERE id = ?'),
+      settings: db.prepare('SELECT link_previews FROM user_settings WHERE user_id = ?'),
+      upsertSettings: db.prepare(`
+        INSERT INTO user_settings (user_id, link_previews) VALUES (@user_id, @link_previews)
+        ON CONFLICT (user_id) DO UPDATE SET link_previews = excluded.link_previews`),
+      lastSeen: db.prepare('SELECT last_seen FROM user_presence WHERE user_id = ?').pluck(),
+      upsertLastSeen: db.prepare(`
+        INSERT INTO user_presence (user_id, last_seen) VALUES (?, ?)
+        ON CONFLICT (user_id) DO UPDATE SET last_seen = excluded.last_seen`),
+    };
+  }
+
+  // --- Users & presence ---
+
+  getUser(userId: string): User | undefined {
+    return this.users.get(userId);
+  }
+
+  getAllUsers(): User[] {
+    return Array.from(this.users.values());
+  }
+
+  /** Registers the user if unknown, otherwise keeps the existing profile. */
+  upsertUser(userId: string, name: string, avatarUrl?: string): User {
+    const existing = this.users.get(userId);
+    if (existing) return existing;
+    const lastSeen = this.statements.lastSeen.get(userId) as string | undefined;
+    const user: User = { id: userId, name, avatarUrl, presence: 'offline', lastSeen: lastSeen ? new Date(lastSeen) : undefined };
+    this.users.set(userId, user);
+    return user;
+  }
+
+  getSettings(userId: string): UserSettings {
+    const row = this.statements.settings.get(userId) as { link_previews: number } | undefined;
+    return row ? { linkPreviews: row.link_previews === 1 } : { ...DEFAULT_USER_SETTINGS };
+  }
+
+  /** Changes some of the user's settings and returns all of them. */
+  updateSettings(userId: string, changes: Partial<UserSettings>): UserSettings {
+    const settings = { ...this.getSettings(userId), ...changes };
+    this.statements.upsertSettings.run({ user_id: userId, link_previews: settings.linkPreviews ? 1 : 0 });
+    return settings;
+  }
+
+  /**
+   * Records a new socket for the user.
+   * Returns true if the user just came online (first socket).
+   */
+  addSocket(userId: string, socketId: string): boolean {
+    const sockets = this.socketsByUser.get(userId) ?? new Set<string>();
+    const wasOffline = sockets.size === 0;
+    sockets.add(socketId);
+    this.socketsByUser.set(userId, sockets);
+    this.refreshPresence(userId);
+    return wasOffline;
+  }
+
+  /**
+   * Removes a socket for the user.
+   * Returns true if the user just went offline (last socket closed).
+   */
+  removeSocket(userId: string, socketId: string): boolean {
+    const sockets = this.socketsByUser.get(userId);
+    if (!sockets || !sockets.delete(socketId)) return false;
+    this.awaySockets.delete(socketId);
+    if (sockets.size === 0) this.socketsByUser.delete(userId);
+    this.refreshPresence(userId);
+    return sockets.size === 0;
+  }
+
+  /** Marks one of the user's sockets as idle, or in use again. */
+  setAway(userId: string, socketId: string, away: boolean) {
+    if (!this.socketsByUser.get(userId)?.has(socketId)) return;
+    if (away) this.awaySockets.add(socketId);
+    else this.awaySockets.delete(socketId);
+    this.refreshPresence(userId);
+  }
+
+  // Online while any of the user's sockets is in use, away while all of them are idle
+  private refreshPresence(userId: string) {
+    const user = this.users.get(userId);
+    if (!user) return;
+    const sockets = Array.from(this.socketsByUser.get(userId) ?? []);
+    const presence: Presence =
+      sockets.length === 0 ? 'offline' : sockets.every(id => this.awaySockets.has(id)) ? 'away' : 'online';
+    if (user.presence === 'online' && presence !== 'online') {
+      user.lastSeen = new Date();
+      this.statements.upsertLastSeen.run(userId, user.lastSeen.toISOString());
+    }
+    user.presence = presence;
+  }
+
+  isOnline(userId: string): boolean {
+    return (this.socketsByUser.get(userId)?.size ?? 0) > 0;
+  }
+
+  /** Map of online user IDs to one of their socket IDs, as the client expects. */
+  getOnlineUsers(): Record<string, string> {
+    const online: Record<string, string> = {};
+    for (const [userId, sockets] of this.socketsByUser) {
+      const first = sockets.values().next().value;
+      if (first) online[userId] = first;
+    }
+    return online;
+  }
+
+  // --- Chats ---
+
+  hasChat(chatId: string): boolean {
+    return !!this.statements.chatExists.get(chatId);
+  }
+
+  isGroup(chatId: string): boolean {
+    return this.statements.isGroup.get(chatId) === 1;
+  }
+
+  isParticipant(chatId: string, userId: string): boolean {
+    return !!this.statements.isParticipant.get(chatId, userId);
+  }
+
+  getParticipantIds(chatId: string): string[] {
+    return this.statements.participantIds.all(chatId) as string[];
+  }
+
+  /** Every chat of the user, each with only its most recent page of messages. */
+  getChatsForUser(userId: string): Chat[] {
+    const rows = this.statements.chatsForUser.all(userId) as ChatRow[];
+    return rows.map(row => this.serializeChat(row, userId));
+  }
+
+  getChatForUser(chatId: string, userId: string): Chat | undefined {
+    const row = this.statements.chatForUser.get(userId, chatId) as ChatRow | undefined;
+    return row ? this.serializeChat(row, userId) : undefined;
+  }
+
+  /** Finds the existing 1-on-1 chat between two users or creates it. */
+  findOrCreateDirectChat(userId: string, otherUserId: string): string {
+    const existing = this.statements.findDirectChat.get(userId, otherUserId) as string | undefined;
+    if (existing) return existing;
+    return this.insertChat(generateId('chat'), undefined, false, [userId, otherUserId]);
+  }
+
+  createGroup(name: string, participantIds: string[]): string {
+    return this.insertChat(generateId('group'), name, true, Array.from(new Set(participantIds)));
+  }
+
+  private insertChat(id: string, name: string | undefined, isGroup: boolean, participantIds: string[]): string {
+    this.db.transaction(() => {
+      this.statements.insertChat.run(id, name ?? null, isGroup ? 1 : 0, new Date().toISOString());
+      for (const participantId of participantIds) {
+        this.statements.insertParticipant.run(id, participantId);
+      }
+    })();
+    return id;
+  }
+
+  // --- Messages ---
+
+  /**
+   * Appends a message to the chat, assigning a server ID and timestamp.
+   * Increments the unread count of every participant except the sender.
+   * Media messages reference a completed upload by `mediaId`, call messages their call by `callId`
+   * and screen_share messages the share by `screenShareId`. Replies reference the message they
+   * answer by `replyToId`. Messages sent by a client carry its `clientId`, see `findSentMessage`.
+   */
+  addMessage(
+    chatId: string,
+    senderId: string,
+    content: string,
+    type: Message['type'],
+    { mediaId, callId, screenShareId, replyToId, clientId }: { mediaId?: string; callId?: string; screenShareId?: string; replyToId?: string; clientId?: string } = {}
+  ): Message {
+    if (!this.hasChat(chatId)) throw new Error(`Chat ${chatId} not found`);
+    const row = {
+      id: generateId('msg'),
+      chat_id: chatId,
+      sender_id: senderId,
+      content,
+      type,
+      status: 'sent' as const,
+      timestamp: new Date().toISOString(),
+      media_id: mediaId ?? null,
+      call_id: callId ?? null,
+      screen_share_id: screenShareId ?? null,
+      edited_at: null,
+      deleted_at: null,
+      reply_to_id: replyToId ?? null,
+      client_id: clientId ?? null,
+    };
+    this.db.transaction(() => {
+      this.statements.insertMessage.run(row);
+      this.statements.incrementUnread.run(chatId, senderId);
+    })();
+    return this.serializeMessage(row);
+  }
+
+  /**
+   * Returns up to `limit` messages older than `beforeId` (or the latest ones when null),
+   * in chronological order, and whether even older messages exist. Messages `userId` deleted
+   * for themselves are skipped. Returns undefined if `beforeId` is not a message of the chat.
+   */
+  getMessagesPage(chatId: string, userId: string, beforeId: string | null, limit: number): { messages: Message[]; hasMore: boolean } | undefined {
+    const pageSize = Math.min(Math.max(limit, 1), MAX_PAGE_SIZE);
+    // One extra row is fetched to know whether another page exists
+    const params = { chatId, userId, limit: pageSize + 1 };
+    let rows: MessageRow[];
+    if (beforeId) {
+      const seq = this.statements.messageSeq.get(chatId, beforeId) as number | undefined;
+      if (seq === undefined) return undefined;
+      rows = this.statements.messagesBefore.all({ ...params, seq }) as MessageRow[];
+    } else {
+      rows = this.statements.latestMessages.all(params) as MessageRow[];
+    }
+    const hasMore = rows.length > pageSize;
+    return {
+      messages: rows.slice(0, pageSize).reverse().map(row => this.serializeMessage(row)),
+      hasMore,
+    };
+  }
+
+  /** The message the sender's client already sent with this ID, e.g. before retrying after a lost ack. */
+  findSentMessage(chatId: string, senderId: string, clientId: string): Message | undefined {
+    const row = this.statements.messageByClientId.get(senderId, clientId) as MessageRow | undefined;
+    return row && row.chat_id === chatId ? this.serializeMessage(row) : undefined;
+  }
+
+  getMessage(chatId: string, messageId: string): Message | undefined {
+    const row = this.statements.message.get(chatId, messageId) as MessageRow | undefined;
+    return row ? this.serializeMessage(row) : undefined;
+  }
+
+  /** Replaces the message's content, keeping the previous version as a revision. */
+  editMessage(chatId: string, messageId: string, content: string): Message | undefined {
+    return this.db.transaction(() => {
+      const row = this.statements.message.get(chatId, messageId) as MessageRow | undefined;
+      if (!row) return undefined;
+      const editedAt = new Date().toISOString();
+      this.statements.insertRevision.run(messageId, row.content, row.edited_at ?? row.timestamp);
+      this.statements.updateMessageContent.run(content, editedAt, messageId);
+      return this.serializeMessage({ ...row, content, edited_at: editedAt });
+    })();
+  }
+
+  /** Marks the message as changed for sync, e.g. once the preview of its link arrived. */
+  touchMessage(chatId: string, messageId: string) {
+    this.statements.touchMessage.run(chatId, messageId);
+  }
+
+  /** Earlier versions of the message, oldest first. */
+  getMessageRevisions(messageId: string): MessageRevision[] {
+    const rows = this.statements.revisions.all(messageId) as { content: string; created_at: string }[];
+    return rows.map(row => ({ content: row.content, createdAt: new Date(row.created_at) }));
+  }
+
+  /**
+   * Deletes the message for every participant, leaving a tombstone in its place. Its earlier
+   * versions and reactions go with it; returns the tombstone and the media it referenced, which may now be unused.
+   */
+  deleteMessageForEveryone(chatId: string, messageId: string): { message: Message; mediaId: string | null } | undefined {
+    return this.db.transaction(() => {
+      const row = this.statements.message.get(chatId, messageId) as MessageRow | undefined;
+      if (!row) return undefined;
+      if (row.deleted_at) return { message: this.serializeMessage(row), mediaId: null };
+      const deletedAt = new Date().toISOString();
+      this.statements.deleteRevisions.run(messageId);
+      this.statements.deleteReactions.run(messageId);
+      this.statements.tombstoneMessage.run(deletedAt, messageId);
+      return {
+        message: this.serializeMessage({ ...row, content: '', media_id: null, edited_at: null, deleted_at: deletedAt }),
+        mediaId: row.media_id,
+      };
+    })();
+  }
+
+  /** Deletes the message for the user only; it is left out of everything they load from now on. */
+  hideMessage(userId: string, messageId: string) {
+    this.statements.hideMessage.run(userId, messageId, new Date().toISOString());
+  }
+
+  /** Adds the user's reaction to the message, unless they already reacted with that emoji. */
+  addReaction(messageId: string, userId: string, emoji: string) {
+    this.statements.insertReaction.run(messageId, userId, emoji, new Date().toISOString());
+  }
+
+  removeReaction(messageId: string, userId: string, emoji: string) {
+    this.statements.deleteReaction.run(messageId, userId, emoji);
+  }
+
+  /** The message's reactions grouped by emoji, in the order each emoji was first used. */
+  getReactions(messageId: string): MessageReaction[] {
+    const rows = this.statements.reactions.all(messageId) as { emoji: string; user_id: string }[];
+    const byEmoji = new Map<string, string[]>();
+    for (const row of rows) {
+      const userIds = byEmoji.get(row.emoji) ?? [];
+      userIds.push(row.user_id);
+      byEmoji.set(row.emoji, userIds);
+    }
+    return Array.from(byEmoji, ([emoji, userIds]) => ({ emoji, userIds }));
+  }
+
+  // --- Sync ---
+
+  /**
+   * What the user missed in each of their chats since `since`, given the last message the client
+   * has of each chat (null when it has none). See `ChatChanges`.
+   */
+  getChangesForUser(userId: string, lastMessageIds: Record<string, string | null>, since: Date): ChatChanges[] {
+    const rows = this.statements.chatsForUser.all(userId) as ChatRow[];
+    return rows.map(row => this.getChatChanges(row, userId, lastMessageIds[row.id], since));
+  }
+
+  // The messages after the client's last one; the latest page instead if the chat is new to the
+  // client, that message is gone or more than a page changed
+  private getChatChanges(row: ChatRow, userId: string, lastMessageId: string | null | undefined, since: Date): ChatChanges {
+    const reset = (): ChatChanges => ({ chat: this.serializeChat(row, userId), isReset: true, updatedMessages: [], removedMessageIds: [] });
+    if (lastMessageId === undefined) return reset();
+    const seq = lastMessageId === null ? 0 : (this.statements.messageSeq.get(row.id, lastMessageId) as number | undefined);
+    if (seq === undefined) return reset();
+
+    const params = { chatId: row.id, userId, seq, since: since.toISOString(), limit: MAX_PAGE_SIZE + 1 };
+    const missed = this.statements.messagesAfter.all(params) as MessageRow[];
+    const updated = this.statements.messagesUpdated.all(params) as MessageRow[];
+    if (missed.length > MAX_PAGE_SIZE || updated.length > MAX_PAGE_SIZE) return reset();
+    return {
+      chat: this.serializeChat(row, userId, { messages: missed.map(message => this.serializeMessage(message)), hasMore: false }),
+      isReset: false,
+      updatedMessages: updated.map(message => this.serializeMessage(message)),
+      removedMessageIds: this.statements.hiddenSince.all(params) as string[],
+    };
+  }
+
+  // --- Receipts ---
+
+  /**
+   * Moves the user's delivered cursor in each of their chats up to its latest message, once they
+   * come online. Returns the messages whose status changed, so their senders can be notified.
+   */
+  markDeliveredFor(userId: string): MessageStatusChange[] {
+    return this.db.transaction(() => {
+      const chatIds = this.statements.chatIdsForUser.all(userId) as string[];
+      return chatIds.flatMap(chatId => {
+        const seq = this.statements.latestSeq.get(chatId) as number | null;
+        return seq === null ? [] : this.advanceCursor(chatId, userId, 'delivered', seq);
+      });
+    })();
+  }
+
+  /** Moves the delivered cursors of the recipients who got the message up to it. Returns the status changes. */
+  markDelivered(chatId: string, messageId: string, recipientIds: string[]): MessageStatusChange[] {
+    const seq = this.statements.messageSeq.get(chatId, messageId) as number | undefined;
+    if (seq === undefined) return [];
+    return this.db.transaction(() => recipientIds.flatMap(recipientId => this.advanceCursor(chatId, recipientId, 'delivered', seq)))();
+  }
+
+  /**
+   * Moves the user's read cursor in the chat up to the message, which also delivers everything
+   * before it, and recounts their unread messages. Returns the status changes.
+   */
+  markRead(chatId: string, userId: string, messageId: string): MessageStatusChange[] {
+    const seq = this.statements.messageSeq.get(chatId, messageId) as number | undefined;
+    if (seq === undefined) return [];
+    return this.db.transaction(() => {
+      const changes = [...this.advanceCursor(chatId, userId, 'delivered', seq), ...this.advanceCursor(chatId, userId, 'read', seq)];
+      this.statements.recountUnread.run(chatId, userId);
+      // A message can become delivered and then read; only its final status is of interest
+      return Array.from(new Map(changes.map(change => [change.messageId, change])).values());
+    })();
+  }
+
+  /** How far a message got with each of the other participants, or undefined if it doesn't exist. */
+  getReceipts(chatId: string, messageId: string): MessageReceipt[] | undefined {
+    const message = this.statements.message.get(chatId, messageId) as MessageRow | undefined;
+    if (!message) return undefined;
+    const rows = this.statements.receipts.all({ chatId, seq: message.seq, senderId: message.sender_id }) as ReceiptRow[];
+    return rows.map(row => ({
+      userId: row.user_id,
+      status: row.read ? 'read' : row.delivered ? 'delivered' : 'sent',
+      deliveredAt: row.delivered && row.delivered_at ? new Date(row.delivered_at) : undefined,
+      readAt: row.read && row.read_at ? new Date(row.read_at) : undefined,
+    }));
+  }
+
+  // Moves the user's cursor forward to `seq`, recording when, and updates the status of the
+  // messages it passed: delivered or read once every participant but their sender got that far.
+  private advanceCursor(chatId: string, userId: string, kind: 'delivered' | 'read', seq: number): MessageStatusChange[] {
+    const cursors = this.statements.cursors.all(chatId) as CursorRow[];
+    const cursor = cursors.find(c => c.user_id === userId);
+    const column = kind === 'read' ? 'read_seq' : 'delivered_seq';
+    if (!cursor || cursor[column] >= seq) return [];
+    const from = cursor[column];
+    cursor[column] = seq;
+    (kind === 'read' ? this.statements.setReadSeq : this.statements.setDeliveredSeq).run(seq, chatId, userId);
+    this.statements.insertReceiptEvent.run(chatId, userId, kind, seq, new Date().toISOString());
+
+    const passed = this.statements.messagesPassed.all({ chatId, userId, from, to: seq }) as Pick<MessageRow, 'id' | 'seq' | 'sender_id' | 'status'>[];
+    const changes: MessageStatusChange[] = [];
+    for (const message of passed) {
+      const others = cursors.filter(c => c.user_id !== message.sender_id);
+      const status: MessageStatus = others.every(c => c.read_seq >= message.seq)
+        ? 'read'
+        : others.every(c => c.delivered_seq >= message.seq) ? 'delivered' : 'sent';
+      if (status === message.status) continue;
+      this.statements.setStatus.run(status, message.id);
+      changes.push({ chatId, messageId: message.id, senderId: message.sender_id, status });
+    }
+    return changes;
+  }
+
+  // --- Calls ---
+
+  /** Starts a call's history entry, with the initiator as its first participant. */
+  createCall(chatId: string, type: Call['type'], initiatorId: string): Call {
+    const row: CallRow = {
+      id: generateId('call'),
+      chat_id: chatId,
+      type,
+      initiator_id: initiatorId,
+      started_at: new Date().toISOString(),
+      answered_at: null,
+      ended_at: null,
+      outcome: null,
+    };
+    this.db.transaction(() => {
+      this.statements.insertCall.run(row);
+      this.statements.insertCallParticipant.run(row.id, initiatorId);
+    })();
+    return this.serializeCall(row);
+  }
+
+  addCallParticipant(callId: string, userId: string) {
+    this.db.transaction(() => {
+      this.statements.insertCallParticipant.run(callId, userId);
+      this.statements.markCallAnswered.run(new Date().toISOString(), callId, userId);
+    })();
+  }
+
+  finishCall(callId: string, outcome: CallOutcome): Call | undefined {
+    this.statements.finishCall.run(new Date().toISOString(), outcome, callId);
+    return this.getCall(callId);
+  }
+
+  getCall(callId: string): Call | undefined {
+    const row = this.statements.call.get(callId) as CallRow | undefined;
+    return row ? this.serializeCall(row) : undefined;
+  }
+
+  /** The most recent calls across the user's chats, newest first. */
+  getRecentCalls(userId: string, limit = RECENT_CALLS_LIMIT): Call[] {
+    const rows = this.statements.recentCalls.all(userId, limit) as CallRow[];
+    return rows.map(row => this.serializeCall(row));
+  }
+
+  /** Records a screen share of the call that just stopped. */
+  addScreenShare(callId: string, userId: string, startedAt: Date): ScreenShare {
+    const row: ScreenShareRow = {
+      id: generateId('share'),
+      call_id: callId,
+      user_id: userId,
+      started_at: startedAt.toISOString(),
+      ended_at: new Date().toISOString(),
+    };
+    this.statements.insertScreenShare.run(row);
+    return this.serializeScreenShare(row);
+  }
+
+  getScreenShare(screenShareId: string): ScreenShare | undefined {
+    const row = this.statements.screenShare.get(screenShareId) as ScreenShareRow | undefined;
+    return row ? this.serializeScreenShare(row) : undefined;
+  }
+
+  // --- Serialization ---
+
+  private resolveUser(userId: string): User {
+    const user = this.users.get(userId);
+    if (user) return { ...user };
+    // Fall back to a placeholder so the client never receives a null sender.
+    return { id: userId, name: 'Unknown User', presence: 'offline' };
+  }
+
+  private serializeMessage(row: Omit<MessageRow, 'seq'>): Message {
+    return {
+      id: row.id,
+      sender: this.resolveUser(row.sender_id),
+      content: row.content,
+      timestamp: new Date(row.timestamp),
+      editedAt: row.edited_at ? new Date(row.edited_at) : undefined,
+      deletedAt: row.deleted_at ? new Date(row.deleted_at) : undefined,
+      type: row.type,
+      status: row.status,
+      media: row.media_id ? this.media.getMedia(row.media_id) : undefined,
+      call: row.call_id ? this.getCall(row.call_id) : undefined,
+      screenShare: row.screen_share_id ? this.getScreenShare(row.screen_share_id) : undefined,
+      replyTo: row.reply_to_id ? this.getQuotedMessage(row.reply_to_id) : undefined,
+      reactions: this.serializeReactions(row.id),
+      linkPreview: row.type === 'text' ? this.getLinkPreview(row.content) : undefined,
+    };
+  }
+
+  // The cached preview of the message's first link; it is fetched after the message is sent
+  private getLinkPreview(content: string): LinkPreview | undefined {
+    const url = getFirstLinkUrl(content);
+    return url ? this.linkPreviews.get(url) : undefined;
+  }
+
+  // Left out when empty, as it is for most messages
+  private serializeReactions(messageId: string): MessageReaction[] | undefined {
+    const reactions = this.getReactions(messageId);
+    return reactions.length > 0 ? reactions : undefined;
+  }
+
+  private getQuotedMessage(messageId: string): QuotedMessage | undefined {
+    const row = this.statements.quotedMessage.get(messageId) as
+      | Pick<MessageRow, 'id' | 'sender_id' | 'type' | 'content' | 'deleted_at'>
+      | undefined;
+    if (!row) return undefined;
+    return {
+      id: row.id,
+      sender: this.resolveUser(row.sender_id),
+      type: row.type,
+      // Media messages carry their URL as content, which a quote has no use for
+      content: row.type === 'text' ? row.content : '',
+      deletedAt: row.deleted_at ? new Date(row.deleted_at) : undefined,
+    };
+  }
+
+  private serializeScreenShare(row: ScreenShareRow): ScreenShare {
+    return {
+      id: row.id,
+      callId: row.call_id,
+      userId: row.user_id,
+      startedAt: new Date(row.started_at),
+      endedAt: new Date(row.ended_at),
+    };
+  }
+
+  private serializeCall(row: CallRow): Call {
+    return {
+      id: row.id,
+      chatId: row.chat_id,
+      type: row.type,
+      initiatorId: row.initiator_id,
+      participantIds: this.statements.callParticipantIds.all(row.id) as string[],
+      startedAt: new Date(row.started_at),
+      answeredAt: row.answered_at ? new Date(row.answered_at) : undefined,
+      endedAt: row.ended_at ? new Date(row.ended_at) : undefined,
+      outcome: row.outcome ?? undefined,
+    };
+  }
+
+  private serializeChat(row: ChatRow, userId: string, page = this.getMessagesPage(row.id, userId, null, INITIAL_PAGE_SIZE)!): Chat {
+    const { messages, hasMore } = page;
+    return {
+      id: row.id,
+      name: row.name ?? undefined,
+      isGroup: row.is_group === 1,
+      participants: this.getParticipantIds(row.id).map(id => this.resolveUser(id)),
+      messages,
+      hasMoreMessages: hasMore,
+      lastMessage: messages[messages.length - 1],
+      unreadCount: row.unread_count,
+    };
+  }
+}
@@ -0,0 +1,140 @@
+import { createServer, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { unfurl, UnfurlError, type Fetcher } from './unfurl';
+
+// A local HTTP stub: each test sets how it answers, by path
+type Page = (res: ServerResponse) => void;
+let pages: Record<string, Page> = {};
+const requested: string[] = [];
+let server: Server;
+let origin: string;
+
+const html = (body: string, contentType = 'text/html; charset=utf-8'): Page => res => {
+  res.writeHead(200, { 'Content-Type': contentType });
+  res.end(body);
+};
+const redirect = (location: string): Page => res => {
+  res.writeHead(302, { Location: location });
+  res.end();
+};
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    requested.push(req.url ?? '');
+    const page = pages[req.url ?? ''];
+    if (page) page(res);
+    else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+afterEach(() => {
+  pages = {};
+  requested.length = 0;
+  vi.restoreAllMocks();
+});
+
+// The stub is on loopback, which only tests may allow
+const local = { allowPrivateAddresses: true };
+
+describe('unfurl', () => {
+  it('reads the OpenGraph tags', async () => {
+    pages['/article'] = html(`<html><head>
+      <title>Fallback title</title>
+      <meta property="og:title" content="Tom &amp; Jerry&#39;s   big day">
+      <meta property="og:description" content='A "cat" and a mouse'>
+      <meta property="og:image" content="/images/cover.png">
+      <meta property="og:site_name" content="Cartoons">
+    </head><body><meta property="og:title" content="Not in the head"></body></html>`);
+    expect(await unfurl(`${origin}/article`, local)).toEqual({
+      url: `${origin}/article`,
+      title: "Tom & Jerry's big day",
+      description: 'A "cat" and a mouse',
+      imageUrl: `${origin}/images/cover.png`,
+      siteName: 'Cartoons',
+    });
+  });
+
+  it('falls back on the Twitter card tags and the <title>', async () => {
+    pages['/card'] = html('<head><title>The title</title><meta name="twitter:description" content="From the card"></head>');
+    expect(await unfurl(`${origin}/card`, local)).toMatchObject({ title: 'The title', description: 'From the card' });
+  });
+
+  it('fills in what the tags leave out from the oEmbed endpoint', async () => {
+    pages['/video'] = html(`<head><link rel="alternate" type="application/json+oembed" href="/oembed?url=video"></head>`);
+    pages['/oembed?url=video'] = html(
+      JSON.stringify({ title: 'A video', author_name: 'Someone', thumbnail_url: `${origin}/thumb.jpg`, provider_name: 'Tube' }),
+      'application/json'
+    );
+    expect(await unfurl(`${origin}/video`, local)).toEqual({
+      url: `${origin}/video`,
+      title: 'A video',
+      description: 'Someone',
+      imageUrl: `${origin}/thumb.jpg`,
+      siteName: 'Tube',
+    });
+  });
+
+  it('still shows the page when its oEmbed endpoint fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    pages['/page'] = html('<head><title>Page</title><link rel="alternate" type="application/json+oembed" href="/missing"></head>');
+    expect(await unfurl(`${origin}/page`, local)).toMatchObject({ title: 'Page' });
+  });
+
+  it('resolves to null for pages without a title, and for other content types', async () => {
+    pages['/untitled'] = html('<head><meta name="description" content="No title"></head>');
+    pages['/file'] = html('%PDF-1.7', 'application/pdf');
+    expect(await unfurl(`${origin}/untitled`, local)).toBeNull();
+    expect(await unfurl(`${origin}/file`, local)).toBeNull();
+  });
+
+  it('follows up to 5 redirects', async () => {
+    for (let hop = 0; hop < 5; hop++) pages[`/hop${hop}`] = redirect(`/hop${hop + 1}`);
+    pages['/hop5'] = html('<title>Arrived</title>');
+    expect(await unfurl(`${origin}/hop0`, local)).toMatchObject({ url: `${origin}/hop0`, title: 'Arrived' });
+
+    pages['/hop5'] = redirect('/hop6');
+    await expect(unfurl(`${origin}/hop0`, local)).rejects.toThrow(/Too many redirects/);
+  });
+
+  it('rejects pages that answer with an error', async () => {
+    await expect(unfurl(`${origin}/missing`, local)).rejects.toThrow(/answered 404/);
+  });
+
+  it('refuses private addresses written in the URL', async () => {
+    await expect(unfurl(`${origin}/article`)).rejects.toBeInstanceOf(UnfurlError);
+    await expect(unfurl('http://[::1]/')).rejects.toBeInstanceOf(UnfurlError);
+    await expect(unfurl('http://10.1.2.3/')).rejects.toBeInstanceOf(UnfurlError);
+    await expect(unfurl('http://[::ffff:127.0.0.1]/')).rejects.toBeInstanceOf(UnfurlError);
+    expect(requested).toEqual([]);
+  });
+
+  it('refuses host names that resolve to private addresses, without connecting', async () => {
+    pages['/article'] = html('<title>Secret</title>');
+    const port = (server.address() as AddressInfo).port;
+    await expect(unfurl(`http://localhost:${port}/article`)).rejects.toThrow(/not a public address/);
+    expect(requested).toEqual([]);
+  });
+
+  it('fetches public addresses', async () => {
+    const fetch = vi.fn<Fetcher>(async () => new Response('<title>Public</title>', { headers: { 'Content-Type': 'text/html' } }));
+    expect(await unfurl('http://93.184.215.14/', { fetch })).toMatchObject({ title: 'Public' });
+  });
+
+  it('checks every redirect, not only the first URL', async () => {
+    const fetch = vi.fn<Fetcher>(async () => new Response(null, { status: 302, headers: { Location: 'http://192.168.1.1/admin' } }));
+    await expect(unfurl('http://93.184.215.14/', { fetch })).rejects.toThrow(/192\.168\.1\.1 is not a public address/);
+    expect(fetch).toHaveBeenCalledOnce();
+  });
+
+  it('only previews http and https links', async () => {
+    await expect(unfurl('ftp://example.com/file', local)).rejects.toThrow(/Only http and https/);
+  });
+});
@@ -0,0 +1,280 @@
+import { lookup, type LookupAddress } from 'node:dns';
+import { request as requestHttp } from 'node:http';
+import { request as requestHttps } from 'node:https';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+import { Readable } from 'node:stream';
+import type { LinkPreview } from '@/types';
+
+/** Makes the HTTP requests, without following redirects. */
+export type Fetcher = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface UnfurlOptions {
+  // Replaces the built-in client, e.g. with a stub in tests. Only addresses written in the URL are checked then,
+  // since host names are checked as the built-in client resolves them.
+  fetch?: Fetcher;
+  timeoutMs?: number; // For the whole preview, redirects and oEmbed included
+  maxBytes?: number; // Of each page read; the metadata is in the <head>, near the start
+  allowPrivateAddresses?: boolean; // Lets tests point at a local stub; never set it in production
+}
+
+type UnfurlSettings = Required<UnfurlOptions>;
+
+const DEFAULTS: Omit<UnfurlSettings, 'fetch'> = {
+  timeoutMs: 5000,
+  maxBytes: 512 * 1024,
+  allowPrivateAddresses: false,
+};
+
+const MAX_REDIRECTS = 5;
+const USER_AGENT = 'ChatterBoxBot/1.0 (link previews)';
+// Longer metadata is cut, since the card only has room for a few lines
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 400;
+
+// Loopback, private, link-local and other addresses that aren't on the public internet. Fetching
+// them would let anyone who can send a message probe the server's own network.
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  // IPv4-mapped addresses (::ffff:0:0/96) need no rule: BlockList checks them against the IPv4 rules,
+  // and a rule for them would match every IPv4 address
+  ['::', 127], // Unspecified and loopback
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export class UnfurlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnfurlError';
+  }
+}
+
+const isPrivateAddress = ({ address, family }: LookupAddress) => PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+
+// Addresses written in the URL are connected to without a lookup, so they're checked here
+function assertPublicLiteral(url: URL) {
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const family = isIP(host);
+  if (family && isPrivateAddress({ address: host, family })) throw new UnfurlError(`${host} is not a public address.`);
+}
+
+// Resolves host names like the default lookup, but refuses private addresses. The connection is made
+// to the addresses checked here, so the name can't be resolved again to a private one in between
+// (DNS rebinding).
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '');
+    if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+      return callback(new UnfurlError(`${hostname} is not a public address.`) as NodeJS.ErrnoException, '');
+    }
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// Statuses whose responses have no body, which `Response` refuses to be given one
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/** The built-in client, on node:http so that it can connect through `publicLookup`. */
+function createFetcher(allowPrivateAddresses: boolean): Fetcher {
+  return (url, init) =>
+    new Promise((resolve, reject) => {
+      const target = new URL(url);
+      const request = (target.protocol === 'https:' ? requestHttps : requestHttp)(
+        target,
+        {
+          headers: Object.fromEntries(new Headers(init.headers)),
+          signal: init.signal ?? undefined,
+          lookup: allowPrivateAddresses ? undefined : publicLookup,
+        },
+        res => {
+          const headers = new Headers();
+          for (const [name, value] of Object.entries(res.headers)) {
+            for (const item of [value ?? []].flat()) headers.append(name, item);
+          }
+          const status = res.statusCode ?? 500;
+          if (NULL_BODY_STATUSES.has(status)) res.resume();
+          const body = NULL_BODY_STATUSES.has(status) ? null : (Readable.toWeb(res) as ReadableStream<Uint8Array>);
+          resolve(new Response(body, { status, statusText: res.statusMessage, headers }));
+        }
+      );
+      request.on('error', reject);
+      request.end();
+    });
+}
+
+/** GETs the URL, following redirects itself so every hop is checked to be public. */
+async function get(url: URL, accept: string, signal: AbortSignal, options: UnfurlSettings): Promise<{ response: Response; url: URL }> {
+  for (let redirects = 0; ; redirects++) {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new UnfurlError(`Only http and https links can be previewed, not ${url.protocol}.`);
+    if (!options.allowPrivateAddresses) assertPublicLiteral(url);
+    const response = await options.fetch(url.href, { redirect: 'manual', signal, headers: { Accept: accept, 'User-Agent': USER_AGENT } });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      if (!response.ok) throw new UnfurlError(`${url.href} answered ${response.status}.`);
+      return { response, url };
+    }
+    await response.body?.cancel();
+    if (redirects === MAX_REDIRECTS) throw new UnfurlError(`Too many redirects from ${url.href}.`);
+    url = new URL(location, url);
+  }
+}
+
+/** Reads at most `maxBytes` of the body, in the charset the response declares. */
+async function readText(response: Response, maxBytes: number): Promise<string> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body?.getReader();
+  while (reader && size < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.length;
+  }
+  await reader?.cancel();
+  const charset = /charset=([^;]+)/i.exec(response.headers.get('content-type') ?? '')?.[1].trim();
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(charset || 'utf-8');
+  } catch {
+    decoder = new TextDecoder('utf-8');
+  }
+  return decoder.decode(Buffer.concat(chunks).subarray(0, maxBytes));
+}
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] !== '#') return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+    const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4]);
+  }
+  return attributes;
+}
+
+interface PageMetadata {
+  meta: Map<string, string>; // First value of each <meta> property or name, lowercased
+  title?: string; // Of the <title> element
+  oEmbedUrl?: string;
+}
+
+/** Picks the metadata out of the page's <head>. HTML isn't parsed further than that. */
+function parseHead(html: string): PageMetadata {
+  const headEnd = html.search(/<\/head\s*>|<body[\s>]/i);
+  const head = headEnd === -1 ? html : html.slice(0, headEnd);
+  const meta = new Map<string, string>();
+  let oEmbedUrl: string | undefined;
+  for (const [, tag, source] of head.matchAll(/<(meta|link)\b([^>]*)>/gi)) {
+    const attributes = parseAttributes(source);
+    if (tag.toLowerCase() === 'meta') {
+      const key = (attributes.property ?? attributes.name)?.toLowerCase();
+      if (key && attributes.content && !meta.has(key)) meta.set(key, attributes.content);
+    } else if (attributes.rel?.toLowerCase() === 'alternate' && attributes.type?.toLowerCase() === 'application/json+oembed') {
+      oEmbedUrl ??= attributes.href;
+    }
+  }
+  const title = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(head)?.[1];
+  return { meta, title: title ? decodeEntities(title) : undefined, oEmbedUrl };
+}
+
+const clean = (text: string | undefined, maxLength: number) => {
+  const collapsed = text?.replace(/\s+/g, ' ').trim();
+  if (!collapsed) return undefined;
+  return collapsed.length > maxLength ? `${collapsed.slice(0, maxLength - 1).trimEnd()}…` : collapsed;
+};
+
+// Only absolute http(s) URLs are handed to clients
+const resolveUrl = (url: string | undefined, base: URL) => {
+  if (!url) return undefined;
+  try {
+    const resolved = new URL(url, base);
+    return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.href : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Fetches the page and builds its preview from the OpenGraph and Twitter card tags, falling back
+ * on the page's oEmbed endpoint and its <title>. Resolves to null when the page has no title to
+ * show, and rejects when it can't be fetched.
+ */
+export async function unfurl(url: string, options: UnfurlOptions = {}): Promise<LinkPreview | null> {
+  const base = { ...DEFAULTS, ...options };
+  const settings: UnfurlSettings = { ...base, fetch: options.fetch ?? createFetcher(base.allowPrivateAddresses) };
+  const signal = AbortSignal.timeout(settings.timeoutMs);
+  const page = await get(new URL(url), 'text/html,application/xhtml+xml', signal, settings);
+  const contentType = page.response.headers.get('content-type') ?? '';
+  if (!/^(text\/html|application\/xhtml\+xml)/i.test(contentType)) {
+    await page.response.body?.cancel();
+    return null;
+  }
+  const { meta, title, oEmbedUrl } = parseHead(await readText(page.response, settings.maxBytes));
+
+  let preview = {
+    title: meta.get('og:title') ?? meta.get('twitter:title'),
+    description: meta.get('og:description') ?? meta.get('twitter:description') ?? meta.get('description'),
+    imageUrl: meta.get('og:image') ?? meta.get('og:image:url') ?? meta.get('twitter:image') ?? meta.get('twitter:image:src'),
+    siteName: meta.get('og:site_name') ?? meta.get('application-name'),
+  };
+
+  // oEmbed fills in what the tags leave out, e.g. for video sites that only describe themselves there
+  const oEmbedTarget = resolveUrl(oEmbedUrl, page.url);
+  if (oEmbedTarget && (!preview.title || !preview.imageUrl)) {
+    try {
+      const { response } = await get(new URL(oEmbedTarget), 'application/json', signal, settings);
+      const oEmbed: unknown = JSON.parse(await readText(response, settings.maxBytes));
+      if (oEmbed && typeof oEmbed === 'object') {
+        const field = (key: string) => {
+          const value = (oEmbed as Record<string, unknown>)[key];
+          return typeof value === 'string' ? value : undefined;
+        };
+        preview = {
+          title: preview.title ?? field('title'),
+          description: preview.description ?? field('author_name'),
+          imageUrl: preview.imageUrl ?? field('thumbnail_url'),
+          siteName: preview.siteName ?? field('provider_name'),
+        };
+      }
+    } catch (error) {
+      // The page's own tags are still worth showing
+      console.warn(`Could not read the oEmbed data of ${url}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  const previewTitle = clean(preview.title ?? title, MAX_TITLE_LENGTH);
+  if (!previewTitle) return null;
+  return {
+    url,
+    title: previewTitle,
+    description: clean(preview.description, MAX_DESCRIPTION_LENGTH),
+    imageUrl: resolveUrl(preview.imageUrl, page.url),
+    siteName: clean(preview.siteName, MAX_TITLE_LENGTH),
+  };
+}
@@ -0,0 +1,65 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import ffprobeInstaller from '@ffprobe-installer/ffprobe';
+
+const execFileAsync = promisify(execFile);
+
+// Binaries bundled through npm for the current platform; override to use system ones.
+const FFMPEG_PATH = process.env.FFMPEG_PATH || ffmpegInstaller.path;
+const FFPROBE_PATH = process.env.FFPROBE_PATH || ffprobeInstaller.path;
+
+// Generous enough for large files on a slow disk, while a corrupt file can't hang an upload forever.
+const PROCESS_TIMEOUT_MS = 60_000;
+const POSTER_MAX_WIDTH = 640;
+
+export interface VideoInfo {
+  durationMs: number;
+  width: number;
+  height: number;
+}
+
+interface ProbeOutput {
+  streams?: { codec_type?: string; width?: number; height?: number; duration?: string; tags?: { rotate?: string }; side_data_list?: { rotation?: number }[] }[];
+  format?: { duration?: string };
+}
+
+/** Reads duration and display size of a video; rejects if the file has no video stream. */
+export async function probeVideo(filePath: string): Promise<VideoInfo> {
+  const { stdout } = await execFileAsync(
+    FFPROBE_PATH,
+    ['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', filePath],
+    { timeout: PROCESS_TIMEOUT_MS, maxBuffer: 4 * 1024 * 1024 }
+  );
+  const output = JSON.parse(stdout) as ProbeOutput;
+  const stream = output.streams?.find(s => s.codec_type === 'video');
+  if (!stream?.width || !stream.height) throw new Error('No video stream found');
+
+  const duration = Number(output.format?.duration ?? stream.duration);
+  // Phone videos are often stored sideways with a rotation flag; report the size as displayed
+  const rotation = Math.abs(Number(stream.side_data_list?.find(d => d.rotation !== undefined)?.rotation ?? stream.tags?.rotate ?? 0));
+  const sideways = rotation === 90 || rotation === 270;
+  return {
+    durationMs: Number.isFinite(duration) ? Math.round(duration * 1000) : 0,
+    width: sideways ? stream.height : stream.width,
+    height: sideways ? stream.width : stream.height,
+  };
+}
+
+/** Writes a JPEG poster frame taken `atMs` into the video, scaled down to at most 640px wide. */
+export async function extractPosterFrame(filePath: string, outputPath: string, atMs: number): Promise<void> {
+  await execFileAsync(
+    FFMPEG_PATH,
+    [
+      '-v', 'error',
+      '-ss', (atMs / 1000).toFixed(3), // Seeking before the input is fast and accurate enough for a poster
+      '-i', filePath,
+      '-frames:v', '1',
+      '-vf', `scale='min(${POSTER_MAX_WIDTH},iw)':-2`,
+      '-q:v', '4',
+      '-f', 'image2',
+      '-y', outputPath,
+    ],
+    { timeout: PROCESS_TIMEOUT_MS }
+  );
+}
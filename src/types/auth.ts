@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { userSchema } from './socket';
+
+// Request/response contract for the HTTP auth endpoints served by src/server.
+// Sessions are bearer tokens; the socket sends the same token in its handshake `auth`.
+
+export const credentialsSchema = z.object({
+  username: z
+    .string()
+    .trim()
+    .min(2, 'Username must be at least 2 characters.')
+    .max(32, 'Username must be at most 32 characters.')
+    .regex(/^[\p{L}\p{N} _.-]+$/u, 'Username may only contain letters, numbers, spaces, dots, dashes and underscores.'),
+  password: z
+    .string()
+    .min(8, 'Password must be at least 8 characters.')
+    .max(200, 'Password is too long.'),
+});
+
+export const authSessionSchema = z.object({
+  token: z.string().min(1),
+  user: userSchema,
+  expiresAt: z.string().datetime({ offset: true }),
+});
+
+export const authErrorSchema = z.object({
+  error: z.string(),
+});
+
+export type Credentials = z.infer<typeof credentialsSchema>;
+export type AuthSession = z.infer<typeof authSessionSchema>;
+
+// Shape of `socket.handshake.auth` sent by the client.
+export interface SocketAuth {
+  token: string;
+}
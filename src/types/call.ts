@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import type { CallOutcome } from './index';
+
+// Call signaling contract, carried over the chat socket (see the call events in ./socket).
+// Media flows peer-to-peer over WebRTC; the server only relays the session descriptions
+// and ICE candidates each peer needs to reach the other, and records the call in the chat.
+
+// Calls are a full mesh (every participant streams to every other), which only scales to small groups
+export const MAX_CALL_PARTICIPANTS = 8;
+
+export const callTypeSchema = z.enum(['audio', 'video']);
+
+// How a call went, as kept in the history once it ends
+export const callOutcomeSchema = z.enum(['completed', 'missed', 'declined', 'cancelled']) satisfies z.ZodType<CallOutcome>;
+
+export const callInfoSchema = z.object({
+  id: z.string().min(1),
+  chatId: z.string().min(1),
+  type: callTypeSchema,
+  callerId: z.string().min(1),
+  isGroup: z.boolean(),
+  participantIds: z.array(z.string()), // Everyone in the chat, caller included
+  joinedIds: z.array(z.string()), // In the call right now
+  ringingIds: z.array(z.string()), // Being rung; group members can also join without being rung
+  // Who is presenting, and which of the streams they send is their screen
+  screenShare: z.object({ userId: z.string(), streamId: z.string() }).optional(),
+});
+
+// WebRTC session descriptions and ICE candidates, in the shape their browser objects serialize to
+export const callSignalSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('offer'), sdp: z.string() }),
+  z.object({ type: z.literal('answer'), sdp: z.string() }),
+  z.object({
+    type: z.literal('candidate'),
+    candidate: z.string(),
+    sdpMid: z.string().nullable(),
+    sdpMLineIndex: z.number().int().nonnegative().nullable(),
+  }),
+]);
+
+export const callEndReasonSchema = z.enum([
+  'hangup', // Someone left a connected call
+  'declined',
+  'missed', // Nobody answered in time
+  'cancelled', // The caller gave up while it was ringing
+]);
+
+// What a participant is currently sending, so the others can show a muted or camera-off state
+export const callMediaStateSchema = z.object({
+  audio: z.boolean(),
+  video: z.boolean(),
+});
+
+export const startCallAckSchema = z.object({
+  success: z.boolean(),
+  call: callInfoSchema.optional(),
+  error: z.string().optional(),
+});
+
+export const callAckSchema = z.object({
+  success: z.boolean(),
+  error: z.string().optional(),
+});
+
+export type CallType = z.infer<typeof callTypeSchema>;
+export type CallInfo = z.infer<typeof callInfoSchema>;
+export type CallSignal = z.infer<typeof callSignalSchema>;
+export type CallEndReason = z.infer<typeof callEndReasonSchema>;
+export type CallMediaState = z.infer<typeof callMediaStateSchema>;
+export type StartCallAck = z.infer<typeof startCallAckSchema>;
+export type CallAck = z.infer<typeof callAckSchema>;
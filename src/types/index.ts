@@ -3,26 +3,126 @@ export interface User {
   id: string;
   name: string;
   avatarUrl?: string;
-  isOnline: boolean;
+  presence: Presence;
+  lastSeen?: Date; // When the user was last active, shown while they are away or offline
 }
 
-export type MessageType = 'text' | 'image' | 'video' | 'call_start' | 'call_end';
+// Away: connected, but idle in every tab
+export type Presence = 'online' | 'away' | 'offline';
+
+// A file in the server's media store, attached to image and video messages.
+export interface MediaRef {
+  id: string;
+  mimeType: string;
+  size: number; // Bytes
+  width?: number; // Pixels, when known
+  height?: number;
+  url: string;
+  durationMs?: number; // Videos only
+  posterUrl?: string; // Videos only: a still frame to show before playback
+  blurhash?: string; // Images only: decodes to a blurred placeholder shown while loading
+  thumbnails?: MediaThumbnail[]; // Images only: smaller WebP renditions, narrowest first
+}
+
+export interface MediaThumbnail {
+  width: number;
+  height: number;
+  url: string;
+}
+
+export type MessageType = 'text' | 'image' | 'video' | 'call' | 'screen_share';
+
+export type CallOutcome = 'completed' | 'missed' | 'declined' | 'cancelled';
+
+// A call placed in a chat, as kept in the call history.
+export interface Call {
+  id: string;
+  chatId: string;
+  type: 'audio' | 'video';
+  initiatorId: string;
+  participantIds: string[]; // Who took part, initiator first; everyone else in the chat was invited
+  startedAt: Date; // When it started ringing
+  answeredAt?: Date; // When someone first joined the initiator
+  endedAt?: Date; // Unset while the call is going on
+  outcome?: CallOutcome; // Unset while the call is going on
+}
+
+// A stretch of a call during which one participant shared their screen.
+export interface ScreenShare {
+  id: string;
+  callId: string;
+  userId: string; // Who shared
+  startedAt: Date;
+  endedAt: Date;
+}
 
 export interface Message {
   id: string; // Can be temporary on client, confirmed by server
   sender: User;
-  content: string; // URL for media, text content for text, duration/type for calls
+  content: string; // URL for media, text content for text, empty for calls and deleted messages
+  media?: MediaRef; // Set for image and video messages
+  call?: Call; // Set for call messages, which are added once the call ends
+  screenShare?: ScreenShare; // Set for screen_share messages, which are added once the sharing stops
   timestamp: Date;
+  editedAt?: Date; // Set once the sender has changed the content; earlier versions are kept as revisions
+  deletedAt?: Date; // Set once the sender deleted it for everyone; only this tombstone remains
+  replyTo?: QuotedMessage; // Set for replies: the message being answered
+  reactions?: MessageReaction[]; // In the order each emoji was first used; unset when there are none
+  linkPreview?: LinkPreview; // Text messages only: the first link, once the server has fetched its page
   type: MessageType;
-  status?: 'sent' | 'delivered' | 'read'; // Optional message status
+  status?: MessageStatus; // For its sender: delivered or read once every other participant has received or read it
   error?: string; // Optional: Error message if sending failed
+  uploadProgress?: number; // Client-only: 0-100 while the attached media is uploading
+}
+
+// What the server found out about a linked page from its OpenGraph or oEmbed metadata.
+export interface LinkPreview {
+  url: string; // The link as written in the message
+  title: string;
+  description?: string;
+  imageUrl?: string;
+  siteName?: string;
+}
+
+// The message a reply answers, as quoted inside the reply. It is resolved whenever the reply is
+// loaded, so it reflects later edits and the deletion of the original.
+export interface QuotedMessage {
+  id: string;
+  sender: User;
+  type: MessageType;
+  content: string; // Text messages only; empty for media, calls and deleted messages
+  deletedAt?: Date;
+}
+
+// Everyone who reacted to a message with one emoji.
+export interface MessageReaction {
+  emoji: string;
+  userIds: string[]; // In the order they reacted
+}
+
+export type MessageStatus = 'sent' | 'delivered' | 'read';
+
+// How far a message got with one of the other participants. The times are unknown for messages
+// delivered or read before receipts were recorded.
+export interface MessageReceipt {
+  userId: string;
+  status: MessageStatus;
+  deliveredAt?: Date;
+  readAt?: Date;
+}
+
+// An earlier version of an edited message.
+export interface MessageRevision {
+  content: string;
+  createdAt: Date; // When this version was sent, or written by an earlier edit
 }
 
 export interface Chat {
   id: string;
   name?: string; // Optional: Name for group chats
   participants: User[];
-  messages: Message[];
+  messages: Message[]; // Loaded messages only, oldest first
+  hasMoreMessages?: boolean; // Whether older messages can be fetched with load_messages
   lastMessage?: Message; // For display in chat list
   unreadCount?: number;
   isGroup: boolean; // Explicitly indicate if it's a group chat
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { mediaRefSchema } from './socket';
+
+// Request/response contract for the HTTP media upload endpoints served by src/server.
+// A file is uploaded in chunks: POST creates an upload, each PUT appends the next chunk
+// (with a `Content-Range` header) and GET reports how much the server has, so an
+// interrupted upload can resume where it stopped.
+
+export const MAX_UPLOAD_BYTES = 200 * 1024 * 1024;
+export const UPLOAD_CHUNK_BYTES = 1024 * 1024;
+
+// Only types browsers can display inline; anything else could be served back as active content.
+export const ALLOWED_MEDIA_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'video/mp4',
+  'video/webm',
+  'video/quicktime',
+] as const;
+
+export const createUploadSchema = z.object({
+  fileName: z.string().trim().min(1).max(255),
+  mimeType: z.enum(ALLOWED_MEDIA_TYPES, {
+    errorMap: () => ({ message: 'Only JPEG, PNG, GIF and WebP images and MP4, WebM and QuickTime videos are supported.' }),
+  }),
+  size: z
+    .number()
+    .int()
+    .positive('The file is empty.')
+    .max(MAX_UPLOAD_BYTES, `Files can be at most ${MAX_UPLOAD_BYTES / 1024 / 1024} MB.`),
+  width: z.number().int().positive().optional(),
+  height: z.number().int().positive().optional(),
+});
+
+export const uploadStatusSchema = z.object({
+  uploadId: z.string().min(1),
+  size: z.number().int().nonnegative(),
+  received: z.number().int().nonnegative(), // Bytes stored so far; the next chunk must start here
+  chunkSize: z.number().int().positive(),
+  media: mediaRefSchema.optional(), // Set once every byte has been received
+});
+
+export type CreateUpload = z.infer<typeof createUploadSchema>;
+export type UploadStatus = z.infer<typeof uploadStatusSchema>;
+export type AllowedMediaType = (typeof ALLOWED_MEDIA_TYPES)[number];
+
+export const isAllowedMediaType = (type: string): type is AllowedMediaType =>
+  (ALLOWED_MEDIA_TYPES as readonly string[]).includes(type);
@@ -0,0 +1,443 @@
+import { z } from 'zod';
+import type { User, Presence, Chat, Message, MessageType, MessageStatus, MessageReceipt, MessageRevision, MessageReaction, MediaRef, Call, ScreenShare, QuotedMessage, LinkPreview } from './index';
+import {
+  callEndReasonSchema,
+  callOutcomeSchema,
+  callInfoSchema,
+  callMediaStateSchema,
+  callSignalSchema,
+  callTypeSchema,
+  type CallAck,
+  type CallEndReason,
+  type CallInfo,
+  type CallMediaState,
+  type CallSignal,
+  type CallType,
+  type StartCallAck,
+} from './call';
+
+// Shared Socket.IO contract between the Next.js client and the chat server in src/server.
+// The event interfaces type `socket.on`/`socket.emit` on both ends; the zod schemas
+// validate payloads at runtime, since anything arriving over the wire is untrusted.
+
+// --- Schemas ---
+
+export const messageTypeSchema = z.enum(['text', 'image', 'video', 'call', 'screen_share']) satisfies z.ZodType<MessageType>;
+
+// What clients may send; call and screen_share messages are only ever added by the server
+export const outgoingMessageTypeSchema = z.enum(['text', 'image', 'video']);
+
+export const MAX_MESSAGE_LENGTH = 4000;
+
+// Message text as typed, without the blank lines and spaces around it
+const messageContentSchema = z
+  .string()
+  .trim()
+  .max(MAX_MESSAGE_LENGTH, `A message can be at most ${MAX_MESSAGE_LENGTH} characters long.`);
+
+export const messageStatusSchema = z.enum(['sent', 'delivered', 'read']) satisfies z.ZodType<MessageStatus>;
+
+export const presenceSchema = z.enum(['online', 'away', 'offline']) satisfies z.ZodType<Presence>;
+
+// Dates are serialized as ISO-8601 strings by Socket.IO's JSON encoding.
+// Accept a Date or a strict ISO timestamp and always hand a Date to the app,
+// so that e.g. `isValid(message.timestamp)` never sees an unparsable value.
+export const timestampSchema = z.union(
+  [z.date(), z.string().datetime({ offset: true }).transform(value => new Date(value))],
+  { errorMap: () => ({ message: 'Expected a Date or an ISO-8601 timestamp string' }) }
+);
+
+export const userSchema: z.ZodType<User, z.ZodTypeDef, unknown> = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  avatarUrl: z.string().optional(),
+  presence: presenceSchema,
+  lastSeen: timestampSchema.optional(),
+});
+
+export const mediaRefSchema: z.ZodType<MediaRef, z.ZodTypeDef, unknown> = z.object({
+  id: z.string().min(1),
+  mimeType: z.string(),
+  size: z.number().int().nonnegative(),
+  width: z.number().int().positive().optional(),
+  height: z.number().int().positive().optional(),
+  url: z.string().url(),
+  durationMs: z.number().int().nonnegative().optional(),
+  posterUrl: z.string().url().optional(),
+  blurhash: z.string().optional(),
+  thumbnails: z
+    .array(z.object({ width: z.number().int().positive(), height: z.number().int().positive(), url: z.string().url() }))
+    .optional(),
+});
+
+export const callSchema: z.ZodType<Call, z.ZodTypeDef, unknown> = z.object({
+  id: z.string().min(1),
+  chatId: z.string().min(1),
+  type: callTypeSchema,
+  initiatorId: z.string().min(1),
+  participantIds: z.array(z.string()),
+  startedAt: timestampSchema,
+  answeredAt: timestampSchema.optional(),
+  endedAt: timestampSchema.optional(),
+  outcome: callOutcomeSchema.optional(),
+});
+
+export const screenShareSchema: z.ZodType<ScreenShare, z.ZodTypeDef, unknown> = z.object({
+  id: z.string().min(1),
+  callId: z.string().min(1),
+  userId: z.string().min(1),
+  startedAt: timestampSchema,
+  endedAt: timestampSchema,
+});
+
+export const quotedMessageSchema: z.ZodType<QuotedMessage, z.ZodTypeDef, unknown> = z.object({
+  id: z.string().min(1),
+  sender: userSchema,
+  type: messageTypeSchema,
+  content: z.string(),
+  deletedAt: timestampSchema.optional(),
+});
+
+// A single emoji, possibly made of several code points (skin tones, flags, ZWJ sequences)
+export const emojiSchema = z
+  .string()
+  .max(32)
+  .regex(/^[\p{Extended_Pictographic}\p{Regional_Indicator}][\p{Extended_Pictographic}\p{Emoji_Component}\u200d\ufe0f]*$/u, 'Expected an emoji');
+
+export const messageReactionSchema: z.ZodType<MessageReaction, z.ZodTypeDef, unknown> = z.object({
+  emoji: z.string().min(1),
+  userIds: z.array(z.string()),
+});
+
+export const linkPreviewSchema: z.ZodType<LinkPreview, z.ZodTypeDef, unknown> = z.object({
+  url: z.string().url(),
+  title: z.string(),
+  description: z.string().optional(),
+  imageUrl: z.string().url().optional(),
+  siteName: z.string().optional(),
+});
+
+export const messageSchema: z.ZodType<Message, z.ZodTypeDef, unknown> = z.object({
+  id: z.string().min(1),
+  sender: userSchema,
+  content: z.string(),
+  media: mediaRefSchema.optional(),
+  call: callSchema.optional(),
+  screenShare: screenShareSchema.optional(),
+  timestamp: timestampSchema,
+  editedAt: timestampSchema.optional(),
+  deletedAt: timestampSchema.optional(),
+  replyTo: quotedMessageSchema.optional(),
+  reactions: z.array(messageReactionSchema).optional(),
+  linkPreview: linkPreviewSchema.optional(),
+  type: messageTypeSchema,
+  status: messageStatusSchema.optional(),
+  error: z.string().optional(),
+});
+
+export const messageRevisionSchema: z.ZodType<MessageRevision, z.ZodTypeDef, unknown> = z.object({
+  content: z.string(),
+  createdAt: timestampSchema,
+});
+
+export const messageReceiptSchema: z.ZodType<MessageReceipt, z.ZodTypeDef, unknown> = z.object({
+  userId: z.string(),
+  status: messageStatusSchema,
+  deliveredAt: timestampSchema.optional(),
+  readAt: timestampSchema.optional(),
+});
+
+// Rules the server enforces on messages, sent along so clients only offer what is allowed
+export const messagePolicySchema = z.object({
+  editWindowMs: z.number().int().nonnegative(), // How long after sending the sender may edit a message
+  deleteWindowMs: z.number().int().nonnegative(), // ...and delete it for everyone
+});
+
+// The user's preferences, kept by the server so they follow them to every device
+export const userSettingsSchema = z.object({
+  linkPreviews: z.boolean(), // Show previews of linked pages under messages
+});
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  linkPreviews: true,
+};
+
+// Deleting for me hides the message from the user only; deleting for everyone leaves a tombstone
+export const deleteScopeSchema = z.enum(['me', 'everyone']);
+
+export const chatSchema: z.ZodType<Chat, z.ZodTypeDef, unknown> = z.object({
+  id: z.string().min(1),
+  name: z.string().optional(),
+  participants: z.array(userSchema),
+  messages: z.array(messageSchema),
+  hasMoreMessages: z.boolean().optional(),
+  lastMessage: messageSchema.optional(),
+  unreadCount: z.number().int().nonnegative().optional(),
+  isGroup: z.boolean(),
+});
+
+export const initialDataSchema = z.object({
+  chats: z.array(chatSchema),
+  onlineUsers: z.record(z.string(), z.string()), // userId -> socketId
+  allUsers: z.array(userSchema),
+  calls: z.array(callSchema), // The user's most recent calls, newest first
+  policy: messagePolicySchema,
+  settings: userSettingsSchema,
+  syncedAt: timestampSchema, // Server time the data is current as of; pass it to `sync` after reconnecting
+});
+
+// What the user missed in one of their chats while disconnected
+export const chatChangesSchema = z.object({
+  chat: chatSchema, // Its messages are the ones sent since the client's last one, oldest first
+  isReset: z.boolean(), // The messages are the latest page instead: the chat is new to the client, or too much was missed
+  updatedMessages: z.array(messageSchema), // Older messages since edited, deleted, reacted to or with a new status
+  removedMessageIds: z.array(z.string()), // Deleted for the user from another of their devices
+});
+
+export const syncDataSchema = z.object({
+  chats: z.array(chatChangesSchema), // Every chat the user is in; any other the client has, they were removed from
+  allUsers: z.array(userSchema),
+  calls: z.array(callSchema), // The user's most recent calls, newest first
+  settings: userSettingsSchema,
+  syncedAt: timestampSchema,
+});
+
+// What a client sends for a new message. The server assigns the final ID, sender
+// and timestamp, so only the content and type are trusted; other keys are stripped.
+export const outgoingMessageSchema = z
+  .object({
+    id: z.string().max(100).optional(), // Temporary client-side ID, reused when retrying so the server stores the message only once
+    content: messageContentSchema,
+    type: outgoingMessageTypeSchema,
+    mediaId: z.string().optional(), // Completed upload to attach; required for image and video messages
+    replyToId: z.string().optional(), // Message of the same chat this one answers
+  })
+  // Image and video messages are their upload, so only text needs content
+  .refine(message => message.type !== 'text' || message.content !== '', { message: 'A message cannot be empty.', path: ['content'] });
+
+export const messageAckSchema = z.object({
+  success: z.boolean(),
+  messageId: z.string().optional(),
+  message: messageSchema.optional(), // The stored message, e.g. with its resolved media
+  error: z.string().optional(),
+});
+
+export const messageRevisionsAckSchema = z.object({
+  success: z.boolean(),
+  revisions: z.array(messageRevisionSchema).optional(), // Oldest first; the current content is not included
+  error: z.string().optional(),
+});
+
+export const messageReceiptsAckSchema = z.object({
+  success: z.boolean(),
+  receipts: z.array(messageReceiptSchema).optional(), // One per other participant
+  error: z.string().optional(),
+});
+
+export const deleteMessageAckSchema = z.object({
+  success: z.boolean(),
+  message: messageSchema.optional(), // The tombstone, when deleted for everyone
+  error: z.string().optional(),
+});
+
+export const reactionsAckSchema = z.object({
+  success: z.boolean(),
+  reactions: z.array(messageReactionSchema).optional(), // All of the message's reactions after the change
+  error: z.string().optional(),
+});
+
+export const settingsAckSchema = z.object({
+  success: z.boolean(),
+  settings: userSettingsSchema.optional(), // All of the user's settings after the change
+  error: z.string().optional(),
+});
+
+export const createGroupAckSchema = z.object({
+  success: z.boolean(),
+  newChat: chatSchema.optional(),
+  error: z.string().optional(),
+});
+
+export const syncAckSchema = z.object({
+  success: z.boolean(),
+  data: syncDataSchema.optional(),
+  error: z.string().optional(),
+});
+
+export const loadMessagesAckSchema = z.object({
+  success: z.boolean(),
+  messages: z.array(messageSchema).optional(), // Oldest first
+  hasMore: z.boolean().optional(),
+  error: z.string().optional(),
+});
+
+// --- Types ---
+
+export type InitialData = z.infer<typeof initialDataSchema>;
+export type ChatChanges = z.infer<typeof chatChangesSchema>;
+export type SyncData = z.infer<typeof syncDataSchema>;
+export type OutgoingMessage = z.infer<typeof outgoingMessageSchema>;
+export type OutgoingMessageType = z.infer<typeof outgoingMessageTypeSchema>;
+export type MessagePolicy = z.infer<typeof messagePolicySchema>;
+export type UserSettings = z.infer<typeof userSettingsSchema>;
+export type MessageAck = z.infer<typeof messageAckSchema>;
+export type MessageRevisionsAck = z.infer<typeof messageRevisionsAckSchema>;
+export type MessageReceiptsAck = z.infer<typeof messageReceiptsAckSchema>;
+export type DeleteScope = z.infer<typeof deleteScopeSchema>;
+export type DeleteMessageAck = z.infer<typeof deleteMessageAckSchema>;
+export type ReactionsAck = z.infer<typeof reactionsAckSchema>;
+export type SettingsAck = z.infer<typeof settingsAckSchema>;
+export type CreateGroupAck = z.infer<typeof createGroupAckSchema>;
+export type LoadMessagesAck = z.infer<typeof loadMessagesAckSchema>;
+export type SyncAck = z.infer<typeof syncAckSchema>;
+
+export interface ServerToClientEvents {
+  initial_data: (data: InitialData) => void;
+  receive_message: (message: Message, chatId: string) => void;
+  message_updated: (message: Message, chatId: string) => void; // Edited or deleted; replaces the stored message
+  message_removed: (chatId: string, messageId: string) => void; // Deleted for the user from another of their tabs
+  reactions_updated: (chatId: string, messageId: string, reactions: MessageReaction[]) => void;
+  link_preview_updated: (chatId: string, messageId: string, preview: LinkPreview) => void; // Fetched after the message was sent
+  settings_updated: (settings: UserSettings) => void; // Changed from another of the user's tabs
+  message_status_update: (chatId: string, messageId: string, status: MessageStatus) => void;
+  user_status_update: (userId: string, presence: Presence, lastSeen: Date | null) => void;
+  // Another participant of the chat started or stopped typing; clients expire a start that is never stopped
+  typing_start: (chatId: string, userId: string) => void;
+  typing_stop: (chatId: string, userId: string) => void;
+  group_created: (chat: Chat) => void;
+  direct_chat_started: (chat: Chat) => void;
+  // A call in one of the user's chats started or changed; they are being rung if listed in `ringingIds`
+  call_updated: (call: CallInfo) => void;
+  // Sent to those in the call: `userId` joined, and each of them should send the newcomer an offer
+  call_accepted: (callId: string, userId: string) => void;
+  call_participant_left: (callId: string, userId: string) => void;
+  call_ended: (callId: string, reason: CallEndReason) => void;
+  call_signal: (callId: string, fromUserId: string, signal: CallSignal) => void;
+  call_media_state: (callId: string, userId: string, state: CallMediaState) => void;
+  server_error: (message: string) => void;
+}
+
+export interface ClientToServerEvents {
+  request_initial_data: () => void;
+  // After reconnecting: what changed since `since`, given the last message the client has of each chat (null if none)
+  sync: (since: Date, lastMessageIds: Record<string, string | null>, ack: (res: SyncAck) => void) => void;
+  send_message: (chatId: string, message: OutgoingMessage, ack: (res: MessageAck) => void) => void;
+  // Replaces the text of one of the sender's own messages, within the policy's edit window
+  edit_message: (chatId: string, messageId: string, content: string, ack: (res: MessageAck) => void) => void;
+  load_message_revisions: (chatId: string, messageId: string, ack: (res: MessageRevisionsAck) => void) => void;
+  // Anyone can delete a message for themselves; only its sender, within the policy's window, for everyone
+  delete_message: (chatId: string, messageId: string, scope: DeleteScope, ack: (res: DeleteMessageAck) => void) => void;
+  // Reacts to a message with an emoji, or takes that reaction back; either is a no-op if already done
+  add_reaction: (chatId: string, messageId: string, emoji: string, ack: (res: ReactionsAck) => void) => void;
+  remove_reaction: (chatId: string, messageId: string, emoji: string, ack: (res: ReactionsAck) => void) => void;
+  // Moves the user's read cursor in the chat up to the message, the latest one they have seen
+  mark_as_read: (chatId: string, messageId: string) => void;
+  // Who of the other participants received and read one of the user's own messages, and when
+  load_message_receipts: (chatId: string, messageId: string, ack: (res: MessageReceiptsAck) => void) => void;
+  // Sent again every few seconds while the user keeps typing, and stopped once they pause or send
+  typing_start: (chatId: string) => void;
+  typing_stop: (chatId: string) => void;
+  // Whether this tab is in use; the user is away once all of their tabs are idle
+  update_presence: (presence: Exclude<Presence, 'offline'>) => void;
+  // Changes some of the user's settings; the others are kept
+  update_settings: (changes: Partial<UserSettings>, ack: (res: SettingsAck) => void) => void;
+  start_direct_chat: (userId: string, otherUserId: string) => void;
+  create_group: (groupName: string, participantIds: string[], ack: (res: CreateGroupAck) => void) => void;
+  // Rings the other participants; the call is recorded in the chat once it ends
+  start_call: (chatId: string, type: CallType, ack: (res: StartCallAck) => void) => void;
+  accept_call: (callId: string, ack: (res: CallAck) => void) => void;
+  decline_call: (callId: string) => void;
+  end_call: (callId: string) => void; // Leaves the call, or cancels it while it is still ringing
+  // Relays an offer, answer or ICE candidate to one other participant of the call
+  call_signal: (callId: string, toUserId: string, signal: CallSignal) => void;
+  call_media_state: (callId: string, state: CallMediaState) => void;
+  // Announces the stream carrying the sender's screen, before its tracks are sent; one presenter at a time
+  start_screen_share: (callId: string, streamId: string, ack: (res: CallAck) => void) => void;
+  stop_screen_share: (callId: string) => void;
+  // Fetches up to `limit` messages older than `beforeId`, or the latest ones when it is null.
+  load_messages: (chatId: string, beforeId: string | null, limit: number, ack: (res: LoadMessagesAck) => void) => void;
+  logout: (userId: string) => void;
+}
+
+// Argument schemas per event. Client-to-server entries exclude the trailing ack callback.
+export const serverToClientSchemas = {
+  initial_data: z.tuple([initialDataSchema]),
+  receive_message: z.tuple([messageSchema, z.string()]),
+  message_updated: z.tuple([messageSchema, z.string()]),
+  message_removed: z.tuple([z.string(), z.string()]),
+  reactions_updated: z.tuple([z.string(), z.string(), z.array(messageReactionSchema)]),
+  link_preview_updated: z.tuple([z.string(), z.string(), linkPreviewSchema]),
+  settings_updated: z.tuple([userSettingsSchema]),
+  message_status_update: z.tuple([z.string(), z.string(), messageStatusSchema]),
+  user_status_update: z.tuple([z.string(), presenceSchema, timestampSchema.nullable()]),
+  typing_start: z.tuple([z.string(), z.string()]),
+  typing_stop: z.tuple([z.string(), z.string()]),
+  group_created: z.tuple([chatSchema]),
+  direct_chat_started: z.tuple([chatSchema]),
+  call_updated: z.tuple([callInfoSchema]),
+  call_accepted: z.tuple([z.string(), z.string()]),
+  call_participant_left: z.tuple([z.string(), z.string()]),
+  call_ended: z.tuple([z.string(), callEndReasonSchema]),
+  call_signal: z.tuple([z.string(), z.string(), callSignalSchema]),
+  call_media_state: z.tuple([z.string(), z.string(), callMediaStateSchema]),
+  server_error: z.tuple([z.string()]),
+} satisfies Record<keyof ServerToClientEvents, z.ZodTypeAny>;
+
+export const clientToServerSchemas = {
+  request_initial_data: z.tuple([]),
+  sync: z.tuple([timestampSchema, z.record(z.string(), z.string().nullable())]),
+  send_message: z.tuple([z.string(), outgoingMessageSchema]),
+  edit_message: z.tuple([z.string(), z.string(), messageContentSchema.min(1, 'A message cannot be empty.')]),
+  load_message_revisions: z.tuple([z.string(), z.string()]),
+  delete_message: z.tuple([z.string(), z.string(), deleteScopeSchema]),
+  add_reaction: z.tuple([z.string(), z.string(), emojiSchema]),
+  remove_reaction: z.tuple([z.string(), z.string(), z.string()]),
+  mark_as_read: z.tuple([z.string(), z.string()]),
+  load_message_receipts: z.tuple([z.string(), z.string()]),
+  typing_start: z.tuple([z.string()]),
+  typing_stop: z.tuple([z.string()]),
+  update_presence: z.tuple([presenceSchema.exclude(['offline'])]),
+  update_settings: z.tuple([userSettingsSchema.partial().strict()]),
+  start_direct_chat: z.tuple([z.string(), z.string()]),
+  create_group: z.tuple([z.string().trim().min(1, 'Group name is required.'), z.array(z.string())]),
+  start_call: z.tuple([z.string(), callTypeSchema]),
+  accept_call: z.tuple([z.string()]),
+  decline_call: z.tuple([z.string()]),
+  end_call: z.tuple([z.string()]),
+  call_signal: z.tuple([z.string(), z.string(), callSignalSchema]),
+  call_media_state: z.tuple([z.string(), callMediaStateSchema]),
+  start_screen_share: z.tuple([z.string(), z.string().min(1)]),
+  stop_screen_share: z.tuple([z.string()]),
+  load_messages: z.tuple([z.string(), z.string().nullable(), z.number().int().min(1).max(100)]),
+  logout: z.tuple([z.string()]),
+} satisfies Record<keyof ClientToServerEvents, z.ZodTypeAny>;
+
+// --- Validation helpers ---
+
+export type ParseResult<T> = { success: true; data: T } | { success: false; error: string };
+
+/** Flattens zod issues into a single readable line, e.g. `[0].timestamp: Invalid date`. */
+export function formatZodError(error: z.ZodError): string {
+  return error.issues
+    .map(issue => {
+      const path = issue.path.map(p => (typeof p === 'number' ? `[${p}]` : `.${p}`)).join('').replace(/^\./, '');
+      return path ? `${path}: ${issue.message}` : issue.message;
+    })
+    .join('; ');
+}
+
+export function parsePayload<S extends z.ZodTypeAny>(schema: S, value: unknown, label: string): ParseResult<z.output<S>> {
+  const result = schema.safeParse(value);
+  if (result.success) return { success: true, data: result.data };
+  return { success: false, error: `Invalid payload for "${label}": ${formatZodError(result.error)}` };
+}
+
+/** Validates the arguments of a server-to-client event. */
+export function parseServerEvent<E extends keyof ServerToClientEvents>(event: E, args: unknown[]) {
+  return parsePayload(serverToClientSchemas[event], args, event) as ParseResult<Parameters<ServerToClientEvents[E]>>;
+}
+
+/** Validates the arguments of a client-to-server event, without its ack callback. */
+export function parseClientEvent<E extends keyof ClientToServerEvents>(event: E, args: unknown[]) {
+  return parsePayload(clientToServerSchemas[event], args, event) as ParseResult<z.output<(typeof clientToServerSchemas)[E]>>;
+}